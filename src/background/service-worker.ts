@@ -3,7 +3,57 @@
  * Handles extension lifecycle events and background operations.
  */
 
-import { initializeInbox } from '@/lib/storage';
+import type { Link } from '@/lib/types';
+import {
+  initializeInbox,
+  purgeExpiredTrash,
+  applyExpiryRules,
+  getLinks,
+  wakeSnoozedLinks,
+  addOrBumpLink,
+  addLink,
+  addLinks,
+  createCollection,
+  getCollections,
+  getActiveWorkspaceId,
+  getSettings,
+  ACTIVE_WORKSPACE_KEY,
+  storage,
+} from '@/lib/storage';
+import { runMigrations } from '@/lib/migrations';
+import { enableIndexedDBStorage } from '@/lib/indexedDBStorage';
+import { SNOOZE_ALARM, scheduleSnoozeAlarm } from '@/lib/snooze';
+import { EXPIRY_ALARM, EXPIRY_CHECK_INTERVAL_MINUTES } from '@/lib/expiry';
+import {
+  closeCurrentTab,
+  getCurrentTab,
+  getTabGroupTitle,
+  getWindowCollectionName,
+  getWindowTabsToSave,
+  isSaveableUrl,
+  isValidUrl,
+} from '@/lib/tabs';
+import { withHistory } from '@/lib/history';
+import { buildContextMenus, getContextMenuSave, getMenuCollections } from '@/lib/contextMenus';
+import { BADGE_COLORS, flashBadge, getBadgeCount, getBadgeState, setBadge } from '@/lib/badge';
+import { findSavedLink, getCanonicalizeOptions } from '@/lib/urlCanonical';
+import { COMMANDS } from '@/lib/commands';
+import {
+  getOmniboxDefaultDescription,
+  getOmniboxSuggestions,
+  getOmniboxTarget,
+  openOmniboxUrl,
+} from '@/lib/omnibox';
+
+// Storage calls below wait for the backend (and the one-time data move) to be ready
+void enableIndexedDBStorage();
+
+const TRASH_PURGE_ALARM = 'tabala-trash-purge';
+const TRASH_PURGE_INTERVAL_MINUTES = 24 * 60;
+const SNOOZE_NOTIFICATION_PREFIX = 'tabala-snooze:';
+const MAX_TITLES_IN_NOTIFICATION = 3;
+const SAVE_ERROR_NOTIFICATION_ID = 'tabala-save-error';
+const DASHBOARD_URL = 'chrome://newtab';
 
 chrome.runtime.onInstalled.addListener((details) => {
   // eslint-disable-next-line no-console
@@ -11,7 +61,18 @@ chrome.runtime.onInstalled.addListener((details) => {
 
   const reason = details.reason as string;
   if (reason === 'install' || reason === 'update') {
-    initializeInbox()
+    runMigrations()
+      .then((result) => {
+        if (result.success) {
+          // eslint-disable-next-line no-console
+          console.log(
+            `[TabAla] Schema at version ${result.toVersion} (applied: ${result.applied.join(', ') || 'none'})`
+          );
+        } else {
+          console.error('[TabAla] Schema migration failed:', result.error);
+        }
+        return initializeInbox();
+      })
       .then(() => {
         // eslint-disable-next-line no-console
         console.log('[TabAla] Inbox collection initialized');
@@ -20,9 +81,313 @@ chrome.runtime.onInstalled.addListener((details) => {
         // eslint-disable-next-line no-console
         console.error('[TabAla] Failed to initialize Inbox:', error);
       });
+
+    void refreshContextMenus();
+    void chrome.alarms.create(TRASH_PURGE_ALARM, { delayInMinutes: 1, periodInMinutes: TRASH_PURGE_INTERVAL_MINUTES });
+    void chrome.alarms.create(EXPIRY_ALARM, { delayInMinutes: 1, periodInMinutes: EXPIRY_CHECK_INTERVAL_MINUTES });
   }
 });
 
+/**
+ * Recreates the periodic alarms if they're gone (the browser may drop them
+ * on restart), leaving existing ones on their schedule.
+ */
+async function ensurePeriodicAlarms(): Promise<void> {
+  const alarms: [string, number][] = [
+    [TRASH_PURGE_ALARM, TRASH_PURGE_INTERVAL_MINUTES],
+    [EXPIRY_ALARM, EXPIRY_CHECK_INTERVAL_MINUTES],
+  ];
+  for (const [name, periodInMinutes] of alarms) {
+    const existing: chrome.alarms.Alarm | undefined = await chrome.alarms.get(name);
+    if (existing === undefined) {
+      await chrome.alarms.create(name, { delayInMinutes: 1, periodInMinutes });
+    }
+  }
+}
+
+/**
+ * Announces links that came back from snooze. A single link gets its own
+ * notification (clicking opens it); several links share one that opens the
+ * dashboard.
+ */
+function notifyWokenLinks(links: Link[]): void {
+  const single = links.length === 1 ? links[0] : null;
+  const titles = links.slice(0, MAX_TITLES_IN_NOTIFICATION).map((link) => link.title || link.url);
+  if (links.length > MAX_TITLES_IN_NOTIFICATION) {
+    titles.push(`e mais ${links.length - MAX_TITLES_IN_NOTIFICATION}`);
+  }
+
+  void chrome.notifications.create(`${SNOOZE_NOTIFICATION_PREFIX}${single?.id ?? Date.now()}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+    title: single !== null ? 'Um link voltou da sala de espera' : `${links.length} links voltaram da sala de espera`,
+    message: titles.join('\n'),
+  });
+}
+
+async function wakeSnoozed(): Promise<void> {
+  const woken = await withHistory('Reativar links adiados', () => wakeSnoozedLinks());
+  if (woken.length > 0) {
+    // eslint-disable-next-line no-console
+    console.log(`[TabAla] Woke ${woken.length} snoozed link(s)`);
+    notifyWokenLinks(woken);
+  }
+  await scheduleSnoozeAlarm(await getLinks());
+}
+
+/**
+ * Rebuilds the context menus so "Salvar em" lists the collections of the
+ * active workspace.
+ */
+async function refreshContextMenus(): Promise<void> {
+  try {
+    const [collections, workspaceId] = await Promise.all([getCollections(), getActiveWorkspaceId()]);
+    await buildContextMenus(getMenuCollections(collections, workspaceId));
+  } catch (error) {
+    console.error('[TabAla] Failed to build context menus:', error);
+  }
+}
+
+/**
+ * Tells the user a save failed; there's no popup open to show it.
+ */
+function notifySaveError(message: string): void {
+  void flashBadge('!', BADGE_COLORS.error);
+  void chrome.notifications.create(SAVE_ERROR_NOTIFICATION_ID, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+    title: 'TabAla',
+    message,
+  });
+}
+
+/**
+ * Recomputes the toolbar badge: the configured link count, or the "already
+ * saved" marker when the current tab's URL is saved.
+ */
+async function refreshBadge(): Promise<void> {
+  try {
+    const [links, collections, settings, tab] = await Promise.all([
+      getLinks(),
+      getCollections(),
+      getSettings(),
+      getCurrentTab(),
+    ]);
+    const currentTabSaved =
+      tab !== null && findSavedLink(tab.url, links, getCanonicalizeOptions(settings)) !== undefined;
+    await setBadge(getBadgeState(getBadgeCount(links, collections, settings), currentTabSaved));
+  } catch (error) {
+    console.error('[TabAla] Failed to refresh badge:', error);
+  }
+}
+
+// Keep the snooze alarm, context menus and badge in sync with the data, whichever context changed it
+storage.watch((changes) => {
+  const links = changes.links?.newValue as Link[] | undefined;
+  if (links !== undefined) {
+    void scheduleSnoozeAlarm(links);
+  }
+  if (changes.collections !== undefined || changes.workspaces !== undefined || changes[ACTIVE_WORKSPACE_KEY] !== undefined) {
+    void refreshContextMenus();
+  }
+  if (links !== undefined || changes.collections !== undefined || changes.settings !== undefined) {
+    void refreshBadge();
+  }
+});
+
+// The "already saved" marker follows the tab in view
+chrome.tabs.onActivated.addListener(() => {
+  void refreshBadge();
+});
+
+chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+  if (changeInfo.url !== undefined && tab.active === true) {
+    void refreshBadge();
+  }
+});
+
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId !== chrome.windows.WINDOW_ID_NONE) {
+    void refreshBadge();
+  }
+});
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const save = getContextMenuSave(info, tab);
+  if (save === null) {
+    return;
+  }
+  if (!isValidUrl(save.url) || !isSaveableUrl(save.url)) {
+    notifySaveError('Esta página não pode ser salva');
+    return;
+  }
+
+  // A hyperlink doesn't belong to the tab group of the page it was found on
+  const { tabGroupId, ...link } = save;
+  getTabGroupTitle(tabGroupId)
+    .then((tabGroup) => withHistory('Adicionar link', () => addLink({ ...link, tabGroup })))
+    .then(() => flashBadge('✓'))
+    .catch((error) => {
+      console.error('[TabAla] Failed to save from context menu:', error);
+      notifySaveError('Erro ao salvar link');
+    });
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  void refreshContextMenus();
+  ensurePeriodicAlarms().catch((error) => {
+    console.error('[TabAla] Failed to schedule alarms:', error);
+  });
+  wakeSnoozed().catch((error) => {
+    console.error('[TabAla] Failed to wake snoozed links:', error);
+  });
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  if (!notificationId.startsWith(SNOOZE_NOTIFICATION_PREFIX)) {
+    return;
+  }
+  void chrome.notifications.clear(notificationId);
+
+  const linkId = notificationId.slice(SNOOZE_NOTIFICATION_PREFIX.length);
+  getLinks()
+    .then((links) => {
+      const link = links.find((l) => l.id === linkId);
+      return chrome.tabs.create({ url: link?.url ?? DASHBOARD_URL });
+    })
+    .catch((error) => {
+      console.error('[TabAla] Failed to open snoozed link:', error);
+    });
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === SNOOZE_ALARM) {
+    wakeSnoozed().catch((error) => {
+      console.error('[TabAla] Failed to wake snoozed links:', error);
+    });
+    return;
+  }
+
+  if (alarm.name === EXPIRY_ALARM) {
+    // Links turn stale with time alone, without any data change
+    void refreshBadge();
+    withHistory('Aplicar regras de expiração', () => applyExpiryRules())
+      .then(({ archived, moved, trashed }) => {
+        if (archived + moved + trashed > 0) {
+          // eslint-disable-next-line no-console
+          console.log(`[TabAla] Expired links: ${archived} archived, ${moved} moved, ${trashed} trashed`);
+        }
+      })
+      .catch((error) => {
+        console.error('[TabAla] Failed to apply expiry rules:', error);
+      });
+    return;
+  }
+
+  if (alarm.name !== TRASH_PURGE_ALARM) {
+    return;
+  }
+
+  purgeExpiredTrash()
+    .then((purged) => {
+      if (purged > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`[TabAla] Purged ${purged} expired trash item(s)`);
+      }
+    })
+    .catch((error) => {
+      console.error('[TabAla] Failed to purge trash:', error);
+    });
+});
+
+/**
+ * Saves the active tab to Inbox, bumping the existing link if the URL is
+ * already saved. With `close`, the tab is parked: closed after saving,
+ * keeping its window open.
+ */
+async function saveCurrentTab(close: boolean): Promise<void> {
+  const tab = await getCurrentTab();
+  if (tab === null || !isSaveableUrl(tab.url)) {
+    notifySaveError('Esta página não pode ser salva');
+    return;
+  }
+  const { bumped } = await withHistory(close ? 'Salvar e fechar aba' : 'Salvar link', () =>
+    addOrBumpLink({ url: tab.url, title: tab.title, favicon: tab.favicon, tabGroup: tab.groupTitle })
+  );
+  if (close) {
+    await closeCurrentTab();
+  }
+  void flashBadge('✓');
+  // eslint-disable-next-line no-console
+  console.log(`[TabAla] ${bumped ? 'Bumped' : 'Saved'}${close ? ' and closed' : ''} tab: ${tab.url}`);
+}
+
+/**
+ * Saves the unpinned tabs of the current window as a new collection in the
+ * active workspace. The badge shows how many tabs were saved.
+ */
+async function saveCurrentWindow(): Promise<void> {
+  const tabs = await getWindowTabsToSave(false);
+  if (tabs.length === 0) {
+    notifySaveError('Nenhuma aba para salvar nesta janela');
+    return;
+  }
+  const workspaceId = await getActiveWorkspaceId();
+  await withHistory('Salvar abas como coleção', async () => {
+    const collection = await createCollection({ name: getWindowCollectionName(), workspaceId });
+    await addLinks(
+      tabs.map(({ url, title, favicon }) => ({ url, title, favicon, collectionId: collection.id }))
+    );
+  });
+  void flashBadge(String(tabs.length));
+}
+
+async function handleCommand(command: string): Promise<void> {
+  switch (command) {
+    case COMMANDS.saveTab:
+      return saveCurrentTab(false);
+    case COMMANDS.saveAndCloseTab:
+      return saveCurrentTab(true);
+    case COMMANDS.saveWindow:
+      return saveCurrentWindow();
+    case COMMANDS.openDashboard:
+      await chrome.tabs.create({ url: DASHBOARD_URL });
+      return;
+  }
+}
+
+chrome.commands.onCommand.addListener((command) => {
+  handleCommand(command).catch((error) => {
+    console.error(`[TabAla] Failed to run command ${command}:`, error);
+    notifySaveError('Erro ao executar o atalho');
+  });
+});
+
+chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+  chrome.omnibox.setDefaultSuggestion({ description: getOmniboxDefaultDescription(text) });
+  Promise.all([getLinks(), getCollections()])
+    .then(([links, collections]) => suggest(getOmniboxSuggestions(links, collections, text)))
+    .catch((error) => {
+      console.error('[TabAla] Failed to search links:', error);
+    });
+});
+
+chrome.omnibox.onInputEntered.addListener((text, disposition) => {
+  getLinks()
+    .then((links) => {
+      const target = getOmniboxTarget(text, links);
+      if (target.type === 'save') {
+        return saveCurrentTab(false);
+      }
+      return openOmniboxUrl(target.type === 'open' ? target.url : DASHBOARD_URL, disposition);
+    })
+    .catch((error) => {
+      console.error('[TabAla] Failed to handle omnibox input:', error);
+    });
+});
+
+void refreshBadge();
+
 // eslint-disable-next-line no-console
 console.log('[TabAla] Service worker loaded');
 
@@ -0,0 +1,74 @@
+/**
+ * Archive helpers: links and collections marked done without deleting them.
+ *
+ * Archived items carry an `archivedAt` timestamp. They stay in storage but
+ * are left out of the Kanban, counts and stats; the Archive view lists them
+ * and can restore them. The storage side lives in storage.ts
+ * ({@link archiveLink}, {@link archiveCollection} and their inverses).
+ *
+ * @module archive
+ */
+
+import type { Collection, Link } from './types';
+
+/**
+ * Checks whether a link or collection is archived.
+ */
+export function isArchived(item: Link | Collection): boolean {
+  return item.archivedAt !== undefined;
+}
+
+/**
+ * Returns the IDs of the archived collections.
+ */
+export function getArchivedCollectionIds(collections: Collection[]): Set<string> {
+  return new Set(collections.filter(isArchived).map((c) => c.id));
+}
+
+/**
+ * Returns the links that are neither archived themselves nor in an archived
+ * collection.
+ *
+ * @param links - All links
+ * @param collections - All collections
+ */
+export function getActiveLinks(links: Link[], collections: Collection[]): Link[] {
+  const archivedCollectionIds = getArchivedCollectionIds(collections);
+  return links.filter((link) => !isArchived(link) && !archivedCollectionIds.has(link.collectionId));
+}
+
+/**
+ * Archived items matching a search, most recently archived first.
+ */
+export interface ArchiveSearchResult {
+  links: Link[];
+  collections: Collection[];
+}
+
+function byArchivedAtDesc(a: Link | Collection, b: Link | Collection): number {
+  return (b.archivedAt ?? 0) - (a.archivedAt ?? 0);
+}
+
+/**
+ * Searches the archive. Links match on title, URL, note or tags; collections
+ * match on name. An empty query returns everything archived.
+ *
+ * Links hidden only because their collection is archived are not listed on
+ * their own; they come back with the collection.
+ *
+ * @param links - All links
+ * @param collections - All collections
+ * @param query - Search text (case-insensitive)
+ */
+export function searchArchive(links: Link[], collections: Collection[], query: string = ''): ArchiveSearchResult {
+  const q = query.trim().toLowerCase();
+  const matches = (...fields: (string | undefined)[]): boolean =>
+    q === '' || fields.some((field) => field?.toLowerCase().includes(q) === true);
+
+  return {
+    links: links
+      .filter((link) => isArchived(link) && matches(link.title, link.url, link.note, ...(link.tags ?? [])))
+      .sort(byArchivedAtDesc),
+    collections: collections.filter((c) => isArchived(c) && matches(c.name)).sort(byArchivedAtDesc),
+  };
+}
@@ -0,0 +1,655 @@
+/**
+ * Full-data backup: export of links, collections, workspaces and settings to
+ * a versioned JSON file, and import of that file with a choice of strategy.
+ *
+ * - `replace` discards the current data and uses the backup's.
+ * - `merge-id` keeps the current data and adds backup items whose IDs are new.
+ * - `merge-url` keeps the current data and adds links whose URLs are new
+ *   (compared in canonical form, see urlCanonical.ts), matching collections
+ *   and workspaces by name.
+ *
+ * Incoming items are validated with the same rules as user input
+ * (`validation.ts`, `isValidUrl`), and settings are rebuilt field by field
+ * with {@link sanitizeSettings}. Collection and workspace IDs that collide
+ * with unrelated existing items are remapped, and their links follow them.
+ * Invalid items, duplicates and workspaces over {@link WORKSPACE_LIMIT} are
+ * skipped and listed in the {@link ImportReport}.
+ *
+ * @module backup
+ */
+
+import type {
+  Link,
+  Collection,
+  Workspace,
+  Settings,
+  BadgeCountMode,
+  ExpiryRule,
+  RoutingCondition,
+  RoutingRule,
+} from './types';
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_WORKSPACE_ID,
+  INBOX_COLLECTION_ID,
+  WORKSPACE_LIMIT,
+  isValidUrl,
+  isValidHexColor,
+  generateId,
+  compareLinksByRecency,
+} from './types';
+import {
+  storage,
+  getLinks,
+  getCollections,
+  getWorkspaces,
+  getSettings,
+  createInboxCollection,
+  createDefaultWorkspace,
+} from './storage';
+import {
+  validateCollectionName,
+  validateWorkspaceName,
+  validateWorkspaceDescription,
+  validateWorkspaceColor,
+  validateRoutingCondition,
+  validateSmartQuery,
+  WORKSPACE_NAME_MAX_LENGTH,
+  NOTE_MAX_LENGTH,
+} from './validation';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { normalizeTags } from './tags';
+import { normalizeNote } from './notes';
+import { canonicalizeUrl, getCanonicalizeOptions } from './urlCanonical';
+import { EXPIRY_ACTIONS } from './expiry';
+import { ROUTING_CONDITION_TYPES } from './routing';
+import { HISTORY_KEY, type HistoryState } from './history';
+
+const BADGE_COUNT_MODES: BadgeCountMode[] = ['inbox', 'all', 'stale', 'none'];
+
+/**
+ * Identifier written to every backup file.
+ */
+export const BACKUP_FORMAT = 'tabala-backup';
+
+/**
+ * Version of the backup file layout. Bump when the layout changes.
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * Data section of a backup file.
+ */
+export interface BackupData {
+  links: Link[];
+  collections: Collection[];
+  workspaces: Workspace[];
+  settings: Settings;
+}
+
+/**
+ * A backup file as written by {@link createBackup}.
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** Unix timestamp (milliseconds) of the export */
+  exportedAt: number;
+  /** Storage schema version of the exporting install */
+  schemaVersion: number;
+  data: BackupData;
+}
+
+/**
+ * How imported data is combined with the current data.
+ */
+export type ImportStrategy = 'replace' | 'merge-id' | 'merge-url';
+
+/**
+ * An item left out of an import, with the reason.
+ */
+export interface SkippedItem {
+  type: 'link' | 'collection' | 'workspace';
+  /** Title, URL or name identifying the item to the user */
+  label: string;
+  reason: string;
+}
+
+/**
+ * Result of an import.
+ */
+export interface ImportReport {
+  success: boolean;
+  error?: string;
+  added: {
+    workspaces: number;
+    collections: number;
+    links: number;
+  };
+  skipped: SkippedItem[];
+}
+
+/**
+ * Result of parsing a backup file.
+ */
+export interface ParseBackupResult {
+  success: boolean;
+  backup?: BackupFile;
+  error?: string;
+}
+
+/**
+ * Builds a backup of all current data.
+ *
+ * @returns The backup, ready to be serialized
+ */
+export async function createBackup(): Promise<BackupFile> {
+  const [links, collections, workspaces, settings] = await Promise.all([
+    getLinks(),
+    getCollections(),
+    getWorkspaces(),
+    getSettings(),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: { links, collections, workspaces, settings },
+  };
+}
+
+/**
+ * Serializes a backup to pretty-printed JSON.
+ */
+export function serializeBackup(backup: BackupFile): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Returns the default file name for a backup made at the given date.
+ *
+ * @example
+ * ```typescript
+ * getBackupFilename(new Date('2024-03-05')); // "tabala-backup-2024-03-05.json"
+ * ```
+ */
+export function getBackupFilename(date: Date = new Date()): string {
+  return `tabala-backup-${date.toISOString().slice(0, 10)}.json`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses and checks the structure of a backup file.
+ * Individual items are validated later, during import, so that invalid ones
+ * can be skipped and reported instead of rejecting the whole file.
+ *
+ * @param text - Contents of the backup file
+ * @returns The parsed backup, or an error message
+ */
+export function parseBackup(text: string): ParseBackupResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'Arquivo não é um JSON válido' };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    return { success: false, error: 'Arquivo não é um backup do TabAla' };
+  }
+
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    return { success: false, error: 'Versão de backup não suportada' };
+  }
+
+  if (typeof parsed.schemaVersion === 'number' && parsed.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { success: false, error: 'Backup criado por uma versão mais nova do TabAla' };
+  }
+
+  const data = parsed.data;
+  if (
+    !isRecord(data) ||
+    !Array.isArray(data.links) ||
+    !Array.isArray(data.collections) ||
+    !Array.isArray(data.workspaces)
+  ) {
+    return { success: false, error: 'Backup incompleto ou corrompido' };
+  }
+
+  return {
+    success: true,
+    backup: {
+      format: BACKUP_FORMAT,
+      version: parsed.version,
+      exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : 0,
+      schemaVersion: typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0,
+      data: {
+        links: data.links as Link[],
+        collections: data.collections as Collection[],
+        workspaces: data.workspaces as Workspace[],
+        settings: { ...DEFAULT_SETTINGS, ...(isRecord(data.settings) ? data.settings : {}) },
+      },
+    },
+  };
+}
+
+/**
+ * Returns `name`, or `name (2)`, `name (3)`... if it is already taken
+ * (case-insensitive), truncating the base to fit `maxLength` if given.
+ */
+function getUniqueName(name: string, taken: string[], maxLength?: number): string {
+  const takenSet = new Set(taken.map((n) => n.toLowerCase()));
+  let candidate = name;
+  let suffix = 2;
+  while (takenSet.has(candidate.toLowerCase())) {
+    const tail = ` (${suffix++})`;
+    const base = maxLength === undefined ? name : name.slice(0, maxLength - tail.length);
+    candidate = `${base}${tail}`;
+  }
+  return candidate;
+}
+
+function getWorkspaceError(workspace: unknown): string | null {
+  if (!isRecord(workspace) || typeof workspace.id !== 'string' || typeof workspace.name !== 'string') {
+    return 'Formato inválido';
+  }
+  const checks = [
+    validateWorkspaceName(workspace.name, '', []),
+    validateWorkspaceColor(typeof workspace.color === 'string' ? workspace.color : ''),
+    validateWorkspaceDescription(typeof workspace.description === 'string' ? workspace.description : ''),
+  ];
+  return checks.find((check) => !check.valid)?.error ?? null;
+}
+
+function getCollectionError(collection: unknown): string | null {
+  if (!isRecord(collection) || typeof collection.id !== 'string' || typeof collection.name !== 'string') {
+    return 'Formato inválido';
+  }
+  const check = validateCollectionName(collection.name, '', []);
+  if (!check.valid) {
+    return check.error ?? 'Nome inválido';
+  }
+  if (collection.isSmart === true) {
+    const queryCheck = validateSmartQuery(typeof collection.smartQuery === 'string' ? collection.smartQuery : '');
+    return queryCheck.valid ? null : (queryCheck.error ?? 'Busca inválida');
+  }
+  return null;
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function getLinkError(link: unknown): string | null {
+  if (!isRecord(link) || typeof link.id !== 'string' || typeof link.title !== 'string') {
+    return 'Formato inválido';
+  }
+  return typeof link.url === 'string' && isValidUrl(link.url) ? null : 'URL inválida';
+}
+
+function sanitizeExpiryRule(rule: unknown): ExpiryRule | null {
+  if (
+    !isRecord(rule) ||
+    typeof rule.id !== 'string' ||
+    (rule.collectionId !== null && typeof rule.collectionId !== 'string') ||
+    typeof rule.maxAgeDays !== 'number' ||
+    !Number.isFinite(rule.maxAgeDays) ||
+    rule.maxAgeDays <= 0
+  ) {
+    return null;
+  }
+  const action = EXPIRY_ACTIONS.find(({ value }) => value === rule.action)?.value;
+  const targetCollectionId = typeof rule.targetCollectionId === 'string' ? rule.targetCollectionId : undefined;
+  if (action === undefined || (action === 'move' && targetCollectionId === undefined)) {
+    return null;
+  }
+  return {
+    id: rule.id,
+    collectionId: rule.collectionId,
+    maxAgeDays: rule.maxAgeDays,
+    action,
+    targetCollectionId: action === 'move' ? targetCollectionId : undefined,
+    enabled: rule.enabled === true,
+  };
+}
+
+function sanitizeRoutingCondition(condition: unknown): RoutingCondition | null {
+  if (!isRecord(condition) || typeof condition.value !== 'string') {
+    return null;
+  }
+  const type = ROUTING_CONDITION_TYPES.find(({ value }) => value === condition.type)?.value;
+  if (type === undefined) {
+    return null;
+  }
+  const sanitized: RoutingCondition = { type, value: condition.value };
+  return validateRoutingCondition(sanitized).valid ? sanitized : null;
+}
+
+function sanitizeRoutingRule(rule: unknown): RoutingRule | null {
+  if (
+    !isRecord(rule) ||
+    typeof rule.id !== 'string' ||
+    typeof rule.name !== 'string' ||
+    !Array.isArray(rule.conditions) ||
+    (rule.collectionId !== undefined && typeof rule.collectionId !== 'string') ||
+    (rule.workspaceId !== undefined && typeof rule.workspaceId !== 'string')
+  ) {
+    return null;
+  }
+  const conditions = rule.conditions.map(sanitizeRoutingCondition);
+  // Dropping a broken condition would make the rule match more than intended
+  if (conditions.length === 0 || conditions.some((condition) => condition === null)) {
+    return null;
+  }
+  return {
+    id: rule.id,
+    name: rule.name,
+    conditions: conditions as RoutingCondition[],
+    collectionId: rule.collectionId,
+    workspaceId: rule.workspaceId,
+    tags: Array.isArray(rule.tags) ? normalizeTags(rule.tags.filter((t): t is string => typeof t === 'string')) : [],
+    enabled: rule.enabled === true,
+  };
+}
+
+function sanitizeRules<T>(rules: unknown, sanitize: (rule: unknown) => T | null): T[] {
+  return Array.isArray(rules) ? rules.map(sanitize).filter((rule): rule is T => rule !== null) : [];
+}
+
+/**
+ * Builds settings from untrusted data, such as a hand-edited or old backup.
+ * Only known fields are kept; fields of the wrong type fall back to their
+ * defaults, and malformed expiry and routing rules are dropped.
+ *
+ * @param value - The `settings` section of a backup
+ */
+export function sanitizeSettings(value: unknown): Settings {
+  const settings = isRecord(value) ? value : {};
+  const booleanOr = (field: unknown, fallback: boolean): boolean =>
+    typeof field === 'boolean' ? field : fallback;
+
+  return {
+    newtabEnabled: booleanOr(settings.newtabEnabled, DEFAULT_SETTINGS.newtabEnabled),
+    onboardingCompleted: booleanOr(settings.onboardingCompleted, DEFAULT_SETTINGS.onboardingCompleted),
+    trashRetentionDays:
+      typeof settings.trashRetentionDays === 'number' &&
+      Number.isInteger(settings.trashRetentionDays) &&
+      settings.trashRetentionDays > 0
+        ? settings.trashRetentionDays
+        : DEFAULT_SETTINGS.trashRetentionDays,
+    expiryRules: sanitizeRules(settings.expiryRules, sanitizeExpiryRule),
+    keepUrlFragments: booleanOr(settings.keepUrlFragments, DEFAULT_SETTINGS.keepUrlFragments),
+    badgeCount: BADGE_COUNT_MODES.find((mode) => mode === settings.badgeCount) ?? DEFAULT_SETTINGS.badgeCount,
+    routingRules: sanitizeRules(settings.routingRules, sanitizeRoutingRule),
+  };
+}
+
+function getItemLabel(item: unknown, fallback: string): string {
+  if (isRecord(item)) {
+    for (const field of ['name', 'title', 'url', 'id']) {
+      const value = item[field];
+      if (typeof value === 'string' && value !== '') {
+        return value;
+      }
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Data accepted by {@link importData}: a backup's data section, or items
+ * produced by another importer (settings are then usually absent).
+ */
+export type ImportData = Omit<BackupData, 'settings'> & { settings?: Settings };
+
+/**
+ * Imports a parsed backup using the given strategy.
+ * All changes are written in a single batch; nothing is written on failure.
+ *
+ * @param backup - Backup returned by {@link parseBackup}
+ * @param strategy - How to combine the backup with the current data
+ * @returns Report with the number of items added and the items skipped
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseBackup(text);
+ * if (parsed.backup) {
+ *   const report = await importBackup(parsed.backup, 'merge-url');
+ *   console.log(report.added.links, report.skipped.length);
+ * }
+ * ```
+ */
+export function importBackup(backup: BackupFile, strategy: ImportStrategy): Promise<ImportReport> {
+  return importData(backup.data, strategy);
+}
+
+/**
+ * Validates and writes links, collections and workspaces using the given
+ * strategy. Shared by every importer so they get the same validation, ID
+ * remapping, workspace limit and report. Settings are only written by
+ * `replace`, and only when present. The undo history is cleared.
+ *
+ * @param data - Items to import; links reference collections by their incoming IDs
+ * @param strategy - How to combine the items with the current data
+ * @returns Report with the number of items added and the items skipped
+ */
+export async function importData(data: ImportData, strategy: ImportStrategy): Promise<ImportReport> {
+  const added = { workspaces: 0, collections: 0, links: 0 };
+  const skipped: SkippedItem[] = [];
+
+  try {
+    const isReplace = strategy === 'replace';
+    const [currentLinks, currentCollections, currentWorkspaces, currentSettings]: [
+      Link[],
+      Collection[],
+      Workspace[],
+      Settings,
+    ] = isReplace
+      ? [[], [], [], DEFAULT_SETTINGS]
+      : await Promise.all([getLinks(), getCollections(), getWorkspaces(), getSettings()]);
+
+    const workspaces: Workspace[] = [...currentWorkspaces];
+    const collections: Collection[] = [...currentCollections];
+    const importedLinks: Link[] = [];
+
+    // Workspaces
+    const workspaceMap = new Map<string, string>();
+    const incomingWorkspaces = [...data.workspaces].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0)
+    );
+    for (const workspace of incomingWorkspaces) {
+      const error = getWorkspaceError(workspace);
+      if (error !== null) {
+        skipped.push({ type: 'workspace', label: getItemLabel(workspace, 'Workspace'), reason: error });
+        continue;
+      }
+
+      const isDefault = workspace.id === DEFAULT_WORKSPACE_ID || workspace.isDefault === true;
+      const match = isDefault
+        ? workspaces.find((w) => w.id === DEFAULT_WORKSPACE_ID)
+        : strategy === 'merge-id'
+          ? workspaces.find((w) => w.id === workspace.id)
+          : strategy === 'merge-url'
+            ? workspaces.find((w) => w.name.toLowerCase() === workspace.name.trim().toLowerCase())
+            : undefined;
+      if (match) {
+        workspaceMap.set(workspace.id, match.id);
+        continue;
+      }
+
+      if (workspaces.length >= WORKSPACE_LIMIT) {
+        workspaceMap.set(workspace.id, DEFAULT_WORKSPACE_ID);
+        skipped.push({
+          type: 'workspace',
+          label: workspace.name,
+          reason: `Limite de ${WORKSPACE_LIMIT} workspaces atingido`,
+        });
+        continue;
+      }
+
+      const id = isDefault
+        ? DEFAULT_WORKSPACE_ID
+        : workspaces.some((w) => w.id === workspace.id) || workspace.id === DEFAULT_WORKSPACE_ID
+          ? generateId()
+          : workspace.id;
+      const orders = workspaces.map((w) => w.order);
+      const description = typeof workspace.description === 'string' ? workspace.description.trim() : '';
+      workspaces.push({
+        id,
+        name: getUniqueName(workspace.name.trim(), workspaces.map((w) => w.name), WORKSPACE_NAME_MAX_LENGTH),
+        description: description !== '' ? description : undefined,
+        color: workspace.color,
+        order:
+          isReplace && typeof workspace.order === 'number'
+            ? workspace.order
+            : orders.length > 0
+              ? Math.max(...orders) + 1
+              : 0,
+        createdAt: toTimestamp(workspace.createdAt) ?? Date.now(),
+        isDefault: isDefault ? true : undefined,
+      });
+      workspaceMap.set(workspace.id, id);
+      added.workspaces++;
+    }
+
+    if (!workspaces.some((w) => w.id === DEFAULT_WORKSPACE_ID)) {
+      workspaces.unshift(createDefaultWorkspace());
+    }
+    const resolveWorkspaceId = (id: string | undefined): string => {
+      if (id === undefined) {
+        return DEFAULT_WORKSPACE_ID;
+      }
+      const mapped = workspaceMap.get(id) ?? id;
+      return workspaces.some((w) => w.id === mapped) ? mapped : DEFAULT_WORKSPACE_ID;
+    };
+
+    // Collections
+    const collectionMap = new Map<string, string>([[INBOX_COLLECTION_ID, INBOX_COLLECTION_ID]]);
+    if (!collections.some((c) => c.id === INBOX_COLLECTION_ID)) {
+      const inbox = data.collections.find((c) => isRecord(c) && c.id === INBOX_COLLECTION_ID);
+      collections.unshift({ ...createInboxCollection(), createdAt: inbox?.createdAt ?? Date.now() });
+    }
+    for (const collection of data.collections) {
+      const error = getCollectionError(collection);
+      if (error !== null) {
+        skipped.push({ type: 'collection', label: getItemLabel(collection, 'Coleção'), reason: error });
+        continue;
+      }
+      if (collection.id === INBOX_COLLECTION_ID) {
+        continue;
+      }
+
+      // A smart collection holds no links, so it only merges with another one
+      const isSmart = collection.isSmart === true;
+      const match =
+        strategy === 'merge-id'
+          ? collections.find((c) => c.id === collection.id && (c.isSmart === true) === isSmart)
+          : strategy === 'merge-url'
+            ? collections.find(
+                (c) =>
+                  (c.isSmart === true) === isSmart &&
+                  c.name.toLowerCase() === collection.name.trim().toLowerCase()
+              )
+            : undefined;
+      if (match) {
+        collectionMap.set(collection.id, match.id);
+        continue;
+      }
+
+      const id = collections.some((c) => c.id === collection.id) ? generateId() : collection.id;
+      const orders = collections.map((c) => c.order);
+      const imported: Collection = {
+        id,
+        name: getUniqueName(collection.name.trim(), collections.map((c) => c.name)),
+        order:
+          isReplace && typeof collection.order === 'number'
+            ? collection.order
+            : Math.max(0, ...orders) + 1,
+        createdAt: toTimestamp(collection.createdAt) ?? Date.now(),
+        color: typeof collection.color === 'string' && isValidHexColor(collection.color) ? collection.color : undefined,
+        workspaceId: resolveWorkspaceId(collection.workspaceId),
+        archivedAt: toTimestamp(collection.archivedAt),
+      };
+      if (isSmart && typeof collection.smartQuery === 'string') {
+        imported.isSmart = true;
+        imported.smartQuery = collection.smartQuery.trim();
+      }
+      collections.push(imported);
+      collectionMap.set(collection.id, id);
+      added.collections++;
+    }
+
+    // Links
+    const linkIds = new Set(currentLinks.map((l) => l.id));
+    // The same page with tracking params or a trailing slash counts as already saved
+    const canonicalizeOptions = getCanonicalizeOptions(currentSettings);
+    const linkUrls = new Set(currentLinks.map((l) => canonicalizeUrl(l.url, canonicalizeOptions)));
+    for (const link of data.links) {
+      const error = getLinkError(link);
+      if (error !== null) {
+        skipped.push({ type: 'link', label: getItemLabel(link, 'Link'), reason: error });
+        continue;
+      }
+      if (strategy === 'merge-id' && linkIds.has(link.id)) {
+        skipped.push({ type: 'link', label: link.title || link.url, reason: 'Já existe' });
+        continue;
+      }
+      if (strategy === 'merge-url' && linkUrls.has(canonicalizeUrl(link.url, canonicalizeOptions))) {
+        skipped.push({ type: 'link', label: link.title || link.url, reason: 'URL já salva' });
+        continue;
+      }
+
+      const mappedCollectionId = collectionMap.get(link.collectionId) ?? link.collectionId;
+      const imported: Link = {
+        id: linkIds.has(link.id) ? generateId() : link.id,
+        url: link.url,
+        title: link.title,
+        favicon: typeof link.favicon === 'string' ? link.favicon : undefined,
+        tags: Array.isArray(link.tags)
+          ? normalizeTags(link.tags.filter((t): t is string => typeof t === 'string'))
+          : undefined,
+        note: typeof link.note === 'string' ? normalizeNote(link.note.slice(0, NOTE_MAX_LENGTH)) : undefined,
+        collectionId: collections.some((c) => c.id === mappedCollectionId && c.isSmart !== true)
+          ? mappedCollectionId
+          : INBOX_COLLECTION_ID,
+        createdAt: toTimestamp(link.createdAt) ?? Date.now(),
+        archivedAt: toTimestamp(link.archivedAt),
+        snoozedUntil: toTimestamp(link.snoozedUntil),
+        bumpedAt: toTimestamp(link.bumpedAt),
+      };
+      importedLinks.push(imported);
+      linkIds.add(imported.id);
+      linkUrls.add(canonicalizeUrl(imported.url, canonicalizeOptions));
+      added.links++;
+    }
+
+    // Undo entries recorded before the import would replay against records
+    // it replaced, so the journal starts over.
+    const emptyHistory: HistoryState = { undo: [], redo: [] };
+    const items: Record<string, unknown> = {
+      links: [...importedLinks, ...currentLinks].sort(compareLinksByRecency),
+      collections,
+      workspaces,
+      [HISTORY_KEY]: emptyHistory,
+    };
+    if (isReplace && data.settings) {
+      items.settings = sanitizeSettings(data.settings);
+    }
+    await storage.setBatch(items);
+
+    return { success: true, added, skipped };
+  } catch (error) {
+    console.error('Failed to import data:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao importar dados',
+      added: { workspaces: 0, collections: 0, links: 0 },
+      skipped: [],
+    };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Toolbar action badge helpers.
+ *
+ * The badge normally shows a count of links (see {@link BadgeCountMode}),
+ * switching to a marker when the current tab is already saved. The service
+ * worker recomputes it with {@link getBadgeState} and applies it through
+ * {@link setBadge}. Saves made from the service worker (context menus,
+ * shortcuts) have no UI of their own, so they confirm with
+ * {@link flashBadge}, which shows briefly and then restores the count.
+ *
+ * @module badge
+ */
+
+import type { BadgeCountMode, Collection, Link, Settings } from './types';
+import { INBOX_COLLECTION_ID } from './types';
+import { getActiveLinks } from './archive';
+import { isSnoozed } from './snooze';
+import { countStaleLinks } from './expiry';
+
+/**
+ * How long a confirmation badge stays visible, in milliseconds.
+ */
+export const BADGE_FLASH_MS = 2000;
+
+/**
+ * Badge colors by meaning, matching the dashboard's palette.
+ */
+export const BADGE_COLORS = {
+  success: '#7CB890',
+  error: '#D4726A',
+  count: '#6B6865',
+  saved: '#E85D42',
+} as const;
+
+/**
+ * Text shown instead of the count when the current tab is already saved.
+ */
+export const SAVED_BADGE_TEXT = '★';
+
+/**
+ * Largest count shown as is; anything above reads "99+".
+ */
+const MAX_BADGE_COUNT = 99;
+
+/**
+ * Text and background color of the badge.
+ */
+export interface BadgeState {
+  text: string;
+  color: string;
+}
+
+/**
+ * Counts the links the badge reports. Archived and snoozed links never
+ * count.
+ *
+ * @param links - All links
+ * @param collections - All collections
+ * @param settings - Badge mode and, for stale links, the expiry rules
+ * @param now - Reference time (ms), defaults to the current time
+ */
+export function getBadgeCount(
+  links: Link[],
+  collections: Collection[],
+  settings: Pick<Settings, 'badgeCount' | 'expiryRules'>,
+  now: number = Date.now()
+): number {
+  const mode: BadgeCountMode = settings.badgeCount;
+  if (mode === 'none') {
+    return 0;
+  }
+
+  const active = getActiveLinks(links, collections).filter((link) => !isSnoozed(link, now));
+  switch (mode) {
+    case 'inbox':
+      return active.filter((link) => link.collectionId === INBOX_COLLECTION_ID).length;
+    case 'stale':
+      return countStaleLinks(active, settings.expiryRules, now);
+    default:
+      return active.length;
+  }
+}
+
+/**
+ * Formats a count for the badge: nothing for zero, "99+" past the limit.
+ */
+export function formatBadgeCount(count: number): string {
+  if (count <= 0) {
+    return '';
+  }
+  return count > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : String(count);
+}
+
+/**
+ * Works out the steady badge.
+ *
+ * @param count - Number of links to report
+ * @param currentTabSaved - Whether the current tab's URL is already saved
+ */
+export function getBadgeState(count: number, currentTabSaved: boolean): BadgeState {
+  if (currentTabSaved) {
+    return { text: SAVED_BADGE_TEXT, color: BADGE_COLORS.saved };
+  }
+  return { text: formatBadgeCount(count), color: BADGE_COLORS.count };
+}
+
+/** The badge shown when no confirmation is flashing */
+let steadyBadge: BadgeState = { text: '', color: BADGE_COLORS.count };
+let flashTimeout: ReturnType<typeof setTimeout> | null = null;
+
+async function applyBadge({ text, color }: BadgeState): Promise<void> {
+  try {
+    await chrome.action.setBadgeBackgroundColor({ color });
+    await chrome.action.setBadgeText({ text });
+  } catch (error) {
+    console.error('Failed to update badge:', error);
+  }
+}
+
+/**
+ * Sets the steady badge. While a confirmation is flashing it is only
+ * remembered, and shown once the flash ends.
+ */
+export async function setBadge(state: BadgeState): Promise<void> {
+  steadyBadge = state;
+  if (flashTimeout === null) {
+    await applyBadge(state);
+  }
+}
+
+/**
+ * Shows a badge briefly, then restores the steady one.
+ *
+ * @param text - Badge text, e.g. "✓"
+ * @param color - Badge background color
+ */
+export async function flashBadge(text: string, color: string = BADGE_COLORS.success): Promise<void> {
+  if (flashTimeout !== null) {
+    clearTimeout(flashTimeout);
+  }
+  flashTimeout = setTimeout(() => {
+    flashTimeout = null;
+    void applyBadge(steadyBadge);
+  }, BADGE_FLASH_MS);
+  await applyBadge({ text, color });
+}
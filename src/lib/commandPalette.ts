@@ -0,0 +1,167 @@
+/**
+ * Command palette: fuzzy matching over links, collections, workspaces, open
+ * tabs and actions.
+ *
+ * Items are plain objects with a `run` callback. Saved data and open tabs
+ * are turned into items by the palette itself; actions come from a
+ * registry, so any part of the dashboard can add its own with
+ * {@link registerPaletteActions} and remove them with the returned
+ * function.
+ *
+ * @module commandPalette
+ */
+
+import { normalizeSearchText } from './search';
+
+/**
+ * What a palette item stands for. Also the display order for ties.
+ */
+export const PALETTE_KINDS = ['action', 'collection', 'workspace', 'link', 'tab'] as const;
+
+export type PaletteItemKind = (typeof PALETTE_KINDS)[number];
+
+/**
+ * Group labels shown next to each item.
+ */
+export const PALETTE_KIND_LABELS: Record<PaletteItemKind, string> = {
+  action: 'Ação',
+  collection: 'Coleção',
+  workspace: 'Workspace',
+  link: 'Link',
+  tab: 'Aba aberta',
+};
+
+/**
+ * A selectable palette entry.
+ */
+export interface PaletteItem {
+  /** Unique across the palette, e.g. "link:<id>" */
+  id: string;
+  kind: PaletteItemKind;
+  title: string;
+  /** Secondary text, e.g. the URL or the collection name */
+  subtitle?: string;
+  favicon?: string;
+  /** Extra words to match, e.g. synonyms of an action */
+  keywords?: string[];
+  /** Performs the item; the palette closes afterwards */
+  run: () => void | Promise<void>;
+}
+
+/**
+ * An action registered in the palette.
+ */
+export type PaletteAction = Omit<PaletteItem, 'kind'>;
+
+/**
+ * A ranked palette item.
+ */
+export interface PaletteMatch {
+  item: PaletteItem;
+  score: number;
+}
+
+/**
+ * Maximum number of results listed.
+ */
+export const PALETTE_RESULTS_LIMIT = 30;
+
+const registeredActions = new Map<string, PaletteAction>();
+
+/**
+ * Adds actions to the palette. Registering an ID again replaces the action.
+ *
+ * @param actions - Actions to add
+ * @returns A function that removes them again
+ */
+export function registerPaletteActions(actions: PaletteAction[]): () => void {
+  for (const action of actions) {
+    registeredActions.set(action.id, action);
+  }
+  return () => {
+    for (const action of actions) {
+      if (registeredActions.get(action.id) === action) {
+        registeredActions.delete(action.id);
+      }
+    }
+  };
+}
+
+/**
+ * Returns the registered actions as palette items, in registration order.
+ */
+export function getPaletteActions(): PaletteItem[] {
+  return [...registeredActions.values()].map((action) => ({ ...action, kind: 'action' }));
+}
+
+/**
+ * Scores how well a query fuzzy-matches a text: every query character must
+ * appear in order. Consecutive characters and characters at the start of a
+ * word score higher, as does a match at the very start of the text.
+ *
+ * @param query - What was typed
+ * @param text - The text to match against
+ * @returns The score, or null if the text doesn't match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = normalizeSearchText(query).replace(/\s+/g, '');
+  const t = normalizeSearchText(text);
+  if (q === '') {
+    return 0;
+  }
+
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+  for (const char of q) {
+    const found = t.indexOf(char, position);
+    if (found === -1) {
+      return null;
+    }
+    const atWordStart = found === 0 || /[^\p{L}\p{N}]/u.test(t[found - 1]);
+    streak = found === position && position > 0 ? streak + 1 : 0;
+    score += 1 + streak * 2 + (atWordStart ? 3 : 0) - Math.min(found - position, 3) * 0.5;
+    position = found + 1;
+  }
+  return t.startsWith(q) ? score + 5 : score;
+}
+
+function scoreItem(item: PaletteItem, query: string): number | null {
+  const scores = [
+    fuzzyScore(query, item.title),
+    ...(item.keywords ?? []).map((keyword) => fuzzyScore(query, keyword)),
+  ].filter((score): score is number => score !== null);
+  const subtitleScore = item.subtitle !== undefined ? fuzzyScore(query, item.subtitle) : null;
+
+  // Matching only the subtitle (e.g. a URL) counts for less than the title
+  const best = Math.max(...scores, subtitleScore !== null ? subtitleScore / 2 : -Infinity);
+  return Number.isFinite(best) ? best : null;
+}
+
+/**
+ * Filters and ranks palette items for a query. With an empty query the
+ * items are listed by kind, actions first.
+ *
+ * @param items - Every available item
+ * @param query - What was typed
+ * @param limit - Maximum number of results
+ */
+export function rankPaletteItems(
+  items: PaletteItem[],
+  query: string,
+  limit = PALETTE_RESULTS_LIMIT
+): PaletteMatch[] {
+  const kindOrder = (item: PaletteItem): number => PALETTE_KINDS.indexOf(item.kind);
+  const matches: PaletteMatch[] = [];
+
+  for (const item of items) {
+    const score = query.trim() === '' ? 0 : scoreItem(item, query);
+    if (score !== null) {
+      matches.push({ item, score });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || kindOrder(a.item) - kindOrder(b.item))
+    .slice(0, limit);
+}
@@ -0,0 +1,69 @@
+/**
+ * Global keyboard shortcuts (`chrome.commands`).
+ *
+ * The commands are declared in the manifest and handled by the service
+ * worker, so they work from any page without opening the popup. The browser
+ * owns the actual key bindings: users change them on its shortcuts page,
+ * and a command whose suggested key clashed with another extension ends up
+ * unassigned.
+ *
+ * @module commands
+ */
+
+/**
+ * Command names, as declared in the manifest.
+ */
+export const COMMANDS = {
+  saveTab: 'save-tab',
+  saveAndCloseTab: 'save-and-close-tab',
+  saveWindow: 'save-window',
+  openDashboard: 'open-dashboard',
+} as const;
+
+/**
+ * The browser page where extension shortcuts are configured.
+ */
+export const SHORTCUTS_SETTINGS_URL = 'chrome://extensions/shortcuts';
+
+/**
+ * A command with its current key binding.
+ */
+export interface CommandShortcut {
+  name: string;
+  description: string;
+  /** Current key binding, or an empty string if none is assigned */
+  shortcut: string;
+}
+
+/**
+ * Reads the extension's commands and their current key bindings, in the
+ * order they are declared in {@link COMMANDS}.
+ */
+export async function getCommandShortcuts(): Promise<CommandShortcut[]> {
+  try {
+    const commands = await chrome.commands.getAll();
+    const order: string[] = Object.values(COMMANDS);
+
+    return commands
+      .filter((command): command is chrome.commands.Command & { name: string } =>
+        command.name !== undefined && order.includes(command.name)
+      )
+      .map((command) => ({
+        name: command.name,
+        description: command.description ?? command.name,
+        shortcut: command.shortcut ?? '',
+      }))
+      .sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+  } catch (error) {
+    console.error('Failed to get commands:', error);
+    return [];
+  }
+}
+
+/**
+ * Opens the browser's shortcut settings. Pages under chrome:// can't be
+ * linked to directly, so this goes through the tabs API.
+ */
+export function openShortcutSettings(): void {
+  void chrome.tabs.create({ url: SHORTCUTS_SETTINGS_URL });
+}
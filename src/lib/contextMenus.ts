@@ -0,0 +1,171 @@
+/**
+ * Right-click menus for saving pages, links and selections.
+ *
+ * The service worker registers the menus with {@link buildContextMenus} and
+ * rebuilds them whenever the collections or the active workspace change, so
+ * the "Salvar em" submenu always lists the collections of the workspace open
+ * in the dashboard. Clicks are turned into a link to save by
+ * {@link getContextMenuSave}.
+ *
+ * @module contextMenus
+ */
+
+import type { Collection } from './types';
+import { INBOX_COLLECTION_ID } from './types';
+import { NOTE_MAX_LENGTH } from './validation';
+import { isSmartCollection } from './smartCollections';
+
+/**
+ * IDs of the fixed menu items.
+ */
+export const CONTEXT_MENU_IDS = {
+  savePage: 'tabala-save-page',
+  saveLink: 'tabala-save-link',
+  saveSelection: 'tabala-save-selection',
+  saveTo: 'tabala-save-to',
+} as const;
+
+/** Prefix of the "Salvar em" submenu items, followed by the collection ID */
+const SAVE_TO_PREFIX = `${CONTEXT_MENU_IDS.saveTo}:`;
+
+/**
+ * A link to save, built from a context menu click.
+ */
+export interface ContextMenuSave {
+  url: string;
+  title: string;
+  favicon?: string;
+  note?: string;
+  collectionId: string;
+  /** Tab group of the saved page; unset when a hyperlink is saved */
+  tabGroupId?: number;
+}
+
+/**
+ * Returns the collections offered in the "Salvar em" submenu: Inbox plus the
+ * active workspace's collections, leaving out archived and smart ones.
+ *
+ * @param collections - All collections
+ * @param workspaceId - The active workspace ID
+ */
+export function getMenuCollections(collections: Collection[], workspaceId: string): Collection[] {
+  return collections
+    .filter(
+      (c) =>
+        c.archivedAt === undefined &&
+        !isSmartCollection(c) &&
+        (c.id === INBOX_COLLECTION_ID || c.workspaceId === workspaceId)
+    )
+    .sort((a, b) => a.order - b.order);
+}
+
+/** The last requested rebuild; each rebuild waits for the previous one */
+let pendingBuild: Promise<void> = Promise.resolve();
+
+function createMenu(properties: chrome.contextMenus.CreateProperties): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.contextMenus.create(properties, () => {
+      const error = chrome.runtime.lastError;
+      if (error) {
+        console.error(`Failed to create context menu ${String(properties.id)}:`, error.message);
+      }
+      resolve();
+    });
+  });
+}
+
+async function registerContextMenus(collections: Collection[]): Promise<void> {
+  await new Promise<void>((resolve) => chrome.contextMenus.removeAll(resolve));
+
+  await createMenu({
+    id: CONTEXT_MENU_IDS.savePage,
+    title: 'Salvar página no TabAla',
+    contexts: ['page'],
+  });
+  await createMenu({
+    id: CONTEXT_MENU_IDS.saveLink,
+    title: 'Salvar link no TabAla',
+    contexts: ['link'],
+  });
+  await createMenu({
+    id: CONTEXT_MENU_IDS.saveSelection,
+    title: 'Salvar página com a seleção como nota',
+    contexts: ['selection'],
+  });
+
+  if (collections.length === 0) {
+    return;
+  }
+  await createMenu({
+    id: CONTEXT_MENU_IDS.saveTo,
+    title: 'Salvar no TabAla em',
+    contexts: ['page', 'link', 'selection'],
+  });
+  for (const collection of collections) {
+    await createMenu({
+      id: `${SAVE_TO_PREFIX}${collection.id}`,
+      parentId: CONTEXT_MENU_IDS.saveTo,
+      title: collection.name,
+      contexts: ['page', 'link', 'selection'],
+    });
+  }
+}
+
+/**
+ * Registers the context menus, replacing any existing ones. Rebuilds run one
+ * at a time, in the order they were requested, so changes arriving close
+ * together can't interleave their removes and creates.
+ *
+ * @param collections - Collections for the "Salvar em" submenu
+ */
+export function buildContextMenus(collections: Collection[]): Promise<void> {
+  const build = pendingBuild.then(() => registerContextMenus(collections));
+  pendingBuild = build.catch(() => undefined);
+  return build;
+}
+
+/**
+ * Works out what a context menu click saves and where.
+ *
+ * The page items save the tab, the link item saves the hyperlink, and a
+ * "Salvar em" item saves whichever was clicked into its collection. A text
+ * selection is kept as the note.
+ *
+ * @param info - The click details
+ * @param tab - The tab the menu was opened in
+ * @returns The link to save, or null for menu items that aren't ours
+ */
+export function getContextMenuSave(
+  info: chrome.contextMenus.OnClickData,
+  tab: chrome.tabs.Tab | undefined
+): ContextMenuSave | null {
+  const menuItemId = String(info.menuItemId);
+  let collectionId = INBOX_COLLECTION_ID;
+  if (menuItemId.startsWith(SAVE_TO_PREFIX)) {
+    collectionId = menuItemId.slice(SAVE_TO_PREFIX.length);
+  } else if (!Object.values(CONTEXT_MENU_IDS).some((id) => id === menuItemId)) {
+    return null;
+  }
+
+  const selection = info.selectionText?.trim();
+  const note = selection !== undefined && selection !== '' ? selection.slice(0, NOTE_MAX_LENGTH) : undefined;
+
+  const linkUrl = info.linkUrl;
+  if (linkUrl !== undefined && menuItemId !== CONTEXT_MENU_IDS.savePage) {
+    // The click data carries no link text, so the URL stands in as the title
+    return { url: linkUrl, title: linkUrl, collectionId, ...(note !== undefined ? { note } : {}) };
+  }
+
+  const url = info.pageUrl ?? tab?.url;
+  if (url === undefined) {
+    return null;
+  }
+  return {
+    url,
+    title: tab?.title !== undefined && tab.title !== '' ? tab.title : url,
+    favicon: tab?.favIconUrl,
+    collectionId,
+    tabGroupId: tab?.groupId,
+    ...(note !== undefined ? { note } : {}),
+  };
+}
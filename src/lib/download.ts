@@ -0,0 +1,20 @@
+/**
+ * File download helper for extension pages.
+ */
+
+/**
+ * Downloads text content as a file by clicking a temporary object-URL link.
+ *
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the content, e.g. "application/json"
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
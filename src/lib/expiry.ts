@@ -0,0 +1,154 @@
+/**
+ * Expiring links: rules that clean up stale links by age.
+ *
+ * A rule applies either to one collection or globally (`collectionId: null`).
+ * A collection's own rule takes precedence over the global one. Age is
+ * measured from {@link Link.createdAt}; archived and snoozed links never
+ * expire. The service worker evaluates the rules periodically through the
+ * {@link EXPIRY_ALARM} alarm, and {@link applyExpiryRules} in storage.ts
+ * performs the actions.
+ *
+ * @module expiry
+ */
+
+import type { ExpiryAction, ExpiryRule, Link } from './types';
+import { isSnoozed } from './snooze';
+
+/**
+ * Name of the periodic alarm that applies the expiry rules.
+ */
+export const EXPIRY_ALARM = 'tabala-expiry-check';
+
+/**
+ * How often the expiry rules are evaluated, in minutes.
+ */
+export const EXPIRY_CHECK_INTERVAL_MINUTES = 60;
+
+/**
+ * Links expiring within this many days are flagged on the dashboard.
+ */
+export const EXPIRY_WARNING_DAYS = 2;
+
+/**
+ * Actions with their labels, in display order.
+ */
+export const EXPIRY_ACTIONS: { value: ExpiryAction; label: string }[] = [
+  { value: 'archive', label: 'Arquivar' },
+  { value: 'move', label: 'Mover para' },
+  { value: 'trash', label: 'Enviar para lixeira' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a link is expiring soon or already past its expiry time.
+ */
+export type ExpiryStatus = 'expiring' | 'expired';
+
+/**
+ * Finds the rule that governs a collection.
+ *
+ * A move rule never applies to its own target, so the global rule can't keep
+ * moving links into the collection they're already in.
+ *
+ * @param collectionId - The collection to look up
+ * @param rules - All configured rules
+ * @returns The applicable enabled rule, or null
+ */
+export function getRuleForCollection(collectionId: string, rules: ExpiryRule[]): ExpiryRule | null {
+  const enabled = rules.filter((rule) => rule.enabled && rule.maxAgeDays > 0);
+  const rule =
+    enabled.find((r) => r.collectionId === collectionId) ??
+    enabled.find((r) => r.collectionId === null) ??
+    null;
+
+  if (rule !== null && rule.action === 'move' && rule.targetCollectionId === collectionId) {
+    return null;
+  }
+  return rule;
+}
+
+/**
+ * Returns when a link expires under the configured rules.
+ *
+ * @param link - The link to check
+ * @param rules - All configured rules
+ * @param now - Reference time (ms), defaults to the current time
+ * @returns Unix timestamp (ms) of expiry, or null if no rule applies
+ */
+export function getLinkExpiry(link: Link, rules: ExpiryRule[], now: number = Date.now()): number | null {
+  if (link.archivedAt !== undefined || isSnoozed(link, now)) {
+    return null;
+  }
+  const rule = getRuleForCollection(link.collectionId, rules);
+  return rule === null ? null : link.createdAt + rule.maxAgeDays * DAY_MS;
+}
+
+/**
+ * Classifies a link as expired, expiring soon or neither.
+ *
+ * @param link - The link to check
+ * @param rules - All configured rules
+ * @param now - Reference time (ms), defaults to the current time
+ */
+export function getExpiryStatus(link: Link, rules: ExpiryRule[], now: number = Date.now()): ExpiryStatus | null {
+  const expiry = getLinkExpiry(link, rules, now);
+  if (expiry === null) {
+    return null;
+  }
+  if (expiry <= now) {
+    return 'expired';
+  }
+  return expiry - now <= EXPIRY_WARNING_DAYS * DAY_MS ? 'expiring' : null;
+}
+
+/**
+ * Returns the links past their expiry time, paired with the rule to apply.
+ *
+ * @param links - All links
+ * @param rules - All configured rules
+ * @param now - Reference time (ms), defaults to the current time
+ */
+export function getExpiredLinks(
+  links: Link[],
+  rules: ExpiryRule[],
+  now: number = Date.now()
+): { link: Link; rule: ExpiryRule }[] {
+  const expired: { link: Link; rule: ExpiryRule }[] = [];
+  for (const link of links) {
+    const expiry = getLinkExpiry(link, rules, now);
+    if (expiry !== null && expiry <= now) {
+      const rule = getRuleForCollection(link.collectionId, rules);
+      if (rule !== null) {
+        expired.push({ link, rule });
+      }
+    }
+  }
+  return expired;
+}
+
+/**
+ * Counts the stale links: expired ones and those expiring soon.
+ *
+ * @param links - All links
+ * @param rules - All configured rules
+ * @param now - Reference time (ms), defaults to the current time
+ */
+export function countStaleLinks(links: Link[], rules: ExpiryRule[], now: number = Date.now()): number {
+  return links.filter((link) => getExpiryStatus(link, rules, now) !== null).length;
+}
+
+/**
+ * Formats the time left before a link expires, e.g. "expira em 2 dias".
+ *
+ * @param expiry - Expiry time (ms)
+ * @param now - Reference time (ms), defaults to the current time
+ */
+export function formatExpiry(expiry: number, now: number = Date.now()): string {
+  const remaining = expiry - now;
+  if (remaining <= 0) {
+    return 'expirado';
+  }
+  const days = Math.ceil(remaining / DAY_MS);
+  return days === 1 ? 'expira em 1 dia' : `expira em ${days} dias`;
+}
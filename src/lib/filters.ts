@@ -65,15 +65,19 @@ export function filterLinksByCollection(
 }
 
 /**
- * Counts links per collection.
+ * Counts links per collection. Archived links are left out unless asked for.
  *
  * @param links - Array of links to count
+ * @param includeArchived - Whether to count archived links too
  * @returns Map of collection ID to link count
  */
-export function countLinksByCollection(links: Link[]): Map<string, number> {
+export function countLinksByCollection(links: Link[], includeArchived = false): Map<string, number> {
   const counts = new Map<string, number>();
 
   for (const link of links) {
+    if (!includeArchived && link.archivedAt !== undefined) {
+      continue;
+    }
     const current = counts.get(link.collectionId) ?? 0;
     counts.set(link.collectionId, current + 1);
   }
@@ -0,0 +1,313 @@
+/**
+ * Undo/redo journal for dashboard mutations.
+ *
+ * Every store mutation runs through {@link withHistory}, which snapshots the
+ * journaled storage keys before and after the mutation and records the
+ * difference as a {@link HistoryEntry}: for each key, the records that were
+ * changed or removed (their old values) and the records that were changed or
+ * added (their new values). Undo and redo replay that difference against the
+ * current data, record by record, so unrelated changes made in between are
+ * kept.
+ *
+ * The journal is persisted under {@link HISTORY_KEY}, so it survives newtab
+ * reloads and is shared by popup and newtab.
+ *
+ * @module history
+ */
+
+import { storage } from './storage';
+
+/**
+ * Storage key holding the persisted {@link HistoryState}.
+ */
+export const HISTORY_KEY = 'history';
+
+/**
+ * Maximum number of entries kept on each stack.
+ */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Storage keys whose records are tracked by the journal.
+ * Each holds an array of records identified by `id`.
+ */
+const JOURNALED_KEYS = ['links', 'collections', 'workspaces', 'trash'] as const;
+
+type JournaledKey = (typeof JOURNALED_KEYS)[number];
+
+/**
+ * Field used to place re-inserted records in arrays whose order matters.
+ * Other arrays are sorted by their getters and records are appended.
+ */
+const INSERT_ORDER_FIELD: Partial<Record<JournaledKey, string>> = {
+  links: 'createdAt',
+  trash: 'deletedAt',
+};
+
+/**
+ * A stored record identified by `id`.
+ */
+export interface StoredRecord {
+  id: string;
+  [field: string]: unknown;
+}
+
+type JournaledState = Record<JournaledKey, StoredRecord[]>;
+
+/**
+ * Record-level difference for a single storage key.
+ */
+export interface RecordPatch {
+  /** Records as they were before the mutation (changed or removed) */
+  before: StoredRecord[];
+  /** Records as they are after the mutation (changed or added) */
+  after: StoredRecord[];
+}
+
+/**
+ * A single undoable mutation.
+ */
+export interface HistoryEntry {
+  id: string;
+  /** Short description shown to the user, e.g. "Mover link" */
+  label: string;
+  /** Unix timestamp (milliseconds) when the mutation was recorded */
+  timestamp: number;
+  patches: Partial<Record<JournaledKey, RecordPatch>>;
+}
+
+/**
+ * Persisted undo and redo stacks, most recent entry last.
+ */
+export interface HistoryState {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+/**
+ * Result of an undo or redo operation.
+ */
+export interface HistoryResult {
+  success: boolean;
+  /** Label of the entry that was undone or redone */
+  label?: string;
+  error?: string;
+}
+
+const EMPTY_HISTORY: HistoryState = { undo: [], redo: [] };
+
+// Serializes journaled mutations and replays so snapshots never interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Retrieves the persisted undo and redo stacks.
+ *
+ * @returns The history state, or empty stacks if none exist
+ */
+export async function getHistory(): Promise<HistoryState> {
+  const history = await storage.get<HistoryState>(HISTORY_KEY);
+  return history ?? { ...EMPTY_HISTORY };
+}
+
+/**
+ * Clears both stacks.
+ */
+export async function clearHistory(): Promise<void> {
+  await storage.set(HISTORY_KEY, EMPTY_HISTORY);
+}
+
+async function captureState(): Promise<JournaledState> {
+  const data = await storage.getBatch<StoredRecord[]>([...JOURNALED_KEYS]);
+  return {
+    links: data.links ?? [],
+    collections: data.collections ?? [],
+    workspaces: data.workspaces ?? [],
+    trash: data.trash ?? [],
+  };
+}
+
+/**
+ * Computes the record-level difference between two versions of an array.
+ *
+ * @returns The patch, or null if both versions hold the same records
+ */
+export function diffRecords(before: StoredRecord[], after: StoredRecord[]): RecordPatch | null {
+  const serializedBefore = new Map(before.map((r) => [r.id, JSON.stringify(r)]));
+  const serializedAfter = new Map(after.map((r) => [r.id, JSON.stringify(r)]));
+
+  const patch: RecordPatch = {
+    before: before.filter((r) => serializedAfter.get(r.id) !== serializedBefore.get(r.id)),
+    after: after.filter((r) => serializedBefore.get(r.id) !== serializedAfter.get(r.id)),
+  };
+
+  return patch.before.length === 0 && patch.after.length === 0 ? null : patch;
+}
+
+/**
+ * Replaces the `from` side of a patch with its `to` side in `current`.
+ * Records changed in place keep their position; re-inserted records are
+ * placed by {@link INSERT_ORDER_FIELD} (most recent first) or appended.
+ */
+export function applyRecordPatch(
+  current: StoredRecord[],
+  from: StoredRecord[],
+  to: StoredRecord[],
+  orderField?: string
+): StoredRecord[] {
+  const fromIds = new Set(from.map((r) => r.id));
+  const pending = new Map(to.map((r) => [r.id, r]));
+  const result: StoredRecord[] = [];
+
+  for (const record of current) {
+    const replacement = pending.get(record.id);
+    if (replacement) {
+      result.push(replacement);
+      pending.delete(record.id);
+    } else if (!fromIds.has(record.id)) {
+      result.push(record);
+    }
+  }
+
+  for (const record of pending.values()) {
+    const insertAt =
+      orderField === undefined
+        ? -1
+        : result.findIndex((r) => Number(r[orderField]) < Number(record[orderField]));
+    if (insertAt === -1) {
+      result.push(record);
+    } else {
+      result.splice(insertAt, 0, record);
+    }
+  }
+
+  return result;
+}
+
+async function recordEntry(label: string, before: JournaledState, after: JournaledState): Promise<void> {
+  const patches: HistoryEntry['patches'] = {};
+  for (const key of JOURNALED_KEYS) {
+    const patch = diffRecords(before[key], after[key]);
+    if (patch) {
+      patches[key] = patch;
+    }
+  }
+
+  if (Object.keys(patches).length === 0) {
+    return;
+  }
+
+  const history = await getHistory();
+  const entry: HistoryEntry = { id: crypto.randomUUID(), label, timestamp: Date.now(), patches };
+  await storage.set(HISTORY_KEY, {
+    undo: [...history.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+    redo: [],
+  });
+}
+
+/**
+ * Runs a mutation and records it on the undo stack.
+ *
+ * Journaling is best-effort: if the snapshots cannot be taken or the entry
+ * cannot be saved, the mutation still runs and its result is returned. A
+ * mutation that throws or changes nothing is not recorded. Recording a new
+ * entry clears the redo stack.
+ *
+ * @param label - Short description shown when undoing, e.g. "Mover link"
+ * @param mutation - The storage operation to run
+ * @returns The mutation's result
+ *
+ * @example
+ * ```typescript
+ * await withHistory('Renomear coleção', () => renameCollection(id, name));
+ * ```
+ */
+export function withHistory<T>(label: string, mutation: () => Promise<T>): Promise<T> {
+  return enqueue(async () => {
+    let before: JournaledState | null = null;
+    try {
+      before = await captureState();
+    } catch (error) {
+      console.error('Failed to snapshot state for history:', error);
+    }
+
+    const result = await mutation();
+
+    if (before) {
+      try {
+        await recordEntry(label, before, await captureState());
+      } catch (error) {
+        console.error('Failed to record history entry:', error);
+      }
+    }
+
+    return result;
+  });
+}
+
+function replay(direction: 'undo' | 'redo'): Promise<HistoryResult> {
+  return enqueue(async () => {
+    try {
+      const history = await getHistory();
+      const stack = direction === 'undo' ? history.undo : history.redo;
+      if (stack.length === 0) {
+        return {
+          success: false,
+          error: direction === 'undo' ? 'Nada para desfazer' : 'Nada para refazer',
+        };
+      }
+
+      const entry = stack[stack.length - 1];
+
+      const state = await captureState();
+      const items: Record<string, unknown> = {};
+      for (const key of JOURNALED_KEYS) {
+        const patch = entry.patches[key];
+        if (!patch) {
+          continue;
+        }
+        items[key] =
+          direction === 'undo'
+            ? applyRecordPatch(state[key], patch.after, patch.before, INSERT_ORDER_FIELD[key])
+            : applyRecordPatch(state[key], patch.before, patch.after, INSERT_ORDER_FIELD[key]);
+      }
+
+      items[HISTORY_KEY] =
+        direction === 'undo'
+          ? { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] }
+          : { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) };
+
+      await storage.setBatch(items);
+      return { success: true, label: entry.label };
+    } catch (error) {
+      console.error(`Failed to ${direction}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro ao aplicar histórico',
+      };
+    }
+  });
+}
+
+/**
+ * Reverts the most recent entry on the undo stack and moves it to the redo stack.
+ *
+ * @returns Result with the label of the undone entry
+ */
+export function undo(): Promise<HistoryResult> {
+  return replay('undo');
+}
+
+/**
+ * Re-applies the most recent entry on the redo stack and moves it back to the undo stack.
+ *
+ * @returns Result with the label of the redone entry
+ */
+export function redo(): Promise<HistoryResult> {
+  return replay('redo');
+}
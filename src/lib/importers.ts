@@ -0,0 +1,506 @@
+/**
+ * Registry of importers for links saved in other tab managers.
+ *
+ * Each {@link ImportAdapter} turns an export file into collections and links
+ * (and, when the source has them, workspaces). {@link previewImport} shows
+ * what would be created per workspace, with links whose URL is already saved
+ * (in canonical form) counted as duplicates, and {@link commitImport} writes the result through
+ * {@link importData} with the `merge-url` strategy, so the preview and the
+ * import agree on what is skipped.
+ *
+ * Built-in adapters: OneTab (plain-text `url | title` blocks), Toby (JSON
+ * lists of cards) and Session Buddy (JSON sessions of windows and tabs).
+ *
+ * @module importers
+ */
+
+import type { Link, Collection, Workspace } from './types';
+import {
+  DEFAULT_WORKSPACE_ID,
+  INBOX_COLLECTION_ID,
+  WORKSPACE_COLORS,
+  isValidUrl,
+  generateId,
+} from './types';
+import { getLinks, getCollections, getWorkspaces, getSettings } from './storage';
+import { isSaveableUrl } from './tabs';
+import { importData, type ImportReport, type SkippedItem } from './backup';
+import { WORKSPACE_NAME_MAX_LENGTH } from './validation';
+import { canonicalizeUrl, getCanonicalizeOptions } from './urlCanonical';
+
+/**
+ * Items produced by an adapter. Links reference collections and collections
+ * reference workspaces by the IDs generated during parsing.
+ */
+export interface ParsedImport {
+  links: Link[];
+  collections: Collection[];
+  workspaces: Workspace[];
+  /** Entries left out while parsing, e.g. internal browser pages */
+  skipped: SkippedItem[];
+}
+
+/**
+ * Importer for one external format.
+ */
+export interface ImportAdapter {
+  /** Stable identifier, e.g. "onetab" */
+  id: string;
+  /** Name shown to the user */
+  name: string;
+  /** Value for the file input's `accept` attribute */
+  accept: string;
+  /** Returns true if the text looks like this adapter's format */
+  detect: (text: string) => boolean;
+  /** Converts the text into importable items; throws on malformed input */
+  parse: (text: string) => ParsedImport;
+}
+
+/**
+ * Result of {@link parseImport}.
+ */
+export interface ParseImportResult {
+  success: boolean;
+  data?: ParsedImport;
+  /** Adapter that read the file */
+  adapter?: ImportAdapter;
+  error?: string;
+}
+
+/**
+ * A collection as it would be created or filled by an import.
+ */
+export interface ImportPreviewCollection {
+  name: string;
+  /** False if the links go into an existing collection with the same name */
+  isNew: boolean;
+  /** Links that will be added */
+  links: number;
+  /** Links skipped because their URL is already saved */
+  duplicates: number;
+}
+
+/**
+ * Collections grouped by the workspace they will end up in.
+ */
+export interface ImportPreviewWorkspace {
+  name: string;
+  isNew: boolean;
+  collections: ImportPreviewCollection[];
+}
+
+/**
+ * What {@link commitImport} would create for a parsed file.
+ */
+export interface ImportPreview {
+  workspaces: ImportPreviewWorkspace[];
+  /** Total links that will be added */
+  links: number;
+  /** Total links skipped because their URL is already saved */
+  duplicates: number;
+  skipped: SkippedItem[];
+}
+
+const adapters = new Map<string, ImportAdapter>();
+
+/**
+ * Adds an adapter to the registry, replacing any adapter with the same ID.
+ */
+export function registerImportAdapter(adapter: ImportAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Returns the registered adapters in registration order.
+ */
+export function getImportAdapters(): ImportAdapter[] {
+  return [...adapters.values()];
+}
+
+/**
+ * Returns the first registered adapter that recognizes the text, or null.
+ */
+export function detectImportAdapter(text: string): ImportAdapter | null {
+  return getImportAdapters().find((adapter) => adapter.detect(text)) ?? null;
+}
+
+/**
+ * Parses an export file with the given adapter, or with the detected one when
+ * no adapter ID is given.
+ *
+ * @param text - Contents of the export file
+ * @param adapterId - ID of a registered adapter
+ * @returns The parsed items, or an error message in Portuguese
+ */
+export function parseImport(text: string, adapterId?: string): ParseImportResult {
+  const adapter = adapterId === undefined ? detectImportAdapter(text) : adapters.get(adapterId);
+  if (!adapter) {
+    return { success: false, error: 'Formato de arquivo não reconhecido' };
+  }
+
+  try {
+    const data = adapter.parse(text);
+    if (data.links.length === 0 && data.skipped.length === 0) {
+      return { success: false, adapter, error: 'Nenhum link encontrado no arquivo' };
+    }
+    return { success: true, data, adapter };
+  } catch (error) {
+    console.error(`Failed to parse ${adapter.id} import:`, error);
+    return { success: false, adapter, error: `Arquivo inválido para ${adapter.name}` };
+  }
+}
+
+/**
+ * Computes what importing the items would create, without writing anything.
+ *
+ * @param data - Items returned by {@link parseImport}
+ * @returns Collections and link counts grouped by workspace
+ */
+export async function previewImport(data: ParsedImport): Promise<ImportPreview> {
+  const [links, collections, workspaces, settings] = await Promise.all([
+    getLinks(),
+    getCollections(),
+    getWorkspaces(),
+    getSettings(),
+  ]);
+
+  // Compared like merge-url does, in canonical form
+  const canonicalizeOptions = getCanonicalizeOptions(settings);
+  const savedUrls = new Set(links.map((l) => canonicalizeUrl(l.url, canonicalizeOptions)));
+  const preview: ImportPreview = { workspaces: [], links: 0, duplicates: 0, skipped: data.skipped };
+  const previewByCollection = new Map<string, ImportPreviewCollection>();
+
+  function getWorkspacePreview(name: string, isNew: boolean): ImportPreviewWorkspace {
+    const key = name.toLowerCase();
+    let workspace = preview.workspaces.find((w) => w.name.toLowerCase() === key);
+    if (!workspace) {
+      workspace = { name, isNew, collections: [] };
+      preview.workspaces.push(workspace);
+    }
+    return workspace;
+  }
+
+  const defaultWorkspaceName =
+    workspaces.find((w) => w.id === DEFAULT_WORKSPACE_ID)?.name ?? 'Geral';
+
+  for (const collection of data.collections) {
+    // Mirrors merge-url: collections and workspaces are matched by name
+    const existing =
+      collection.id === INBOX_COLLECTION_ID
+        ? collections.find((c) => c.id === INBOX_COLLECTION_ID)
+        : collections.find((c) => c.name.toLowerCase() === collection.name.toLowerCase());
+    const incomingWorkspace = data.workspaces.find((w) => w.id === collection.workspaceId);
+    const existingWorkspace = existing
+      ? workspaces.find((w) => w.id === (existing.workspaceId ?? DEFAULT_WORKSPACE_ID))
+      : incomingWorkspace
+        ? workspaces.find((w) => w.name.toLowerCase() === incomingWorkspace.name.toLowerCase())
+        : undefined;
+
+    const workspace = existingWorkspace
+      ? getWorkspacePreview(existingWorkspace.name, false)
+      : incomingWorkspace
+        ? getWorkspacePreview(incomingWorkspace.name, true)
+        : getWorkspacePreview(defaultWorkspaceName, false);
+
+    const collectionPreview: ImportPreviewCollection = {
+      name: existing?.name ?? collection.name,
+      isNew: !existing,
+      links: 0,
+      duplicates: 0,
+    };
+    workspace.collections.push(collectionPreview);
+    previewByCollection.set(collection.id, collectionPreview);
+  }
+
+  for (const link of data.links) {
+    const collectionPreview = previewByCollection.get(link.collectionId);
+    const url = canonicalizeUrl(link.url, canonicalizeOptions);
+    if (savedUrls.has(url)) {
+      preview.duplicates++;
+      if (collectionPreview) {
+        collectionPreview.duplicates++;
+      }
+      continue;
+    }
+    savedUrls.add(url);
+    preview.links++;
+    if (collectionPreview) {
+      collectionPreview.links++;
+    }
+  }
+
+  return preview;
+}
+
+/**
+ * Writes parsed items, skipping links whose URL is already saved.
+ *
+ * @param data - Items returned by {@link parseImport}
+ * @returns Report with the number of items added and the items skipped
+ */
+export async function commitImport(data: ParsedImport): Promise<ImportReport> {
+  const { skipped, ...items } = data;
+  const report = await importData(items, 'merge-url');
+  return { ...report, skipped: [...skipped, ...report.skipped] };
+}
+
+// Adapter helpers
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asTimestamp(value: unknown): number | undefined {
+  const timestamp = typeof value === 'string' ? Date.parse(value) : value;
+  return typeof timestamp === 'number' && Number.isFinite(timestamp) && timestamp > 0
+    ? timestamp
+    : undefined;
+}
+
+function parseJsonRecord(text: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(text);
+    return isRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collects items while an adapter walks its source, assigning fresh IDs,
+ * skipping unsaveable URLs and dropping collections that end up empty.
+ */
+function createImportBuilder(): {
+  addWorkspace: (name: string, createdAt?: number) => string;
+  addCollection: (name: string, workspaceId: string, createdAt?: number) => string;
+  addLink: (collectionId: string, url: string, title: string, favicon?: string, createdAt?: number) => void;
+  build: () => ParsedImport;
+} {
+  const now = Date.now();
+  const data: ParsedImport = { links: [], collections: [], workspaces: [], skipped: [] };
+
+  return {
+    addWorkspace(name, createdAt) {
+      const id = generateId();
+      data.workspaces.push({
+        id,
+        name: name.slice(0, WORKSPACE_NAME_MAX_LENGTH),
+        color: WORKSPACE_COLORS[(data.workspaces.length + 1) % WORKSPACE_COLORS.length],
+        order: data.workspaces.length + 1,
+        createdAt: createdAt ?? now,
+      });
+      return id;
+    },
+
+    addCollection(name, workspaceId, createdAt) {
+      const id = generateId();
+      data.collections.push({
+        id,
+        name,
+        order: data.collections.length + 1,
+        createdAt: createdAt ?? now,
+        workspaceId,
+      });
+      return id;
+    },
+
+    addLink(collectionId, url, title, favicon, createdAt) {
+      if (!isValidUrl(url) || !isSaveableUrl(url)) {
+        data.skipped.push({ type: 'link', label: title || url, reason: 'URL não pode ser salva' });
+        return;
+      }
+      data.links.push({
+        id: generateId(),
+        url,
+        title: title || url,
+        favicon: favicon !== undefined && favicon !== '' ? favicon : undefined,
+        collectionId,
+        createdAt: createdAt ?? now,
+      });
+    },
+
+    build() {
+      const usedCollections = new Set(data.links.map((l) => l.collectionId));
+      const collections = data.collections.filter((c) => usedCollections.has(c.id));
+      const usedWorkspaces = new Set(collections.map((c) => c.workspaceId));
+      return {
+        ...data,
+        collections,
+        workspaces: data.workspaces.filter((w) => usedWorkspaces.has(w.id)),
+      };
+    },
+  };
+}
+
+// Built-in adapters
+
+const ONETAB_LINE = /^\S+:\/\/\S*\s\|\s/;
+
+/**
+ * OneTab "Export URLs" text: one `url | title` per line, with a blank line
+ * between tab groups. Each group becomes a collection.
+ */
+export const oneTabAdapter: ImportAdapter = {
+  id: 'onetab',
+  name: 'OneTab',
+  accept: 'text/plain,.txt',
+
+  detect(text) {
+    return text.split(/\r?\n/).some((line) => ONETAB_LINE.test(line.trim()));
+  },
+
+  parse(text) {
+    const groups: string[][] = [[]];
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (line === '') {
+        if (groups[groups.length - 1].length > 0) {
+          groups.push([]);
+        }
+        continue;
+      }
+      groups[groups.length - 1].push(line);
+    }
+
+    const builder = createImportBuilder();
+    const filledGroups = groups.filter((group) => group.length > 0);
+    filledGroups.forEach((group, index) => {
+      const name = filledGroups.length === 1 ? 'OneTab' : `OneTab ${index + 1}`;
+      const collectionId = builder.addCollection(name, DEFAULT_WORKSPACE_ID);
+      for (const line of group) {
+        const separator = line.indexOf(' | ');
+        const url = separator === -1 ? line : line.slice(0, separator).trim();
+        const title = separator === -1 ? '' : line.slice(separator + 3).trim();
+        builder.addLink(collectionId, url, title);
+      }
+    });
+    return builder.build();
+  },
+};
+
+/**
+ * Toby JSON export: `lists` of `cards`, optionally grouped into `groups`.
+ * Lists become collections; groups become workspaces.
+ */
+export const tobyAdapter: ImportAdapter = {
+  id: 'toby',
+  name: 'Toby',
+  accept: 'application/json,.json',
+
+  detect(text) {
+    const json = parseJsonRecord(text);
+    if (!json) {
+      return false;
+    }
+    const lists = [...asArray(json.lists), ...asArray(json.groups).flatMap((g) => (isRecord(g) ? asArray(g.lists) : []))];
+    return lists.some((list) => isRecord(list) && Array.isArray(list.cards));
+  },
+
+  parse(text) {
+    const json = parseJsonRecord(text);
+    if (!json) {
+      throw new Error('Invalid Toby export');
+    }
+
+    const builder = createImportBuilder();
+    const addLists = (lists: unknown[], workspaceId: string): void => {
+      for (const list of lists) {
+        if (!isRecord(list)) {
+          continue;
+        }
+        const collectionId = builder.addCollection(asString(list.title) || 'Toby', workspaceId);
+        for (const card of asArray(list.cards)) {
+          if (isRecord(card)) {
+            builder.addLink(
+              collectionId,
+              asString(card.url),
+              asString(card.customTitle) || asString(card.title)
+            );
+          }
+        }
+      }
+    };
+
+    addLists(asArray(json.lists), DEFAULT_WORKSPACE_ID);
+    for (const group of asArray(json.groups)) {
+      if (isRecord(group)) {
+        addLists(asArray(group.lists), builder.addWorkspace(asString(group.name) || 'Toby'));
+      }
+    }
+    return builder.build();
+  },
+};
+
+/**
+ * Session Buddy JSON export: `sessions` of `windows` of `tabs` (classic
+ * format) or `collections` of `folders` of `links` (current format).
+ * Each session becomes a collection.
+ */
+export const sessionBuddyAdapter: ImportAdapter = {
+  id: 'session-buddy',
+  name: 'Session Buddy',
+  accept: 'application/json,.json',
+
+  detect(text) {
+    const json = parseJsonRecord(text);
+    if (!json) {
+      return false;
+    }
+    return (
+      asArray(json.sessions).some((s) => isRecord(s) && Array.isArray(s.windows)) ||
+      asArray(json.collections).some((c) => isRecord(c) && Array.isArray(c.folders))
+    );
+  },
+
+  parse(text) {
+    const json = parseJsonRecord(text);
+    if (!json) {
+      throw new Error('Invalid Session Buddy export');
+    }
+
+    const builder = createImportBuilder();
+    let sessionCount = 0;
+    const addSession = (session: Record<string, unknown>, tabs: unknown[]): void => {
+      sessionCount++;
+      const createdAt = asTimestamp(session.created) ?? asTimestamp(session.generated);
+      const name = asString(session.name) || asString(session.title) || `Sessão ${sessionCount}`;
+      const collectionId = builder.addCollection(name, DEFAULT_WORKSPACE_ID, createdAt);
+      for (const tab of tabs) {
+        if (isRecord(tab)) {
+          builder.addLink(
+            collectionId,
+            asString(tab.url),
+            asString(tab.title),
+            asString(tab.favIconUrl),
+            createdAt
+          );
+        }
+      }
+    };
+
+    for (const session of asArray(json.sessions)) {
+      if (isRecord(session)) {
+        addSession(session, asArray(session.windows).flatMap((w) => (isRecord(w) ? asArray(w.tabs) : [])));
+      }
+    }
+    for (const collection of asArray(json.collections)) {
+      if (isRecord(collection)) {
+        addSession(collection, asArray(collection.folders).flatMap((f) => (isRecord(f) ? asArray(f.links) : [])));
+      }
+    }
+    return builder.build();
+  },
+};
+
+// Session Buddy is checked before Toby: both are JSON, and its keys are more specific
+registerImportAdapter(oneTabAdapter);
+registerImportAdapter(sessionBuddyAdapter);
+registerImportAdapter(tobyAdapter);
@@ -0,0 +1,495 @@
+/**
+ * IndexedDB backend for the {@link StorageWrapper} interface.
+ *
+ * chrome.storage.local keeps every link in a single `links` array, so each
+ * save rewrites the whole array and large libraries hit the ~5MB quota. This
+ * backend keeps the same key-value contract but stores `links`, `collections`
+ * and `workspaces` as one record per object, writing only the records that
+ * changed. Every other key (settings, schema version, ...) lives in a plain
+ * key-value store.
+ *
+ * IndexedDB has no cross-context change events, so writes are announced on a
+ * BroadcastChannel that popup, newtab and the service worker all listen to.
+ *
+ * @module indexedDBStorage
+ * @example
+ * ```typescript
+ * import { enableIndexedDBStorage } from '@/lib/indexedDBStorage';
+ *
+ * // Call once at startup, before the first storage access
+ * void enableIndexedDBStorage();
+ * ```
+ */
+
+import type { StorageWrapper, StorageChanges } from './storage';
+import type { Link } from './types';
+import { compareLinksByRecency } from './types';
+import {
+  StorageError,
+  chromeStorage,
+  setStorageBackend,
+  validateKey,
+  validateKeys,
+  validateItems,
+  wrapError,
+} from './storage';
+
+/**
+ * Name of the IndexedDB database.
+ */
+export const IDB_NAME = 'tabala';
+
+/**
+ * Current IndexedDB schema version (object stores and indexes).
+ */
+export const IDB_VERSION = 1;
+
+/**
+ * chrome.storage.local key marking that data has been moved to IndexedDB.
+ */
+export const STORAGE_BACKEND_KEY = 'storageBackend';
+
+/**
+ * BroadcastChannel used to announce changes to other extension contexts.
+ */
+export const STORAGE_CHANNEL_NAME = 'tabala-storage-changes';
+
+/**
+ * Storage keys persisted as one record per array item, keyed by `id`.
+ */
+const RECORD_STORES = ['links', 'collections', 'workspaces'] as const;
+
+type RecordStoreName = (typeof RECORD_STORES)[number];
+
+/**
+ * Object store holding every other key.
+ */
+const KV_STORE = 'kv';
+
+interface StoredRecord {
+  id: string;
+  createdAt?: number;
+}
+
+function isRecordStore(key: string): key is RecordStoreName {
+  return (RECORD_STORES as readonly string[]).includes(key);
+}
+
+function storeFor(key: string): string {
+  return isRecordStore(key) ? key : KV_STORE;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Opens (and creates or upgrades, if needed) the TabAla database.
+ *
+ * @param factory - IDBFactory to use (defaults to the global indexedDB)
+ * @returns The open database
+ */
+export function openTabAlaDatabase(factory: IDBFactory = indexedDB): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(IDB_NAME, IDB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      if (!db.objectStoreNames.contains('links')) {
+        const links = db.createObjectStore('links', { keyPath: 'id' });
+        links.createIndex('collectionId', 'collectionId', { unique: false });
+        links.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains('collections')) {
+        db.createObjectStore('collections', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('workspaces')) {
+        db.createObjectStore('workspaces', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(KV_STORE)) {
+        db.createObjectStore(KV_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Reads a key inside an open transaction.
+ * Record stores resolve to undefined when empty, mirroring a missing key.
+ */
+async function readKey(tx: IDBTransaction, key: string): Promise<unknown> {
+  if (!isRecordStore(key)) {
+    return promisifyRequest(tx.objectStore(KV_STORE).get(key));
+  }
+
+  const store = tx.objectStore(key);
+  if (key === 'links') {
+    // Most recent first, matching the order addLink() produces; woken links
+    // sort by their bump time
+    const links = (await promisifyRequest(store.index('createdAt').getAll())) as Link[];
+    return links.length > 0 ? links.reverse().sort(compareLinksByRecency) : undefined;
+  }
+
+  const records = await promisifyRequest(store.getAll());
+  return records.length > 0 ? records : undefined;
+}
+
+/**
+ * Writes a key inside an open transaction.
+ * For record stores only added, changed and removed records are touched.
+ */
+function writeKey(tx: IDBTransaction, key: string, value: unknown, previous: unknown): void {
+  if (!isRecordStore(key)) {
+    tx.objectStore(KV_STORE).put(value, key);
+    return;
+  }
+
+  if (
+    !Array.isArray(value) ||
+    value.some((item) => typeof (item as StoredRecord | null)?.id !== 'string')
+  ) {
+    throw new StorageError(
+      `Value for "${key}" must be an array of records with an id`,
+      'INVALID_VALUE'
+    );
+  }
+
+  const store = tx.objectStore(key);
+  const previousById = new Map(
+    ((previous as StoredRecord[] | undefined) ?? []).map((record) => [
+      record.id,
+      JSON.stringify(record),
+    ])
+  );
+  const nextIds = new Set<string>();
+
+  for (const record of value as StoredRecord[]) {
+    nextIds.add(record.id);
+    if (previousById.get(record.id) !== JSON.stringify(record)) {
+      store.put(record);
+    }
+  }
+
+  for (const id of previousById.keys()) {
+    if (!nextIds.has(id)) {
+      store.delete(id);
+    }
+  }
+}
+
+/**
+ * Creates a {@link StorageWrapper} backed by an open TabAla database.
+ *
+ * @param db - Database returned by {@link openTabAlaDatabase}
+ * @returns Storage wrapper with the same semantics as chrome.storage.local
+ */
+export function createIndexedDBStorage(db: IDBDatabase): StorageWrapper {
+  const listeners = new Set<(changes: StorageChanges) => void>();
+  const channel =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(STORAGE_CHANNEL_NAME) : null;
+
+  if (channel !== null) {
+    channel.onmessage = (event: MessageEvent<StorageChanges>) => {
+      listeners.forEach((callback) => callback(event.data));
+    };
+  }
+
+  function notify(changes: StorageChanges): void {
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+    listeners.forEach((callback) => callback(changes));
+    channel?.postMessage(changes);
+  }
+
+  async function readKeys(keys: string[]): Promise<Record<string, unknown>> {
+    const stores = [...new Set(keys.map(storeFor))];
+    const tx = db.transaction(stores, 'readonly');
+    const result: Record<string, unknown> = {};
+    for (const key of keys) {
+      const value = await readKey(tx, key);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  async function writeItems(items: Record<string, unknown>): Promise<void> {
+    const keys = Object.keys(items);
+    const stores = [...new Set(keys.map(storeFor))];
+    const tx = db.transaction(stores, 'readwrite');
+    const done = transactionDone(tx);
+    const changes: StorageChanges = {};
+
+    try {
+      for (const key of keys) {
+        const previous = await readKey(tx, key);
+        writeKey(tx, key, items[key], previous);
+        changes[key] = { oldValue: previous, newValue: items[key] };
+      }
+    } catch (error) {
+      tx.abort();
+      await done.catch(() => undefined);
+      throw error;
+    }
+
+    await done;
+    notify(changes);
+  }
+
+  async function deleteKeys(keys: string[]): Promise<void> {
+    const stores = [...new Set(keys.map(storeFor))];
+    const tx = db.transaction(stores, 'readwrite');
+    const done = transactionDone(tx);
+    const changes: StorageChanges = {};
+
+    for (const key of keys) {
+      const previous = await readKey(tx, key);
+      if (isRecordStore(key)) {
+        tx.objectStore(key).clear();
+      } else {
+        tx.objectStore(KV_STORE).delete(key);
+      }
+      if (previous !== undefined) {
+        changes[key] = { oldValue: previous };
+      }
+    }
+
+    await done;
+    notify(changes);
+  }
+
+  async function getAllKeys(): Promise<string[]> {
+    const tx = db.transaction(KV_STORE, 'readonly');
+    const kvKeys = await promisifyRequest(tx.objectStore(KV_STORE).getAllKeys());
+    return [...RECORD_STORES, ...kvKeys.map(String)];
+  }
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      validateKey(key);
+      try {
+        const result = await readKeys([key]);
+        return (result[key] as T) ?? null;
+      } catch (error) {
+        throw wrapError(error, `get value for key "${key}"`);
+      }
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      validateKey(key);
+      if (value === undefined) {
+        throw new StorageError(
+          'Cannot store undefined value. Use remove() to delete a key.',
+          'INVALID_VALUE'
+        );
+      }
+      try {
+        await writeItems({ [key]: value });
+      } catch (error) {
+        throw wrapError(error, `set value for key "${key}"`);
+      }
+    },
+
+    async remove(key: string): Promise<void> {
+      validateKey(key);
+      try {
+        await deleteKeys([key]);
+      } catch (error) {
+        throw wrapError(error, `remove key "${key}"`);
+      }
+    },
+
+    async clear(): Promise<void> {
+      try {
+        await deleteKeys(await getAllKeys());
+      } catch (error) {
+        throw wrapError(error, 'clear storage');
+      }
+    },
+
+    async getAll(): Promise<Record<string, unknown>> {
+      try {
+        return await readKeys(await getAllKeys());
+      } catch (error) {
+        throw wrapError(error, 'get all storage data');
+      }
+    },
+
+    async getBatch<T>(keys: string[]): Promise<Record<string, T>> {
+      validateKeys(keys);
+      try {
+        return (await readKeys(keys)) as Record<string, T>;
+      } catch (error) {
+        throw wrapError(error, 'get batch values');
+      }
+    },
+
+    async setBatch(items: Record<string, unknown>): Promise<void> {
+      validateItems(items);
+      try {
+        await writeItems(items);
+      } catch (error) {
+        throw wrapError(error, 'set batch values');
+      }
+    },
+
+    async removeBatch(keys: string[]): Promise<void> {
+      validateKeys(keys);
+      try {
+        await deleteKeys(keys);
+      } catch (error) {
+        throw wrapError(error, 'remove batch keys');
+      }
+    },
+
+    watch(callback: (changes: StorageChanges) => void): () => void {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+  };
+}
+
+/**
+ * Serializes a stored value for comparison. Record arrays come back from
+ * IndexedDB in index order, so array items are compared as a sorted set.
+ */
+function fingerprint(value: unknown): string {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map((item) => JSON.stringify(item)).sort());
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Copies all data from chrome.storage.local into the given backend, then
+ * marks the move as done and frees the chrome.storage quota.
+ *
+ * This is a one-time operation: once {@link STORAGE_BACKEND_KEY} is set it
+ * does nothing. The marker is only written after the copy has been read back
+ * from the target, so a failed or partial copy leaves chrome.storage as the
+ * source of truth. When the Web Locks API is available the copy runs under a
+ * lock, so concurrent contexts cannot migrate twice.
+ *
+ * @param target - Backend receiving the data
+ * @returns true if data was migrated by this call, false if already migrated
+ * @throws StorageError if the copied data does not match the source
+ */
+export async function migrateFromChromeStorage(target: StorageWrapper): Promise<boolean> {
+  const migrate = async (): Promise<boolean> => {
+    const marker = await chromeStorage.get<string>(STORAGE_BACKEND_KEY);
+    if (marker === 'indexeddb') {
+      return false;
+    }
+
+    const data = await chromeStorage.getAll();
+    delete data[STORAGE_BACKEND_KEY];
+    const keys = Object.keys(data);
+
+    if (keys.length > 0) {
+      await target.setBatch(data);
+      const written = await target.getBatch(keys);
+      const mismatched = keys.filter((key) => fingerprint(written[key]) !== fingerprint(data[key]));
+      if (mismatched.length > 0) {
+        throw new StorageError(
+          `Migrated data does not match chrome.storage for: ${mismatched.join(', ')}`,
+          'MIGRATION_FAILED'
+        );
+      }
+    }
+    await chromeStorage.set(STORAGE_BACKEND_KEY, 'indexeddb');
+    if (keys.length > 0) {
+      await chromeStorage.removeBatch(keys);
+    }
+
+    return true;
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.locks !== undefined) {
+    return navigator.locks.request('tabala-storage-migration', migrate);
+  }
+  return migrate();
+}
+
+/**
+ * Creates a backend whose operations all fail. Installed when the data has
+ * already moved to IndexedDB but the database cannot be opened: chrome.storage
+ * no longer holds it, so serving from there would show an empty library and
+ * let new writes diverge from the real data.
+ *
+ * @param cause - Error raised while opening IndexedDB
+ */
+function createUnavailableStorage(cause: unknown): StorageWrapper {
+  const fail = (): Promise<never> =>
+    Promise.reject(
+      new StorageError(
+        'Could not open the TabAla database. Reload the extension to try again.',
+        'BACKEND_UNAVAILABLE',
+        cause
+      )
+    );
+
+  return {
+    get: fail,
+    set: fail,
+    remove: fail,
+    clear: fail,
+    getAll: fail,
+    getBatch: fail,
+    setBatch: fail,
+    removeBatch: fail,
+    watch: () => () => {},
+  };
+}
+
+/**
+ * Switches the shared `storage` instance to IndexedDB, migrating existing
+ * chrome.storage data on first use. Storage calls made while this runs wait
+ * for it. Falls back to chrome.storage.local if IndexedDB is unavailable or
+ * fails before the migration completes; once data has been migrated, failures
+ * are reported by every storage call instead.
+ *
+ * @returns The backend that was installed
+ */
+export function enableIndexedDBStorage(): Promise<StorageWrapper> {
+  const backend = (async (): Promise<StorageWrapper> => {
+    try {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not available');
+      }
+      const db = await openTabAlaDatabase();
+      const idbStorage = createIndexedDBStorage(db);
+      await migrateFromChromeStorage(idbStorage);
+      return idbStorage;
+    } catch (error) {
+      const marker = await chromeStorage.get<string>(STORAGE_BACKEND_KEY).catch(() => null);
+      if (marker === 'indexeddb') {
+        console.error('IndexedDB storage is unavailable after migration:', error);
+        return createUnavailableStorage(error);
+      }
+      console.error('Failed to enable IndexedDB storage, using chrome.storage:', error);
+      return chromeStorage;
+    }
+  })();
+
+  setStorageBackend(backend);
+  return backend;
+}
@@ -0,0 +1,34 @@
+/**
+ * Helpers for the dashboard's single-key shortcuts ("/", "n", "t", Ctrl+Z).
+ *
+ * These shortcuts are handled on the window, so they also see keys typed into
+ * text fields. Handlers skip them while a field has focus, letting the
+ * character (or the field's native undo) through.
+ *
+ * @module keyboard
+ */
+
+/**
+ * Whether an element accepts typed text: an input, a textarea or a
+ * contenteditable element.
+ *
+ * @param element - The element to check, usually `document.activeElement`
+ *
+ * @example
+ * ```typescript
+ * if (event.key === '/' && !isTextEntryElement(document.activeElement)) {
+ *   event.preventDefault();
+ *   searchInput.focus();
+ * }
+ * ```
+ */
+export function isTextEntryElement(element: Element | null): boolean {
+  if (element === null) {
+    return false;
+  }
+  return (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    (element instanceof HTMLElement && element.isContentEditable === true)
+  );
+}
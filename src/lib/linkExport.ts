@@ -0,0 +1,110 @@
+/**
+ * Export of a list of links as Markdown, CSV or plain URLs, for pasting
+ * reading lists into issues and docs.
+ *
+ * @module linkExport
+ */
+
+import type { Link, Collection, Workspace } from './types';
+import { DEFAULT_WORKSPACE_ID } from './types';
+
+/**
+ * Supported text formats.
+ */
+export type LinkExportFormat = 'markdown' | 'csv' | 'urls';
+
+/**
+ * Display and file details for an export format.
+ */
+export interface LinkExportFormatInfo {
+  value: LinkExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const LINK_EXPORT_FORMATS: LinkExportFormatInfo[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'urls', label: 'Lista de URLs', extension: 'txt', mimeType: 'text/plain' },
+];
+
+/**
+ * Collections and workspaces used to name a link's location in CSV exports.
+ */
+export interface LinkExportContext {
+  collections: Collection[];
+  workspaces: Workspace[];
+}
+
+const CSV_HEADER = ['title', 'url', 'collection', 'workspace', 'createdAt'];
+
+function escapeMarkdownText(text: string): string {
+  return text.replace(/([\\[\]])/g, '\\$1');
+}
+
+function escapeMarkdownUrl(url: string): string {
+  return url.replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/ /g, '%20');
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats links as text.
+ *
+ * - `markdown`: one `- [title](url)` item per line
+ * - `csv`: header plus one row per link (title, url, collection, workspace, createdAt as ISO 8601)
+ * - `urls`: one URL per line
+ *
+ * @param links - Links in the order they should appear
+ * @param format - Output format
+ * @param context - Collections and workspaces, used by the CSV format
+ * @returns The formatted text, ending with a newline
+ */
+export function formatLinks(
+  links: Link[],
+  format: LinkExportFormat,
+  context: LinkExportContext = { collections: [], workspaces: [] }
+): string {
+  let lines: string[];
+
+  if (format === 'markdown') {
+    lines = links.map((l) => `- [${escapeMarkdownText(l.title || l.url)}](${escapeMarkdownUrl(l.url)})`);
+  } else if (format === 'csv') {
+    const collectionsById = new Map(context.collections.map((c) => [c.id, c]));
+    const workspacesById = new Map(context.workspaces.map((w) => [w.id, w]));
+    lines = [
+      CSV_HEADER.join(','),
+      ...links.map((l) => {
+        const collection = collectionsById.get(l.collectionId);
+        const workspace = workspacesById.get(collection?.workspaceId ?? DEFAULT_WORKSPACE_ID);
+        return [l.title, l.url, collection?.name ?? '', workspace?.name ?? '', new Date(l.createdAt).toISOString()]
+          .map(escapeCsvField)
+          .join(',');
+      }),
+    ];
+  } else {
+    lines = links.map((l) => l.url);
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Returns a file name for exporting a list, e.g. "tabala-leitura.md".
+ *
+ * @param name - Collection name or search description
+ * @param format - Output format, which determines the extension
+ */
+export function getLinkExportFilename(name: string, format: LinkExportFormat): string {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const extension = LINK_EXPORT_FORMATS.find((f) => f.value === format)?.extension ?? 'txt';
+  return `tabala-${slug || 'links'}.${extension}`;
+}
@@ -0,0 +1,335 @@
+/**
+ * Versioned schema migrations for data persisted in chrome.storage.local.
+ *
+ * The stored `schemaVersion` key records the last migration applied. On
+ * install/update the service worker calls {@link runMigrations}, which loads a
+ * snapshot of every domain key, runs all pending steps in order against that
+ * snapshot and writes the result back in a single `setBatch` call, so either
+ * every pending step is persisted or none is.
+ *
+ * New fields on {@link Link}, {@link Collection} or {@link Workspace} should
+ * ship as a new entry at the end of {@link MIGRATIONS} instead of defaults
+ * scattered through the storage getters.
+ *
+ * @module migrations
+ */
+
+import type { Link, Collection, Workspace, Settings } from './types';
+import { INBOX_COLLECTION_ID, DEFAULT_WORKSPACE_ID, DEFAULT_SETTINGS } from './types';
+import { storage, createDefaultWorkspace } from './storage';
+
+/**
+ * Storage key holding the current schema version (number).
+ */
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+/**
+ * Storage key holding the list of recorded migration failures.
+ */
+export const MIGRATION_FAILURES_KEY = 'migrationFailures';
+
+/**
+ * Maximum number of failure records kept in storage.
+ */
+const MAX_FAILURE_RECORDS = 10;
+
+/**
+ * Snapshot of the domain data a migration step operates on.
+ * Keys mirror the storage keys used by the storage module.
+ */
+export interface StorageSnapshot {
+  links: Link[];
+  collections: Collection[];
+  workspaces: Workspace[];
+  settings: Settings | null;
+}
+
+/**
+ * A single, ordered schema migration step.
+ */
+export interface Migration {
+  /** Schema version reached after this step runs (strictly increasing) */
+  version: number;
+  /** Short human-readable description, used in logs and failure records */
+  description: string;
+  /**
+   * Transforms the snapshot. Must be pure with respect to storage: all writes
+   * are performed by the runner after every pending step has succeeded.
+   */
+  migrate: (snapshot: StorageSnapshot) => StorageSnapshot;
+}
+
+/**
+ * Record of a failed migration run, persisted under {@link MIGRATION_FAILURES_KEY}.
+ */
+export interface MigrationFailure {
+  /** Version of the step that threw */
+  version: number;
+  /** Schema version stored when the run started */
+  fromVersion: number;
+  /** Error message */
+  error: string;
+  /** Unix timestamp (milliseconds) of the failure */
+  failedAt: number;
+}
+
+/**
+ * Result of a migration run.
+ */
+export interface MigrationResult {
+  success: boolean;
+  /** Schema version before the run */
+  fromVersion: number;
+  /** Schema version after the run (unchanged on failure) */
+  toVersion: number;
+  /** Versions of the steps that were applied */
+  applied: number[];
+  error?: string;
+}
+
+/**
+ * Ordered registry of schema migrations.
+ * Append new steps at the end with the next version number; never reorder or
+ * edit a step that has already shipped.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Create default workspace and assign collections to it',
+    migrate: (snapshot: StorageSnapshot): StorageSnapshot => {
+      const hasDefault = snapshot.workspaces.some((w) => w.id === DEFAULT_WORKSPACE_ID);
+      const workspaces = hasDefault
+        ? snapshot.workspaces
+        : [createDefaultWorkspace(), ...snapshot.workspaces];
+
+      const collections = snapshot.collections.map((c) =>
+        c.id === INBOX_COLLECTION_ID || c.workspaceId !== undefined
+          ? c
+          : { ...c, workspaceId: DEFAULT_WORKSPACE_ID }
+      );
+
+      return { ...snapshot, workspaces, collections };
+    },
+  },
+  {
+    version: 2,
+    description: 'Backfill createdAt and order on collections',
+    migrate: (snapshot: StorageSnapshot): StorageSnapshot => {
+      const orders = snapshot.collections
+        .map((c) => c.order)
+        .filter((order): order is number => typeof order === 'number');
+      let nextOrder = orders.length > 0 ? Math.max(...orders) + 1 : 0;
+
+      const collections = snapshot.collections.map((c) => ({
+        ...c,
+        createdAt: c.createdAt ?? 0,
+        order: typeof c.order === 'number' ? c.order : nextOrder++,
+      }));
+
+      return { ...snapshot, collections };
+    },
+  },
+  {
+    version: 3,
+    description: 'Backfill new settings fields with their defaults',
+    migrate: (snapshot: StorageSnapshot): StorageSnapshot => {
+      if (snapshot.settings === null) {
+        return snapshot;
+      }
+      return { ...snapshot, settings: { ...DEFAULT_SETTINGS, ...snapshot.settings } };
+    },
+  },
+  {
+    version: 4,
+    description: 'Add empty expiry rules to settings',
+    migrate: (snapshot: StorageSnapshot): StorageSnapshot => {
+      if (snapshot.settings === null) {
+        return snapshot;
+      }
+      return { ...snapshot, settings: { ...snapshot.settings, expiryRules: snapshot.settings.expiryRules ?? [] } };
+    },
+  },
+  {
+    version: 5,
+    description: 'Ignore URL fragments when comparing links by default',
+    migrate: (snapshot: StorageSnapshot): StorageSnapshot => {
+      if (snapshot.settings === null) {
+        return snapshot;
+      }
+      return {
+        ...snapshot,
+        settings: { ...snapshot.settings, keepUrlFragments: snapshot.settings.keepUrlFragments ?? false },
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Count Inbox links on the toolbar badge by default',
+    migrate: (snapshot: StorageSnapshot): StorageSnapshot => {
+      if (snapshot.settings === null) {
+        return snapshot;
+      }
+      return {
+        ...snapshot,
+        settings: { ...snapshot.settings, badgeCount: snapshot.settings.badgeCount ?? 'inbox' },
+      };
+    },
+  },
+  {
+    version: 7,
+    description: 'Add empty routing rules to settings',
+    migrate: (snapshot: StorageSnapshot): StorageSnapshot => {
+      if (snapshot.settings === null) {
+        return snapshot;
+      }
+      return {
+        ...snapshot,
+        settings: { ...snapshot.settings, routingRules: snapshot.settings.routingRules ?? [] },
+      };
+    },
+  },
+];
+
+/**
+ * Latest schema version known to this build.
+ */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (max, migration) => Math.max(max, migration.version),
+  0
+);
+
+/**
+ * Reads the stored schema version. Installs that predate the migration
+ * framework have no version stored and are treated as version 0.
+ *
+ * @returns The stored schema version
+ */
+export async function getSchemaVersion(): Promise<number> {
+  const version = await storage.get<number>(SCHEMA_VERSION_KEY);
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Retrieves the recorded migration failures, most recent last.
+ *
+ * @returns Array of failure records, or empty array if none exist
+ */
+export async function getMigrationFailures(): Promise<MigrationFailure[]> {
+  const failures = await storage.get<MigrationFailure[]>(MIGRATION_FAILURES_KEY);
+  return failures ?? [];
+}
+
+/**
+ * Returns the steps that still need to run for the given version, in order.
+ *
+ * @param fromVersion - The currently stored schema version
+ * @param migrations - Registry to select from (defaults to {@link MIGRATIONS})
+ * @returns Pending migrations sorted by version
+ */
+export function getPendingMigrations(
+  fromVersion: number,
+  migrations: readonly Migration[] = MIGRATIONS
+): Migration[] {
+  return migrations
+    .filter((m) => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+async function loadSnapshot(): Promise<StorageSnapshot> {
+  const data = await storage.getBatch<unknown>(['links', 'collections', 'workspaces', 'settings']);
+  return {
+    links: (data.links as Link[] | undefined) ?? [],
+    collections: (data.collections as Collection[] | undefined) ?? [],
+    workspaces: (data.workspaces as Workspace[] | undefined) ?? [],
+    settings: (data.settings as Settings | undefined) ?? null,
+  };
+}
+
+async function recordFailure(failure: MigrationFailure): Promise<void> {
+  try {
+    const failures = await getMigrationFailures();
+    await storage.set(MIGRATION_FAILURES_KEY, [...failures, failure].slice(-MAX_FAILURE_RECORDS));
+  } catch (error) {
+    console.error('Failed to record migration failure:', error);
+  }
+}
+
+/**
+ * Applies every pending migration step.
+ *
+ * Steps run in version order against an in-memory snapshot. When all of them
+ * succeed, the migrated data and the new schema version are written in a
+ * single batch. If any step throws, nothing is written, the failure is
+ * recorded under {@link MIGRATION_FAILURES_KEY} and the stored version is left
+ * untouched so the run is retried on the next install/update event.
+ *
+ * @param migrations - Registry to apply (defaults to {@link MIGRATIONS})
+ * @returns Result describing the versions involved and the applied steps
+ *
+ * @example
+ * ```typescript
+ * const result = await runMigrations();
+ * if (!result.success) {
+ *   console.error(result.error);
+ * }
+ * ```
+ */
+export async function runMigrations(
+  migrations: readonly Migration[] = MIGRATIONS
+): Promise<MigrationResult> {
+  const fromVersion = await getSchemaVersion();
+  const pending = getPendingMigrations(fromVersion, migrations);
+
+  if (pending.length === 0) {
+    return { success: true, fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  let snapshot = await loadSnapshot();
+  let current: Migration | null = null;
+
+  try {
+    for (const migration of pending) {
+      current = migration;
+      snapshot = migration.migrate(snapshot);
+    }
+    current = null;
+
+    const toVersion = pending[pending.length - 1].version;
+    const items: Record<string, unknown> = {
+      links: snapshot.links,
+      collections: snapshot.collections,
+      workspaces: snapshot.workspaces,
+      [SCHEMA_VERSION_KEY]: toVersion,
+    };
+    if (snapshot.settings !== null) {
+      items.settings = snapshot.settings;
+    }
+    await storage.setBatch(items);
+
+    return {
+      success: true,
+      fromVersion,
+      toVersion,
+      applied: pending.map((m) => m.version),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const failedVersion = current?.version ?? pending[pending.length - 1].version;
+    console.error(`Migration ${failedVersion} failed:`, error);
+
+    await recordFailure({
+      version: failedVersion,
+      fromVersion,
+      error: message,
+      failedAt: Date.now(),
+    });
+
+    return {
+      success: false,
+      fromVersion,
+      toVersion: fromVersion,
+      applied: [],
+      error: message,
+    };
+  }
+}
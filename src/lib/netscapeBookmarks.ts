@@ -0,0 +1,362 @@
+/**
+ * Import and export of Netscape bookmark files (`bookmarks.html`), the format
+ * every browser and most bookmark managers read and write.
+ *
+ * On import, folders become collections (nested folders are flattened into
+ * "Parent / Child" names) and, optionally, top-level folders become
+ * workspaces. Links outside any folder go to Inbox. The items are written
+ * through {@link importData} with the `merge-url` strategy, so existing URLs
+ * are skipped.
+ *
+ * @module netscapeBookmarks
+ */
+
+import type { Link, Collection, Workspace } from './types';
+import {
+  DEFAULT_WORKSPACE_ID,
+  INBOX_COLLECTION_ID,
+  WORKSPACE_COLORS,
+  isValidUrl,
+  generateId,
+} from './types';
+import { getLinks, getCollections, getWorkspaces } from './storage';
+import { isSaveableUrl } from './tabs';
+import { importData, type ImportReport, type SkippedItem } from './backup';
+import { WORKSPACE_NAME_MAX_LENGTH } from './validation';
+
+/**
+ * A bookmark in a parsed bookmark file.
+ */
+export interface BookmarkLinkNode {
+  type: 'link';
+  title: string;
+  url: string;
+  /** Unix timestamp (milliseconds), from ADD_DATE */
+  addDate?: number;
+  /** Favicon data URL, from ICON */
+  icon?: string;
+}
+
+/**
+ * A folder in a parsed bookmark file.
+ */
+export interface BookmarkFolderNode {
+  type: 'folder';
+  title: string;
+  /** Unix timestamp (milliseconds), from ADD_DATE */
+  addDate?: number;
+  children: BookmarkNode[];
+}
+
+export type BookmarkNode = BookmarkLinkNode | BookmarkFolderNode;
+
+/**
+ * Options for {@link importBookmarksHtml}.
+ */
+export interface BookmarksImportOptions {
+  /** Turn top-level folders into workspaces instead of collections */
+  topLevelAsWorkspaces: boolean;
+}
+
+/**
+ * What to export with {@link exportBookmarksHtml}.
+ */
+export type BookmarksExportScope =
+  | { type: 'all' }
+  | { type: 'workspace'; workspaceId: string }
+  | { type: 'collection'; collectionId: string };
+
+const FOLDER_PATH_SEPARATOR = ' / ';
+const UNTITLED_FOLDER = 'Sem nome';
+
+function parseAddDate(value: string | null): number | undefined {
+  const seconds = Number(value);
+  return value !== null && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function getChildElement(parent: Element, tagName: string): Element | null {
+  return Array.from(parent.children).find((child) => child.tagName === tagName) ?? null;
+}
+
+function parseList(list: Element): BookmarkNode[] {
+  const nodes: BookmarkNode[] = [];
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'DT') {
+      continue;
+    }
+
+    const anchor = getChildElement(item, 'A');
+    if (anchor) {
+      nodes.push({
+        type: 'link',
+        title: anchor.textContent?.trim() ?? '',
+        url: anchor.getAttribute('href') ?? '',
+        addDate: parseAddDate(anchor.getAttribute('add_date')),
+        icon: anchor.getAttribute('icon') ?? undefined,
+      });
+      continue;
+    }
+
+    const heading = getChildElement(item, 'H3');
+    if (heading) {
+      // Parsers nest the folder's <DL> inside its <DT>; some files place it right after
+      const sibling = item.nextElementSibling;
+      const childList =
+        getChildElement(item, 'DL') ?? (sibling?.tagName === 'DL' ? sibling : null);
+      nodes.push({
+        type: 'folder',
+        title: heading.textContent?.trim() ?? '',
+        addDate: parseAddDate(heading.getAttribute('add_date')),
+        children: childList ? parseList(childList) : [],
+      });
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Parses a Netscape bookmark file into a folder tree.
+ *
+ * @param html - Contents of the bookmark file
+ * @returns Top-level bookmarks and folders, or an empty array if the file has no list
+ */
+export function parseBookmarksHtml(html: string): BookmarkNode[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const root = doc.querySelector('dl');
+  return root ? parseList(root) : [];
+}
+
+/**
+ * Converts a parsed folder tree into importable items.
+ * Bookmarks with URLs that cannot be saved are left out and reported.
+ *
+ * @param nodes - Result of {@link parseBookmarksHtml}
+ * @param options - Import options
+ * @returns Links, collections and workspaces with fresh IDs, plus the skipped bookmarks
+ */
+export function bookmarksToImportData(
+  nodes: BookmarkNode[],
+  options: BookmarksImportOptions
+): { links: Link[]; collections: Collection[]; workspaces: Workspace[]; skipped: SkippedItem[] } {
+  const links: Link[] = [];
+  const collections: Collection[] = [];
+  const workspaces: Workspace[] = [];
+  const skipped: SkippedItem[] = [];
+  const now = Date.now();
+
+  function addLinks(folderLinks: BookmarkLinkNode[], collectionId: string): void {
+    for (const bookmark of folderLinks) {
+      if (!isValidUrl(bookmark.url) || !isSaveableUrl(bookmark.url)) {
+        skipped.push({
+          type: 'link',
+          label: bookmark.title || bookmark.url,
+          reason: 'URL não pode ser salva',
+        });
+        continue;
+      }
+      links.push({
+        id: generateId(),
+        url: bookmark.url,
+        title: bookmark.title || bookmark.url,
+        favicon: bookmark.icon,
+        collectionId,
+        createdAt: bookmark.addDate ?? now,
+      });
+    }
+  }
+
+  function addFolder(folder: BookmarkFolderNode, path: string[], workspaceId: string): void {
+    const folderPath = [...path, folder.title || UNTITLED_FOLDER];
+    const folderLinks = folder.children.filter((n): n is BookmarkLinkNode => n.type === 'link');
+
+    if (folderLinks.length > 0) {
+      const collection: Collection = {
+        id: generateId(),
+        name: folderPath.join(FOLDER_PATH_SEPARATOR),
+        order: collections.length + 1,
+        createdAt: folder.addDate ?? now,
+        workspaceId,
+      };
+      collections.push(collection);
+      addLinks(folderLinks, collection.id);
+    }
+
+    for (const child of folder.children) {
+      if (child.type === 'folder') {
+        addFolder(child, folderPath, workspaceId);
+      }
+    }
+  }
+
+  const rootLinks = nodes.filter((n): n is BookmarkLinkNode => n.type === 'link');
+  addLinks(rootLinks, INBOX_COLLECTION_ID);
+
+  for (const node of nodes) {
+    if (node.type !== 'folder') {
+      continue;
+    }
+
+    if (!options.topLevelAsWorkspaces) {
+      addFolder(node, [], DEFAULT_WORKSPACE_ID);
+      continue;
+    }
+
+    const workspace: Workspace = {
+      id: generateId(),
+      name: (node.title || UNTITLED_FOLDER).slice(0, WORKSPACE_NAME_MAX_LENGTH),
+      color: WORKSPACE_COLORS[(workspaces.length + 1) % WORKSPACE_COLORS.length],
+      order: workspaces.length + 1,
+      createdAt: node.addDate ?? now,
+    };
+    workspaces.push(workspace);
+    // The workspace folder's own bookmarks become a collection named after it
+    addFolder({ ...node, children: node.children.filter((n) => n.type === 'link') }, [], workspace.id);
+    for (const child of node.children) {
+      if (child.type === 'folder') {
+        addFolder(child, [], workspace.id);
+      }
+    }
+  }
+
+  return { links, collections, workspaces, skipped };
+}
+
+/**
+ * Imports a Netscape bookmark file, skipping URLs that are already saved.
+ *
+ * @param html - Contents of the bookmark file
+ * @param options - Import options
+ * @returns Report with the number of items added and the items skipped
+ */
+export async function importBookmarksHtml(
+  html: string,
+  options: BookmarksImportOptions
+): Promise<ImportReport> {
+  const { skipped, ...data } = bookmarksToImportData(parseBookmarksHtml(html), options);
+  const report = await importData(data, 'merge-url');
+  return { ...report, skipped: [...skipped, ...report.skipped] };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toAddDate(timestamp: number | undefined): string {
+  return timestamp === undefined ? '' : ` ADD_DATE="${Math.floor(timestamp / 1000)}"`;
+}
+
+function serializeNodes(nodes: BookmarkNode[], depth: number): string[] {
+  const indent = '    '.repeat(depth);
+  const lines: string[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'link') {
+      const icon = node.icon !== undefined ? ` ICON="${escapeHtml(node.icon)}"` : '';
+      lines.push(
+        `${indent}<DT><A HREF="${escapeHtml(node.url)}"${toAddDate(node.addDate)}${icon}>${escapeHtml(node.title)}</A>`
+      );
+    } else {
+      lines.push(`${indent}<DT><H3${toAddDate(node.addDate)}>${escapeHtml(node.title)}</H3>`);
+      lines.push(`${indent}<DL><p>`);
+      lines.push(...serializeNodes(node.children, depth + 1));
+      lines.push(`${indent}</DL><p>`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Serializes a folder tree to a Netscape bookmark file.
+ *
+ * @param nodes - Top-level bookmarks and folders
+ * @returns The file contents
+ */
+export function serializeBookmarksHtml(nodes: BookmarkNode[]): string {
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    ...serializeNodes(nodes, 1),
+    '</DL><p>',
+    '',
+  ].join('\n');
+}
+
+function collectionToFolder(collection: Collection, links: Link[]): BookmarkFolderNode {
+  return {
+    type: 'folder',
+    title: collection.name,
+    addDate: collection.createdAt,
+    children: links
+      .filter((l) => l.collectionId === collection.id)
+      .map((l) => ({
+        type: 'link' as const,
+        title: l.title,
+        url: l.url,
+        addDate: l.createdAt,
+      })),
+  };
+}
+
+/**
+ * Builds a Netscape bookmark file for a collection, a workspace or all data.
+ * Workspaces become top-level folders containing their collections; Inbox is
+ * exported as a top-level folder.
+ *
+ * @param scope - What to export
+ * @returns The file contents
+ */
+export async function exportBookmarksHtml(scope: BookmarksExportScope): Promise<string> {
+  const [links, collections, workspaces] = await Promise.all([
+    getLinks(),
+    getCollections(),
+    getWorkspaces(),
+  ]);
+  const byOrder = (a: { order: number }, b: { order: number }): number => a.order - b.order;
+
+  const workspaceToFolder = (workspace: Workspace): BookmarkFolderNode => ({
+    type: 'folder',
+    title: workspace.name,
+    addDate: workspace.createdAt,
+    children: collections
+      .filter((c) => c.id !== INBOX_COLLECTION_ID && (c.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspace.id)
+      .sort(byOrder)
+      .map((c) => collectionToFolder(c, links)),
+  });
+
+  let nodes: BookmarkNode[] = [];
+  if (scope.type === 'collection') {
+    const collection = collections.find((c) => c.id === scope.collectionId);
+    nodes = collection ? [collectionToFolder(collection, links)] : [];
+  } else if (scope.type === 'workspace') {
+    const workspace = workspaces.find((w) => w.id === scope.workspaceId);
+    nodes = workspace ? [workspaceToFolder(workspace)] : [];
+  } else {
+    const inbox = collections.find((c) => c.id === INBOX_COLLECTION_ID);
+    nodes = [
+      ...(inbox ? [collectionToFolder(inbox, links)] : []),
+      ...[...workspaces].sort(byOrder).map(workspaceToFolder),
+    ];
+  }
+
+  return serializeBookmarksHtml(nodes);
+}
+
+/**
+ * Returns the default file name for a bookmark export made at the given date.
+ */
+export function getBookmarksFilename(date: Date = new Date()): string {
+  return `tabala-bookmarks-${date.toISOString().slice(0, 10)}.html`;
+}
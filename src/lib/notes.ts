@@ -0,0 +1,107 @@
+/**
+ * Helpers for link notes: rich-text-lite parsing and previews.
+ *
+ * Notes are stored as plain text. A small inline syntax is recognized for
+ * display: `**bold**`, `*italic*`, `` `code` `` and bare http(s) URLs, which
+ * become links.
+ *
+ * @module notes
+ */
+
+/**
+ * A piece of a rendered note.
+ */
+export interface NoteToken {
+  type: 'text' | 'strong' | 'em' | 'code' | 'link' | 'break';
+  /** Text to display; for links, also the URL */
+  text: string;
+}
+
+/**
+ * Inline markers: **bold**, *italic* and bare http(s) URLs without trailing
+ * punctuation.
+ */
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|(\bhttps?:\/\/[^\s<*]*[^\s<*.,;:!?)\]'"])/g;
+
+function parseInline(text: string, tokens: NoteToken[]): void {
+  let lastIndex = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'strong', text: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'em', text: match[2] });
+    } else {
+      tokens.push({ type: 'link', text: match[3] });
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    tokens.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+}
+
+/**
+ * Parses a note into tokens for display. The UI renders each token with
+ * plain markup, so a note can never inject HTML.
+ *
+ * @param note - The note as typed by the user
+ * @returns Tokens in display order
+ *
+ * @example
+ * ```typescript
+ * parseNote('Ler a **seção 3**');
+ * // [{ type: 'text', text: 'Ler a ' }, { type: 'strong', text: 'seção 3' }]
+ * ```
+ */
+export function parseNote(note: string): NoteToken[] {
+  const parts = note.trim().split('`');
+  // An unmatched backtick is kept as a literal character
+  if (parts.length % 2 === 0) {
+    const last = parts.pop() ?? '';
+    parts[parts.length - 1] += `\`${last}`;
+  }
+
+  const tokens: NoteToken[] = [];
+  parts.forEach((part, i) => {
+    part.split('\n').forEach((line, j) => {
+      if (j > 0) {
+        tokens.push({ type: 'break', text: '' });
+      }
+      if (line === '') {
+        return;
+      }
+      if (i % 2 === 1) {
+        tokens.push({ type: 'code', text: line });
+      } else {
+        parseInline(line, tokens);
+      }
+    });
+  });
+  return tokens;
+}
+
+/**
+ * Returns a single-line plain text preview of a note, without formatting
+ * markers.
+ *
+ * @param note - The note to preview
+ * @param maxLength - Maximum length of the preview, including the ellipsis
+ */
+export function getNotePreview(note: string, maxLength = 80): string {
+  const text = note.replace(/\*\*|\*|`/g, '').replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Normalizes a note for storage: trims it and drops it when empty.
+ *
+ * @returns The trimmed note, or undefined if nothing is left
+ */
+export function normalizeNote(note: string | undefined): string | undefined {
+  const trimmed = note?.trim() ?? '';
+  return trimmed === '' ? undefined : trimmed;
+}
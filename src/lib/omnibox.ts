@@ -0,0 +1,190 @@
+/**
+ * Address bar search: typing `ta <busca>` suggests saved links.
+ *
+ * The service worker feeds the omnibox events into these helpers. Every
+ * word of the query must appear in the link's title, URL, note or tags;
+ * matches in the title rank above matches elsewhere, and newer links break
+ * ties. Links from every workspace are searched, archived ones last.
+ *
+ * @module omnibox
+ */
+
+import type { Collection, Link } from './types';
+import { isArchived } from './archive';
+
+/**
+ * Typing this instead of a search saves the current tab.
+ */
+export const OMNIBOX_SAVE_COMMAND = '+';
+
+/**
+ * How many suggestions are shown in the address bar dropdown.
+ */
+export const OMNIBOX_MAX_SUGGESTIONS = 6;
+
+/**
+ * Points each word earns depending on where it matched. A word counts once,
+ * for the best field.
+ */
+const MATCH_SCORES = {
+  titleStart: 8,
+  title: 5,
+  tag: 4,
+  url: 2,
+  note: 1,
+} as const;
+
+/**
+ * A saved link matching an omnibox query.
+ */
+export interface OmniboxMatch {
+  link: Link;
+  score: number;
+}
+
+function scoreTerm(link: Link, term: string): number {
+  const title = link.title.toLowerCase();
+  if (title.startsWith(term) || title.includes(` ${term}`)) {
+    return MATCH_SCORES.titleStart;
+  }
+  if (title.includes(term)) {
+    return MATCH_SCORES.title;
+  }
+  if (link.tags?.some((tag) => tag.includes(term)) === true) {
+    return MATCH_SCORES.tag;
+  }
+  if (link.url.toLowerCase().includes(term)) {
+    return MATCH_SCORES.url;
+  }
+  if (link.note?.toLowerCase().includes(term) === true) {
+    return MATCH_SCORES.note;
+  }
+  return 0;
+}
+
+/**
+ * Finds the saved links matching a query, best match first.
+ *
+ * @param links - All saved links
+ * @param query - Words to search for (case-insensitive)
+ * @param limit - Maximum number of matches
+ */
+export function searchSavedLinks(links: Link[], query: string, limit = OMNIBOX_MAX_SUGGESTIONS): OmniboxMatch[] {
+  const terms = query.toLowerCase().split(/\s+/).filter((term) => term !== '');
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const matches: OmniboxMatch[] = [];
+  for (const link of links) {
+    const scores = terms.map((term) => scoreTerm(link, term));
+    if (scores.every((score) => score > 0)) {
+      matches.push({ link, score: scores.reduce((sum, score) => sum + score, 0) });
+    }
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        Number(isArchived(a.link)) - Number(isArchived(b.link)) ||
+        b.score - a.score ||
+        b.link.createdAt - a.link.createdAt
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Escapes text for an omnibox description, which is parsed as XML.
+ */
+export function escapeOmniboxText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Builds the address bar suggestions for a query. Selecting one enters its
+ * URL, which {@link getOmniboxTarget} then opens.
+ *
+ * @param links - All saved links
+ * @param collections - All collections, to name where each link is
+ * @param query - The text typed after the keyword
+ */
+export function getOmniboxSuggestions(
+  links: Link[],
+  collections: Collection[],
+  query: string
+): chrome.omnibox.SuggestResult[] {
+  const names = new Map(collections.map((c) => [c.id, c.name]));
+
+  return searchSavedLinks(links, query).map(({ link }) => {
+    const place = isArchived(link) ? 'Arquivo' : (names.get(link.collectionId) ?? 'Inbox');
+    return {
+      content: link.url,
+      description:
+        `${escapeOmniboxText(link.title || link.url)} <dim>— ${escapeOmniboxText(place)}</dim> ` +
+        `<url>${escapeOmniboxText(link.url)}</url>`,
+    };
+  });
+}
+
+/**
+ * The top line of the dropdown, describing what pressing Enter does.
+ *
+ * @param query - The text typed after the keyword
+ */
+export function getOmniboxDefaultDescription(query: string): string {
+  const trimmed = query.trim();
+  if (trimmed === OMNIBOX_SAVE_COMMAND) {
+    return 'Salvar a aba atual no TabAla';
+  }
+  if (trimmed === '') {
+    return `Buscar links salvos no TabAla (digite ${OMNIBOX_SAVE_COMMAND} para salvar a aba atual)`;
+  }
+  return `Abrir o melhor resultado para "${escapeOmniboxText(trimmed)}" no TabAla`;
+}
+
+/**
+ * What to do when Enter is pressed in the omnibox.
+ */
+export type OmniboxAction = { type: 'save' } | { type: 'open'; url: string } | { type: 'dashboard' };
+
+/**
+ * Works out what an entered omnibox text does: `+` saves the current tab, a
+ * chosen suggestion is a saved URL to open, and free text opens the best
+ * match, or the dashboard when nothing matches.
+ *
+ * @param text - The entered text
+ * @param links - All saved links
+ */
+export function getOmniboxTarget(text: string, links: Link[]): OmniboxAction {
+  const trimmed = text.trim();
+  if (trimmed === OMNIBOX_SAVE_COMMAND) {
+    return { type: 'save' };
+  }
+  if (links.some((link) => link.url === trimmed)) {
+    return { type: 'open', url: trimmed };
+  }
+  const [best] = searchSavedLinks(links, trimmed, 1);
+  return best !== undefined ? { type: 'open', url: best.link.url } : { type: 'dashboard' };
+}
+
+/**
+ * Opens a URL where the omnibox disposition asks for it.
+ *
+ * @param url - The URL to open
+ * @param disposition - Current tab, or a new tab in the foreground or background
+ */
+export async function openOmniboxUrl(
+  url: string,
+  disposition: chrome.omnibox.OnInputEnteredDisposition
+): Promise<void> {
+  if (disposition === 'currentTab') {
+    await chrome.tabs.update({ url });
+    return;
+  }
+  await chrome.tabs.create({ url, active: disposition === 'newForegroundTab' });
+}
@@ -0,0 +1,166 @@
+/**
+ * Auto-routing: rules that file new links into collections.
+ *
+ * A link headed for the Inbox is checked against the rules in order; the
+ * first enabled rule whose conditions all match decides where it goes and
+ * which tags it gets. Routing runs in {@link addLinks} in storage.ts, which
+ * every way of saving goes through (popup, context menu, shortcuts, omnibox,
+ * bulk saves), and {@link applyRoutingRulesToInbox} runs the rules over links
+ * already in the Inbox. Links saved into a specific collection are left where
+ * they were put.
+ *
+ * @module routing
+ */
+
+import type { Collection, RoutingCondition, RoutingConditionType, RoutingRule } from './types';
+import { INBOX_COLLECTION_ID } from './types';
+import { normalizeTags } from './tags';
+import { isArchived } from './archive';
+import { isSmartCollection } from './smartCollections';
+import { validateRoutingCondition } from './validation';
+
+/**
+ * Condition types with their labels and example values, in display order.
+ */
+export const ROUTING_CONDITION_TYPES: { value: RoutingConditionType; label: string; placeholder: string }[] = [
+  { value: 'domain', label: 'Domínio', placeholder: 'github.com' },
+  { value: 'urlPattern', label: 'URL', placeholder: 'https://*.google.com/document/*' },
+  { value: 'titleRegex', label: 'Título (regex)', placeholder: '^\\[PR\\]' },
+  { value: 'tabGroup', label: 'Grupo de abas', placeholder: 'Pesquisa' },
+];
+
+/**
+ * The parts of a link being saved that rules look at.
+ */
+export interface RoutingCandidate {
+  url: string;
+  title: string;
+  /** Title of the tab group the link was saved from, if any */
+  tabGroup?: string;
+}
+
+/**
+ * Where a matching rule files a link.
+ */
+export interface RoutingDecision {
+  rule: RoutingRule;
+  collectionId: string;
+  tags: string[];
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Matches a URL against a pattern where `*` stands for any text. The
+ * whole URL must match, ignoring case.
+ *
+ * @example
+ * ```typescript
+ * matchesUrlPattern('https://docs.google.com/document/d/1', 'https://*.google.com/document/*'); // true
+ * ```
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const source = pattern
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(url);
+}
+
+/**
+ * Checks one condition against a link. Invalid conditions (empty values,
+ * broken regular expressions) never match.
+ *
+ * @param candidate - The link being saved
+ * @param condition - The condition to check
+ */
+export function matchesRoutingCondition(candidate: RoutingCandidate, condition: RoutingCondition): boolean {
+  if (!validateRoutingCondition(condition).valid) {
+    return false;
+  }
+  const value = condition.value.trim();
+
+  switch (condition.type) {
+    case 'domain': {
+      const host = getHost(candidate.url);
+      const domain = value.toLowerCase().replace(/^www\./, '');
+      return host !== null && (host === domain || host.endsWith(`.${domain}`));
+    }
+    case 'urlPattern':
+      return matchesUrlPattern(candidate.url, value);
+    case 'titleRegex':
+      return new RegExp(condition.value, 'i').test(candidate.title);
+    case 'tabGroup':
+      return candidate.tabGroup?.trim().toLowerCase() === value.toLowerCase();
+  }
+}
+
+/**
+ * Checks whether a rule applies to a link: it must be enabled, have at
+ * least one condition, and every condition must match.
+ *
+ * @param candidate - The link being saved
+ * @param rule - The rule to check
+ */
+export function matchesRoutingRule(candidate: RoutingCandidate, rule: RoutingRule): boolean {
+  return (
+    rule.enabled &&
+    rule.conditions.length > 0 &&
+    rule.conditions.every((condition) => matchesRoutingCondition(candidate, condition))
+  );
+}
+
+/**
+ * Finds where the rules file a link. A rule that only sets a workspace files
+ * the link into that workspace's first collection. Rules pointing at a
+ * collection that no longer takes links (deleted, archived or smart) or at a
+ * workspace without such a collection are skipped, as are rules that would
+ * do nothing.
+ *
+ * @param candidate - The link being saved
+ * @param rules - All configured rules, in priority order
+ * @param collections - All collections
+ * @returns The first matching rule and what it does, or null to keep the link in the Inbox
+ */
+export function routeLink(
+  candidate: RoutingCandidate,
+  rules: RoutingRule[],
+  collections: Collection[]
+): RoutingDecision | null {
+  const targets = collections.filter((c) => !isArchived(c) && !isSmartCollection(c));
+  const targetIds = new Set(targets.map((c) => c.id));
+
+  for (const rule of rules) {
+    if (!matchesRoutingRule(candidate, rule)) {
+      continue;
+    }
+    let collectionId = INBOX_COLLECTION_ID;
+    if (rule.collectionId !== undefined) {
+      if (!targetIds.has(rule.collectionId)) {
+        continue;
+      }
+      collectionId = rule.collectionId;
+    } else if (rule.workspaceId !== undefined) {
+      const first = targets
+        .filter((c) => c.workspaceId === rule.workspaceId && c.id !== INBOX_COLLECTION_ID)
+        .sort((a, b) => a.order - b.order)[0];
+      if (first === undefined) {
+        continue;
+      }
+      collectionId = first.id;
+    }
+    const tags = normalizeTags(rule.tags);
+    if (collectionId === INBOX_COLLECTION_ID && tags.length === 0) {
+      continue;
+    }
+    return { rule, collectionId, tags };
+  }
+  return null;
+}
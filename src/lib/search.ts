@@ -0,0 +1,394 @@
+/**
+ * Full-text link search with query operators.
+ *
+ * Links are tokenized into an inverted index (token → link IDs) that is
+ * updated incrementally: {@link SearchIndex.update} only re-indexes links
+ * whose searchable fields changed. Matching ignores case and accents, so
+ * "acao" finds "Ação", and each word matches as a prefix ("git" finds
+ * "GitHub").
+ *
+ * Besides plain words, a query accepts `"exact phrases"` and operators:
+ *
+ * - `site:github.com` — the link's host, subdomains included
+ * - `in:"Reading List"` — the collection name
+ * - `ws:Trabalho` — the name of the collection's workspace
+ * - `tag:x` — a tag on the link
+ * - `before:2026-01-01` / `after:2026-01-01` — saved before/after that day
+ *
+ * Any word, phrase or operator can be negated with a leading `-`.
+ *
+ * @module search
+ */
+
+import type { Collection, Link, Workspace } from './types';
+
+/**
+ * Operators understood in a query.
+ */
+export const SEARCH_OPERATORS = ['site', 'in', 'ws', 'tag', 'before', 'after'] as const;
+
+export type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+/**
+ * An operator filter, e.g. `-site:github.com`.
+ */
+export interface SearchFilter {
+  operator: SearchOperator;
+  /** Normalized value; for dates, the start of the day (ms) as a string */
+  value: string;
+  negated: boolean;
+}
+
+/**
+ * A parsed query.
+ */
+export interface ParsedSearchQuery {
+  /** Normalized words, each matched as a prefix */
+  terms: string[];
+  /** Normalized quoted phrases, matched as substrings */
+  phrases: string[];
+  /** Words the link must not contain, matched as prefixes */
+  excludedTerms: string[];
+  /** Phrases the link must not contain */
+  excludedPhrases: string[];
+  filters: SearchFilter[];
+}
+
+/**
+ * Names used by the `in:` and `ws:` operators.
+ */
+export interface SearchContext {
+  collections: Collection[];
+  workspaces: Workspace[];
+}
+
+/**
+ * A matching link and its relevance.
+ */
+export interface SearchResult {
+  link: Link;
+  score: number;
+}
+
+/**
+ * Points a word earns by the field it matched, plus a bonus when it is a
+ * whole word rather than a prefix. A word counts once, for its best field.
+ */
+const FIELD_WEIGHTS = {
+  title: 4,
+  tags: 3,
+  url: 1,
+  note: 1,
+} as const;
+const EXACT_WORD_BONUS = 1;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowercases and strips accents, so "Ação" and "acao" compare equal.
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Splits text into normalized words.
+ */
+export function tokenize(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== '');
+}
+
+function isOperator(name: string): name is SearchOperator {
+  return (SEARCH_OPERATORS as readonly string[]).includes(name);
+}
+
+/**
+ * Parses a `YYYY-MM-DD` date as the start of that day in local time.
+ */
+function parseDay(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (match === null) {
+    return null;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+}
+
+function normalizeHost(host: string): string {
+  return normalizeSearchText(host).replace(/^www\./, '');
+}
+
+/**
+ * Parses a search query into words, phrases and operator filters.
+ * Unknown operators (e.g. "https:") and invalid dates are searched as
+ * plain text.
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('svelte -tag:lido in:"Reading List"');
+ * // { terms: ['svelte'], phrases: [], excludedTerms: [], excludedPhrases: [],
+ * //   filters: [{ operator: 'tag', value: 'lido', negated: true },
+ * //             { operator: 'in', value: 'reading list', negated: false }] }
+ * ```
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [], filters: [] };
+  const tokenPattern = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+  for (const match of query.matchAll(tokenPattern)) {
+    const [whole, minus, name, quoted, bare] = match;
+    const negated = minus === '-';
+    const operator = name?.toLowerCase();
+    const value = quoted ?? bare ?? '';
+
+    if (operator !== undefined && isOperator(operator) && value.trim() !== '') {
+      if (operator === 'before' || operator === 'after') {
+        const day = parseDay(value.trim());
+        if (day !== null) {
+          parsed.filters.push({ operator, value: String(day), negated });
+          continue;
+        }
+      } else {
+        const normalized = operator === 'site' ? normalizeHost(value.trim()) : normalizeSearchText(value.trim());
+        parsed.filters.push({ operator, value: normalized, negated });
+        continue;
+      }
+    }
+
+    // Not an operator: search the text as typed (minus the negation)
+    const text = negated ? whole.slice(1) : whole;
+    if (quoted !== undefined && operator === undefined) {
+      const phrase = normalizeSearchText(quoted).trim();
+      if (phrase !== '') {
+        (negated ? parsed.excludedPhrases : parsed.phrases).push(phrase);
+      }
+      continue;
+    }
+    const words = tokenize(text);
+    (negated ? parsed.excludedTerms : parsed.terms).push(...words);
+  }
+  return parsed;
+}
+
+/**
+ * Checks whether a parsed query has anything to filter by.
+ */
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.phrases.length === 0 &&
+    query.excludedTerms.length === 0 &&
+    query.excludedPhrases.length === 0 &&
+    query.filters.length === 0
+  );
+}
+
+interface IndexedLink {
+  link: Link;
+  /** Fields that were indexed, to skip re-indexing unchanged links */
+  signature: string;
+  fields: Record<SearchField, string[]>;
+  /** All searchable text, normalized, for phrase matching */
+  text: string;
+  host: string;
+}
+
+function getSignature(link: Link): string {
+  return [link.title, link.url, link.note ?? '', (link.tags ?? []).join(' ')].join('\u0000');
+}
+
+function getHost(url: string): string {
+  try {
+    return normalizeHost(new URL(url).hostname);
+  } catch {
+    return '';
+  }
+}
+
+function indexLink(link: Link): IndexedLink {
+  const tags = link.tags ?? [];
+  return {
+    link,
+    signature: getSignature(link),
+    fields: {
+      title: tokenize(link.title),
+      tags: tags.flatMap(tokenize),
+      url: tokenize(link.url),
+      note: tokenize(link.note ?? ''),
+    },
+    text: normalizeSearchText([link.title, link.url, link.note ?? '', ...tags].join(' ')),
+    host: getHost(link.url),
+  };
+}
+
+/**
+ * An incrementally maintained search index over the saved links.
+ */
+export interface SearchIndex {
+  /**
+   * Syncs the index with the current links, re-indexing only the ones
+   * added, removed or edited since the last call.
+   */
+  update: (links: Link[]) => void;
+  /**
+   * Finds the links matching a query, best match first. A query with only
+   * operators lists the matching links newest first.
+   */
+  search: (query: string | ParsedSearchQuery, context: SearchContext) => SearchResult[];
+  /** Number of indexed links */
+  readonly size: number;
+}
+
+/**
+ * Creates an empty search index. Call {@link SearchIndex.update} with the
+ * links before searching.
+ */
+export function createSearchIndex(): SearchIndex {
+  const docs = new Map<string, IndexedLink>();
+  const postings = new Map<string, Set<string>>();
+
+  function addPostings(doc: IndexedLink): void {
+    for (const tokens of Object.values(doc.fields)) {
+      for (const token of tokens) {
+        let ids = postings.get(token);
+        if (ids === undefined) {
+          ids = new Set();
+          postings.set(token, ids);
+        }
+        ids.add(doc.link.id);
+      }
+    }
+  }
+
+  function removePostings(doc: IndexedLink): void {
+    for (const tokens of Object.values(doc.fields)) {
+      for (const token of tokens) {
+        const ids = postings.get(token);
+        ids?.delete(doc.link.id);
+        if (ids?.size === 0) {
+          postings.delete(token);
+        }
+      }
+    }
+  }
+
+  function update(links: Link[]): void {
+    const seen = new Set<string>();
+    for (const link of links) {
+      seen.add(link.id);
+      const existing = docs.get(link.id);
+      if (existing !== undefined && existing.signature === getSignature(link)) {
+        // Same text; keep the latest object for collection, dates and flags
+        existing.link = link;
+        continue;
+      }
+      if (existing !== undefined) {
+        removePostings(existing);
+      }
+      const doc = indexLink(link);
+      docs.set(link.id, doc);
+      addPostings(doc);
+    }
+
+    for (const [id, doc] of docs) {
+      if (!seen.has(id)) {
+        removePostings(doc);
+        docs.delete(id);
+      }
+    }
+  }
+
+  /** IDs of links with a word starting with `prefix` */
+  function lookupPrefix(prefix: string): Set<string> {
+    const ids = new Set<string>();
+    for (const [token, tokenIds] of postings) {
+      if (token.startsWith(prefix)) {
+        tokenIds.forEach((id) => ids.add(id));
+      }
+    }
+    return ids;
+  }
+
+  function scoreTerm(doc: IndexedLink, term: string): number {
+    let best = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const token of doc.fields[field]) {
+        if (token.startsWith(term)) {
+          best = Math.max(best, FIELD_WEIGHTS[field] + (token === term ? EXACT_WORD_BONUS : 0));
+        }
+      }
+    }
+    return best;
+  }
+
+  function search(query: string | ParsedSearchQuery, context: SearchContext): SearchResult[] {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+
+    // Narrow down with the index first; every word must match
+    let candidates: Iterable<string> = docs.keys();
+    for (const term of parsed.terms) {
+      const ids = lookupPrefix(term);
+      candidates = [...candidates].filter((id) => ids.has(id));
+    }
+    const excludedIds = new Set<string>();
+    for (const word of parsed.excludedTerms) {
+      lookupPrefix(word).forEach((id) => excludedIds.add(id));
+    }
+
+    const collectionsById = new Map(context.collections.map((c) => [c.id, c]));
+    const workspaceNames = new Map(context.workspaces.map((w) => [w.id, normalizeSearchText(w.name)]));
+
+    function matchesFilter(doc: IndexedLink, filter: SearchFilter): boolean {
+      const collection = collectionsById.get(doc.link.collectionId);
+      switch (filter.operator) {
+        case 'site':
+          return doc.host === filter.value || doc.host.endsWith(`.${filter.value}`);
+        case 'in':
+          return collection !== undefined && normalizeSearchText(collection.name) === filter.value;
+        case 'ws':
+          return (
+            collection?.workspaceId !== undefined && workspaceNames.get(collection.workspaceId) === filter.value
+          );
+        case 'tag':
+          return (doc.link.tags ?? []).some((tag) => normalizeSearchText(tag) === filter.value);
+        case 'before':
+          return doc.link.createdAt < Number(filter.value);
+        case 'after':
+          return doc.link.createdAt >= Number(filter.value) + DAY_MS;
+      }
+    }
+
+    const results: SearchResult[] = [];
+    for (const id of candidates) {
+      const doc = docs.get(id);
+      if (
+        doc === undefined ||
+        excludedIds.has(id) ||
+        parsed.excludedPhrases.some((phrase) => doc.text.includes(phrase)) ||
+        !parsed.phrases.every((phrase) => doc.text.includes(phrase)) ||
+        !parsed.filters.every((filter) => matchesFilter(doc, filter) !== filter.negated)
+      ) {
+        continue;
+      }
+      const score =
+        parsed.terms.reduce((sum, term) => sum + scoreTerm(doc, term), 0) +
+        parsed.phrases.filter((phrase) => normalizeSearchText(doc.link.title).includes(phrase)).length *
+          FIELD_WEIGHTS.title;
+      results.push({ link: doc.link, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score || b.link.createdAt - a.link.createdAt);
+  }
+
+  return {
+    update,
+    search,
+    get size() {
+      return docs.size;
+    },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Smart collections: saved searches shown as Kanban columns.
+ *
+ * A smart collection is a regular {@link Collection} flagged with `isSmart`
+ * and carrying a `smartQuery` in the search syntax of search.ts. It owns no
+ * links: its column lists whatever matches the query, so it updates as links
+ * are saved, edited or moved. Since membership is computed, smart
+ * collections are never offered as a place to save or move links to.
+ *
+ * @module smartCollections
+ */
+
+import type { Collection, Link } from './types';
+import type { SearchContext, SearchIndex } from './search';
+import { getArchivedCollectionIds, isArchived } from './archive';
+import { isSnoozed } from './snooze';
+
+/**
+ * Checks whether a collection is a smart collection.
+ */
+export function isSmartCollection(collection: Collection): boolean {
+  return collection.isSmart === true;
+}
+
+/**
+ * Leaves smart collections out, keeping the ones links can be saved or
+ * moved to.
+ *
+ * @param collections - Collections to filter
+ */
+export function getLinkTargetCollections(collections: Collection[]): Collection[] {
+  return collections.filter((collection) => !isSmartCollection(collection));
+}
+
+/**
+ * Lists the links a smart collection shows, best match first. As in any
+ * column, archived and snoozed links, and links in archived collections,
+ * are left out.
+ *
+ * @param collection - The smart collection
+ * @param index - Search index over all links
+ * @param context - Collections and workspaces, for the `in:` and `ws:` operators
+ * @param now - Reference time (ms) for snoozes, defaults to the current time
+ */
+export function getSmartCollectionLinks(
+  collection: Collection,
+  index: SearchIndex,
+  context: SearchContext,
+  now: number = Date.now()
+): Link[] {
+  if (!isSmartCollection(collection) || collection.smartQuery === undefined) {
+    return [];
+  }
+
+  const archivedCollectionIds = getArchivedCollectionIds(context.collections);
+  return index
+    .search(collection.smartQuery, context)
+    .map(({ link }) => link)
+    .filter(
+      (link) => !isArchived(link) && !isSnoozed(link, now) && !archivedCollectionIds.has(link.collectionId)
+    );
+}
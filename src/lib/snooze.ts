@@ -0,0 +1,133 @@
+/**
+ * Snoozing links: wake-up time presets and the alarm that brings snoozed
+ * links back.
+ *
+ * A snoozed link keeps its place in storage but carries a `snoozedUntil`
+ * timestamp and is hidden from collections until then. The service worker
+ * keeps a single alarm set for the earliest wake-up time; when it fires,
+ * {@link wakeSnoozedLinks} in storage.ts moves the due links back to the top
+ * of their collection.
+ *
+ * @module snooze
+ */
+
+import type { Link } from './types';
+
+/**
+ * Preset snooze durations offered in the UI.
+ */
+export type SnoozePreset = 'later-today' | 'tomorrow' | 'next-week';
+
+/**
+ * Snooze presets with their labels, in display order.
+ */
+export const SNOOZE_PRESETS: { value: SnoozePreset; label: string }[] = [
+  { value: 'later-today', label: 'Mais tarde hoje' },
+  { value: 'tomorrow', label: 'Amanhã' },
+  { value: 'next-week', label: 'Próxima semana' },
+];
+
+/**
+ * Name of the alarm set for the earliest snoozed link.
+ */
+export const SNOOZE_ALARM = 'tabala-snooze-wake';
+
+/**
+ * Hours added by the "later today" preset.
+ */
+const LATER_TODAY_HOURS = 3;
+
+/**
+ * Hour of the day (local time) at which "tomorrow" and "next week" wake up.
+ */
+const MORNING_HOUR = 9;
+
+/**
+ * Computes the wake-up time for a preset.
+ *
+ * - later-today: three hours from now
+ * - tomorrow: 9:00 tomorrow
+ * - next-week: 9:00 next Monday
+ *
+ * @param preset - The chosen preset
+ * @param now - Reference time, defaults to the current time
+ * @returns Unix timestamp (ms) when the link should wake up
+ */
+export function getSnoozeTime(preset: SnoozePreset, now: Date = new Date()): number {
+  if (preset === 'later-today') {
+    return now.getTime() + LATER_TODAY_HOURS * 60 * 60 * 1000;
+  }
+
+  const date = new Date(now);
+  date.setHours(MORNING_HOUR, 0, 0, 0);
+  if (preset === 'tomorrow') {
+    date.setDate(date.getDate() + 1);
+  } else {
+    // Days until next Monday (1..7), so a Monday snoozes a full week
+    const daysUntilMonday = ((8 - date.getDay()) % 7) || 7;
+    date.setDate(date.getDate() + daysUntilMonday);
+  }
+  return date.getTime();
+}
+
+/**
+ * Checks whether a link is still snoozed.
+ *
+ * @param link - The link to check
+ * @param now - Reference time (ms), defaults to the current time
+ */
+export function isSnoozed(link: Link, now: number = Date.now()): boolean {
+  return link.snoozedUntil !== undefined && link.snoozedUntil > now;
+}
+
+/**
+ * Returns the snoozed links, the soonest to wake up first.
+ */
+export function getSnoozedLinks(links: Link[], now: number = Date.now()): Link[] {
+  return links
+    .filter((link) => isSnoozed(link, now))
+    .sort((a, b) => (a.snoozedUntil ?? 0) - (b.snoozedUntil ?? 0));
+}
+
+/**
+ * Sets the snooze alarm for the earliest pending wake-up, or clears it when
+ * nothing is snoozed. Links already due fire the alarm right away.
+ *
+ * @param links - All links
+ */
+export async function scheduleSnoozeAlarm(links: Link[]): Promise<void> {
+  const next = links.reduce<number | null>((earliest, link) => {
+    if (link.snoozedUntil === undefined) {
+      return earliest;
+    }
+    return earliest === null ? link.snoozedUntil : Math.min(earliest, link.snoozedUntil);
+  }, null);
+
+  if (next === null) {
+    await chrome.alarms.clear(SNOOZE_ALARM);
+    return;
+  }
+  // Alarms in the past fire immediately
+  await chrome.alarms.create(SNOOZE_ALARM, { when: Math.max(next, Date.now() + 1000) });
+}
+
+/**
+ * Formats a wake-up time for display, e.g. "amanhã, 09:00".
+ *
+ * @param timestamp - Wake-up time (ms)
+ * @param now - Reference time, defaults to the current time
+ */
+export function formatSnoozeTime(timestamp: number, now: Date = new Date()): string {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+  const startOfDay = (d: Date): number => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const days = Math.round((startOfDay(date) - startOfDay(now)) / (24 * 60 * 60 * 1000));
+  if (days === 0) {
+    return `hoje, ${time}`;
+  }
+  if (days === 1) {
+    return `amanhã, ${time}`;
+  }
+  return `${date.toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: 'short' })}, ${time}`;
+}
@@ -2,6 +2,10 @@
  * Storage wrapper for chrome.storage.local API.
  * Provides type-safe CRUD operations with error handling and change observation.
  *
+ * Operations are routed to the active {@link StorageWrapper} backend, which is
+ * chrome.storage.local unless another backend (e.g. IndexedDB) is installed
+ * with {@link setStorageBackend}.
+ *
  * @module storage
  * @example
  * ```typescript
@@ -23,7 +27,16 @@
  * ```
  */
 
-import type { Link, Collection, InboxCollection, Settings, Workspace, CreateWorkspaceInput } from './types';
+import type {
+  Link,
+  Collection,
+  InboxCollection,
+  Settings,
+  Workspace,
+  CreateWorkspaceInput,
+  TrashItem,
+  TrashedLink,
+} from './types';
 import {
   INBOX_COLLECTION_ID,
   INBOX_COLLECTION_NAME,
@@ -39,7 +52,15 @@ import {
   validateWorkspaceColor,
   validateWorkspaceLimit,
   validateWorkspaceDeletion,
+  validateNote,
+  validateSmartQuery,
 } from './validation';
+import { normalizeTag, normalizeTags } from './tags';
+import { normalizeNote } from './notes';
+import { getExpiredLinks } from './expiry';
+import { getArchivedCollectionIds } from './archive';
+import { findSavedLink, getCanonicalizeOptions, mergeDuplicateLinks } from './urlCanonical';
+import { routeLink, type RoutingDecision } from './routing';
 
 /**
  * Represents a storage change for a single key.
@@ -82,11 +103,14 @@ export type StorageErrorCode =
   | 'INVALID_VALUE'
   | 'CHROME_API_ERROR'
   | 'INBOX_DELETE_FORBIDDEN'
+  | 'MIGRATION_FAILED'
+  | 'BACKEND_UNAVAILABLE'
   | 'UNKNOWN_ERROR';
 
 /**
  * Interface defining all storage wrapper methods.
- * Provides type-safe operations for interacting with chrome.storage.local.
+ * Provides type-safe operations for interacting with chrome.storage.local or
+ * any other key-value backend with the same semantics.
  */
 export interface StorageWrapper {
   /**
@@ -238,13 +262,15 @@ export interface StorageWrapper {
   watch(callback: (changes: StorageChanges) => void): () => void;
 }
 
+// Validation and error helpers, shared with alternative StorageWrapper backends
+
 /**
  * Validates that a key is a non-empty string.
  *
  * @param key - The key to validate
  * @throws {StorageError} If key is not a valid non-empty string
  */
-function validateKey(key: string): void {
+export function validateKey(key: string): void {
   if (typeof key !== 'string' || key.trim() === '') {
     throw new StorageError(
       'Storage key must be a non-empty string',
@@ -259,7 +285,7 @@ function validateKey(key: string): void {
  * @param keys - The keys array to validate
  * @throws {StorageError} If keys is empty
  */
-function validateKeys(keys: string[]): void {
+export function validateKeys(keys: string[]): void {
   if (!Array.isArray(keys) || keys.length === 0) {
     throw new StorageError(
       'Keys array must not be empty',
@@ -275,7 +301,7 @@ function validateKeys(keys: string[]): void {
  * @param items - The items object to validate
  * @throws {StorageError} If items is empty
  */
-function validateItems(items: Record<string, unknown>): void {
+export function validateItems(items: Record<string, unknown>): void {
   if (
     items === null ||
     items === undefined ||
@@ -307,7 +333,7 @@ function isQuotaExceededError(error: unknown): boolean {
  * @param operation - Description of the operation that failed
  * @returns A StorageError with the appropriate code
  */
-function wrapError(error: unknown, operation: string): StorageError {
+export function wrapError(error: unknown, operation: string): StorageError {
   if (error instanceof StorageError) {
     return error;
   }
@@ -467,9 +493,69 @@ function watch(callback: (changes: StorageChanges) => void): () => void {
   };
 }
 
+/**
+ * Backend implementation for chrome.storage.local.
+ * Use {@link storage} instead, unless code must bypass the active backend
+ * (e.g. when migrating data out of chrome.storage).
+ */
+export const chromeStorage: StorageWrapper = {
+  get,
+  set,
+  remove,
+  clear,
+  getAll,
+  getBatch,
+  setBatch,
+  removeBatch,
+  watch,
+};
+
+/**
+ * Backend serving storage operations. Resolved before every call so that a
+ * backend installed during startup also serves calls made while it was loading.
+ */
+let activeBackend: Promise<StorageWrapper> = Promise.resolve(chromeStorage);
+
+/**
+ * Backend {@link activeBackend} settled to, or null while one is being installed.
+ */
+let settledBackend: StorageWrapper | null = chromeStorage;
+
+/**
+ * Callbacks registered through {@link storage.watch}, also notified of changes
+ * reported by a non-chrome backend.
+ */
+const backendWatchers = new Set<(changes: StorageChanges) => void>();
+
+/**
+ * Installs the backend that serves all subsequent {@link storage} operations.
+ * Falls back to chrome.storage.local if the backend promise rejects.
+ *
+ * @param backend - The backend, or a promise resolving to it
+ */
+export function setStorageBackend(backend: StorageWrapper | Promise<StorageWrapper>): void {
+  settledBackend = null;
+  activeBackend = Promise.resolve(backend).then(
+    (resolved) => {
+      settledBackend = resolved;
+      if (resolved !== chromeStorage) {
+        resolved.watch((changes) => {
+          backendWatchers.forEach((callback) => callback(changes));
+        });
+      }
+      return resolved;
+    },
+    (error: unknown) => {
+      console.error('Failed to initialize storage backend:', error);
+      settledBackend = chromeStorage;
+      return chromeStorage;
+    }
+  );
+}
+
 /**
  * Storage wrapper instance providing type-safe CRUD operations
- * for chrome.storage.local.
+ * for chrome.storage.local (or the backend installed with {@link setStorageBackend}).
  *
  * @example
  * ```typescript
@@ -489,15 +575,30 @@ function watch(callback: (changes: StorageChanges) => void): () => void {
  * ```
  */
 export const storage: StorageWrapper = {
-  get,
-  set,
-  remove,
-  clear,
-  getAll,
-  getBatch,
-  setBatch,
-  removeBatch,
-  watch,
+  get: async <T>(key: string) => (await activeBackend).get<T>(key),
+  set: async <T>(key: string, value: T) => (await activeBackend).set<T>(key, value),
+  remove: async (key) => (await activeBackend).remove(key),
+  clear: async () => (await activeBackend).clear(),
+  getAll: async () => (await activeBackend).getAll(),
+  getBatch: async <T>(keys: string[]) => (await activeBackend).getBatch<T>(keys),
+  setBatch: async (items) => (await activeBackend).setBatch(items),
+  removeBatch: async (keys) => (await activeBackend).removeBatch(keys),
+  watch: (callback) => {
+    // chrome.storage.onChanged covers the chrome backend; other backends
+    // report through backendWatchers once installed. chrome.storage changes
+    // seen while another backend is installing or active come from data being
+    // migrated out of it (its keys being removed), not from the user's data.
+    const unwatchChrome = watch((changes) => {
+      if (settledBackend === chromeStorage) {
+        callback(changes);
+      }
+    });
+    backendWatchers.add(callback);
+    return () => {
+      unwatchChrome();
+      backendWatchers.delete(callback);
+    };
+  },
 };
 
 export default storage;
@@ -645,7 +746,11 @@ export async function removeLink(linkId: string): Promise<RemoveLinkResult> {
     const removedLink = links[linkIndex];
     const collectionId = removedLink.collectionId;
     const updatedLinks = links.filter((link) => link.id !== linkId);
-    await saveLinks(updatedLinks);
+    const trash = await getTrash();
+    await storage.setBatch({
+      links: updatedLinks,
+      [TRASH_KEY]: withTrashItems(trash, [createTrashedLink(removedLink)]),
+    });
 
     const remainingLinksInCollection = updatedLinks.filter(
       (link) => link.collectionId === collectionId
@@ -707,7 +812,8 @@ export async function initializeInbox(): Promise<void> {
 /**
  * Removes a collection from storage.
  * The Inbox collection cannot be removed and will throw an error.
- * Links belonging to the removed collection are moved to Inbox.
+ * Links belonging to the removed collection are moved to Inbox and the
+ * collection is kept in the trash so it can be restored.
  *
  * @param collectionId - The ID of the collection to remove
  * @throws {StorageError} If attempting to delete the Inbox collection
@@ -720,8 +826,13 @@ export async function removeCollection(collectionId: string): Promise<void> {
     );
   }
 
-  const [collections, links] = await Promise.all([getCollections(), getLinks()]);
+  const [collections, links, trash] = await Promise.all([
+    getCollections(),
+    getLinks(),
+    getTrash(),
+  ]);
 
+  const removedCollection = collections.find((c) => c.id === collectionId);
   const updatedCollections = collections.filter((c) => c.id !== collectionId);
   const updatedLinks = links.map((link) =>
     link.collectionId === collectionId
@@ -729,7 +840,18 @@ export async function removeCollection(collectionId: string): Promise<void> {
       : link
   );
 
-  await Promise.all([saveCollections(updatedCollections), saveLinks(updatedLinks)]);
+  const items: Record<string, unknown> = {
+    collections: updatedCollections,
+    links: updatedLinks,
+  };
+  if (removedCollection) {
+    const linkIds = links.filter((l) => l.collectionId === collectionId).map((l) => l.id);
+    items[TRASH_KEY] = withTrashItems(trash, [
+      { id: collectionId, type: 'collection', collection: removedCollection, linkIds, deletedAt: Date.now() },
+    ]);
+  }
+
+  await storage.setBatch(items);
 }
 
 /**
@@ -741,29 +863,161 @@ export interface AddLinkInput {
   title: string;
   favicon?: string;
   collectionId?: string;
+  note?: string;
+  /** Title of the tab group the link was saved from, for routing rules */
+  tabGroup?: string;
+}
+
+/**
+ * Returns a function that runs the routing rules on links headed to the
+ * Inbox. Settings and collections are read once for the whole batch, and not
+ * at all when every link is saved into a specific collection.
+ *
+ * @param inputs - The links about to be saved
+ */
+async function getLinkRouter(inputs: AddLinkInput[]): Promise<(input: AddLinkInput) => RoutingDecision | null> {
+  const isHeadedToInbox = (input: AddLinkInput): boolean =>
+    (input.collectionId ?? INBOX_COLLECTION_ID) === INBOX_COLLECTION_ID;
+  if (!inputs.some(isHeadedToInbox)) {
+    return () => null;
+  }
+
+  const [settings, collections] = await Promise.all([getSettings(), getCollections()]);
+  const rules = settings.routingRules ?? DEFAULT_SETTINGS.routingRules;
+  return (input) => (isHeadedToInbox(input) ? routeLink(input, rules, collections) : null);
 }
 
 /**
  * Adds a new link to storage.
- * If no collectionId is provided, the link is added to the Inbox collection.
+ * If no collectionId is provided, the link is added to the Inbox collection,
+ * unless a routing rule (see routing.ts) files it elsewhere or tags it.
  *
  * @param input - The link data to save
  * @returns The created link with generated id and timestamp
  */
 export async function addLink(input: AddLinkInput): Promise<Link> {
-  const newLink: Link = {
-    id: crypto.randomUUID(),
-    url: input.url,
-    title: input.title,
-    favicon: input.favicon,
-    collectionId: input.collectionId ?? INBOX_COLLECTION_ID,
-    createdAt: Date.now(),
-  };
+  const [newLink] = await addLinks([input]);
+  return newLink;
+}
 
-  const links = await getLinks();
-  await saveLinks([newLink, ...links]);
+/**
+ * Result of an addOrBumpLink operation.
+ */
+export interface AddOrBumpLinkResult {
+  link: Link;
+  /** True if the URL was already saved and the existing link was bumped */
+  bumped: boolean;
+}
 
-  return newLink;
+/**
+ * Saves a link unless its URL is already saved in some collection, comparing
+ * canonical URLs (see urlCanonical.ts). In that
+ * case the existing link is bumped instead: it moves back to the top of its
+ * collection and leaves the archive or snooze, so parking the same page twice
+ * never creates a duplicate card.
+ *
+ * @param input - The link data to save
+ * @returns The new or bumped link
+ */
+export async function addOrBumpLink(input: AddLinkInput): Promise<AddOrBumpLinkResult> {
+  const [links, settings] = await Promise.all([getLinks(), getSettings()]);
+  const existing = findSavedLink(input.url, links, getCanonicalizeOptions(settings));
+  if (existing === undefined) {
+    return { link: await addLink(input), bumped: false };
+  }
+
+  const { archivedAt: _archivedAt, snoozedUntil: _snoozedUntil, ...rest } = existing;
+  const bumped: Link = { ...rest, createdAt: Date.now() };
+  if (bumped.favicon === undefined && input.favicon !== undefined) {
+    bumped.favicon = input.favicon;
+  }
+  const note = normalizeNote(input.note);
+  if (bumped.note === undefined && note !== undefined) {
+    bumped.note = note;
+  }
+
+  await saveLinks([bumped, ...links.filter((link) => link.id !== existing.id)]);
+  return { link: bumped, bumped: true };
+}
+
+/**
+ * Adds several links in one write, keeping their order at the top of the
+ * list. Every new link is saved through here, so links headed to the Inbox
+ * always go through the routing rules.
+ *
+ * @param inputs - The links to save
+ * @returns The created links
+ */
+export async function addLinks(inputs: AddLinkInput[]): Promise<Link[]> {
+  const now = Date.now();
+  const route = await getLinkRouter(inputs);
+  const newLinks = inputs.map((input): Link => {
+    const decision = route(input);
+    const link: Link = {
+      id: crypto.randomUUID(),
+      url: input.url,
+      title: input.title,
+      favicon: input.favicon,
+      collectionId: decision?.collectionId ?? input.collectionId ?? INBOX_COLLECTION_ID,
+      createdAt: now,
+    };
+    const note = normalizeNote(input.note);
+    if (note !== undefined) {
+      link.note = note;
+    }
+    if (decision !== null && decision.tags.length > 0) {
+      link.tags = decision.tags;
+    }
+    return link;
+  });
+
+  if (newLinks.length > 0) {
+    const links = await getLinks();
+    await saveLinks([...newLinks, ...links]);
+  }
+  return newLinks;
+}
+
+/**
+ * Result of a mergeDuplicates operation.
+ */
+export interface MergeDuplicatesResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Merges duplicate links into one: the kept link absorbs their tags, notes
+ * and favicon, and the duplicates go to the trash.
+ *
+ * @param keepId - The ID of the link to keep
+ * @param duplicateIds - The IDs of the links merged into it
+ * @returns Result object indicating success/failure
+ */
+export async function mergeDuplicates(keepId: string, duplicateIds: string[]): Promise<MergeDuplicatesResult> {
+  try {
+    const links = await getLinks();
+    const keep = links.find((link) => link.id === keepId);
+    if (keep === undefined) {
+      return { success: false, error: 'Link não encontrado' };
+    }
+
+    const ids = new Set(duplicateIds.filter((id) => id !== keepId));
+    const duplicates = links.filter((link) => ids.has(link.id));
+    const merged = mergeDuplicateLinks(keep, duplicates);
+    const trash = await getTrash();
+    await storage.setBatch({
+      links: links.filter((link) => !ids.has(link.id)).map((link) => (link.id === keepId ? merged : link)),
+      [TRASH_KEY]: withTrashItems(trash, duplicates.map(createTrashedLink)),
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to merge duplicate links:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao mesclar links duplicados',
+    };
+  }
 }
 
 /**
@@ -811,11 +1065,14 @@ export interface CreateCollectionInput {
   name: string;
   color?: string;
   workspaceId?: string;
+  /** Creates a smart collection listing the links that match this search */
+  smartQuery?: string;
 }
 
 /**
  * Creates a new collection and persists it to storage.
- * Validates the name to ensure it's not empty or a duplicate.
+ * Validates the name to ensure it's not empty or a duplicate, and the
+ * query of a smart collection to ensure it filters something.
  *
  * @param input - The collection data
  * @returns The created collection with generated id and timestamp
@@ -833,6 +1090,16 @@ export async function createCollection(input: CreateCollectionInput): Promise<Co
     );
   }
 
+  if (input.smartQuery !== undefined) {
+    const queryValidation = validateSmartQuery(input.smartQuery);
+    if (!queryValidation.valid) {
+      throw new StorageError(
+        queryValidation.error ?? 'Invalid smart collection query',
+        'INVALID_VALUE'
+      );
+    }
+  }
+
   const orders = existingCollections.map((c) => c.order);
   const maxOrder = orders.length > 0 ? Math.max(...orders) : 0;
 
@@ -844,6 +1111,10 @@ export async function createCollection(input: CreateCollectionInput): Promise<Co
     color: input.color,
     workspaceId: input.workspaceId ?? DEFAULT_WORKSPACE_ID,
   };
+  if (input.smartQuery !== undefined) {
+    newCollection.isSmart = true;
+    newCollection.smartQuery = input.smartQuery.trim();
+  }
 
   await saveCollections([...existingCollections, newCollection]);
 
@@ -909,6 +1180,7 @@ export interface DeleteCollectionResult {
 
 /**
  * Deletes a collection after moving its links to Inbox.
+ * The collection is kept in the trash so it can be restored.
  * Implements atomic operation with rollback on failure.
  *
  * @param collectionId - The ID of the collection to delete
@@ -941,9 +1213,20 @@ export async function deleteCollection(
       };
     }
 
-    const collections = await getCollections();
+    const [collections, trash] = await Promise.all([getCollections(), getTrash()]);
+    const deletedCollection = collections.find((c) => c.id === collectionId);
     const updatedCollections = collections.filter((c) => c.id !== collectionId);
-    await saveCollections(updatedCollections);
+    const linkIds = originalLinks
+      .filter((l) => l.collectionId === collectionId)
+      .map((l) => l.id);
+
+    const items: Record<string, unknown> = { collections: updatedCollections };
+    if (deletedCollection) {
+      items[TRASH_KEY] = withTrashItems(trash, [
+        { id: collectionId, type: 'collection', collection: deletedCollection, linkIds, deletedAt: Date.now() },
+      ]);
+    }
+    await storage.setBatch(items);
 
     return {
       success: true,
@@ -967,150 +1250,986 @@ export async function deleteCollection(
   }
 }
 
-// Settings functions
+// Trash functions
 
 /**
- * Retrieves user settings from storage.
- * Returns default settings if none exist.
+ * Storage key holding the trash (array of {@link TrashItem}).
+ */
+export const TRASH_KEY = 'trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retrieves all items in the trash, most recently deleted first.
  *
- * @returns The user's settings
+ * @returns Array of trash items, or empty array if the trash is empty
  */
-export async function getSettings(): Promise<Settings> {
-  const settings = await storage.get<Settings>('settings');
-  return settings ?? { ...DEFAULT_SETTINGS };
+export async function getTrash(): Promise<TrashItem[]> {
+  const trash = await storage.get<TrashItem[]>(TRASH_KEY);
+  return trash ?? [];
 }
 
 /**
- * Saves user settings to storage.
+ * Saves the trash array to storage.
  *
- * @param settings - The settings to save
+ * @param items - Array of trash items to save
  */
-export async function saveSettings(settings: Settings): Promise<void> {
-  await storage.set('settings', settings);
+export async function saveTrash(items: TrashItem[]): Promise<void> {
+  await storage.set(TRASH_KEY, items);
 }
 
 /**
- * Updates specific settings fields without overwriting others.
+ * Creates a trash entry for a removed link without persisting it.
  *
- * @param updates - Partial settings to update
- * @returns The updated settings
+ * @param link - The removed link, with its original collectionId
+ * @returns A new TrashedLink stamped with the current time
  */
-export async function updateSettings(updates: Partial<Settings>): Promise<Settings> {
-  const current = await getSettings();
-  const updated = { ...current, ...updates };
-  await saveSettings(updated);
-  return updated;
+export function createTrashedLink(link: Link): TrashedLink {
+  return { id: link.id, type: 'link', link, deletedAt: Date.now() };
 }
 
-// Link management functions for Kanban
+/**
+ * Prepends items to the trash, replacing older entries with the same id.
+ */
+function withTrashItems(trash: TrashItem[], items: TrashItem[]): TrashItem[] {
+  const ids = new Set(items.map((item) => item.id));
+  return [...items, ...trash.filter((item) => !ids.has(item.id))];
+}
 
 /**
- * Result of moving a link operation.
+ * Moves already-removed links into the trash.
+ * Used by callers that persist the link removal themselves.
+ *
+ * @param links - The removed links
  */
-export interface MoveLinkResult {
+export async function trashLinks(links: Link[]): Promise<void> {
+  if (links.length === 0) {
+    return;
+  }
+  const trash = await getTrash();
+  await saveTrash(withTrashItems(trash, links.map(createTrashedLink)));
+}
+
+/**
+ * Result of a restoreFromTrash operation.
+ */
+export interface RestoreFromTrashResult {
   success: boolean;
   error?: string;
+  /** ID of the collection the link was restored to, or of the restored collection */
+  collectionId?: string;
 }
 
 /**
- * Moves a link to a different collection.
+ * Returns a collection name that does not clash with existing collections,
+ * appending a numeric suffix when needed.
+ */
+function getAvailableCollectionName(name: string, collections: Collection[]): string {
+  const taken = new Set(collections.map((c) => c.name.toLowerCase()));
+  let candidate = name;
+  let suffix = 2;
+  while (taken.has(candidate.toLowerCase())) {
+    candidate = `${name} (${suffix++})`;
+  }
+  return candidate;
+}
+
+/**
+ * Restores an item from the trash.
  *
- * @param linkId - The ID of the link to move
- * @param toCollectionId - The ID of the target collection
- * @returns Result indicating success or failure
+ * A link goes back to its original collection, or to Inbox if that collection
+ * no longer exists, at the position given by its creation date. A collection
+ * goes back to its original workspace (or the default workspace if it was
+ * deleted) and reclaims the links that were moved to Inbox when it was
+ * deleted and are still there. A numeric suffix is added to the collection
+ * name if another collection now uses it.
+ *
+ * @param itemId - The ID of the trash item to restore
+ * @returns Result object indicating success/failure and the target collection
  */
-export async function moveLink(
-  linkId: string,
-  toCollectionId: string
-): Promise<MoveLinkResult> {
+export async function restoreFromTrash(itemId: string): Promise<RestoreFromTrashResult> {
   try {
-    const links = await getLinks();
-    const linkIndex = links.findIndex((link) => link.id === linkId);
+    const [trash, links, collections] = await Promise.all([
+      getTrash(),
+      getLinks(),
+      getCollections(),
+    ]);
+    const item = trash.find((t) => t.id === itemId);
 
-    if (linkIndex === -1) {
-      return { success: false, error: 'Link não encontrado' };
+    if (!item) {
+      return { success: false, error: 'Item não encontrado na lixeira' };
     }
 
-    const collections = await getCollections();
-    const targetExists = collections.some((c) => c.id === toCollectionId);
+    const remainingTrash = trash.filter((t) => t.id !== itemId);
+
+    if (item.type === 'link') {
+      const collectionId = collections.some((c) => c.id === item.link.collectionId)
+        ? item.link.collectionId
+        : INBOX_COLLECTION_ID;
+      const restored: Link = { ...item.link, collectionId };
+
+      let updatedLinks = links;
+      if (!links.some((l) => l.id === restored.id)) {
+        const insertAt = links.findIndex((l) => l.createdAt < restored.createdAt);
+        updatedLinks =
+          insertAt === -1
+            ? [...links, restored]
+            : [...links.slice(0, insertAt), restored, ...links.slice(insertAt)];
+      }
 
-    if (!targetExists) {
-      return { success: false, error: 'Coleção de destino não encontrada' };
+      await storage.setBatch({ links: updatedLinks, [TRASH_KEY]: remainingTrash });
+      return { success: true, collectionId };
     }
 
+    if (collections.some((c) => c.id === item.collection.id)) {
+      await saveTrash(remainingTrash);
+      return { success: true, collectionId: item.collection.id };
+    }
+
+    const workspaces = await getWorkspaces();
+    const { workspaceId } = item.collection;
+    const restored: Collection = {
+      ...item.collection,
+      name: getAvailableCollectionName(item.collection.name, collections),
+      workspaceId:
+        workspaceId === undefined || workspaces.some((w) => w.id === workspaceId)
+          ? workspaceId
+          : DEFAULT_WORKSPACE_ID,
+    };
+
+    const linkIds = new Set(item.linkIds);
     const updatedLinks = links.map((link) =>
-      link.id === linkId ? { ...link, collectionId: toCollectionId } : link
+      linkIds.has(link.id) && link.collectionId === INBOX_COLLECTION_ID
+        ? { ...link, collectionId: restored.id }
+        : link
     );
 
-    await saveLinks(updatedLinks);
-
-    return { success: true };
+    await storage.setBatch({
+      collections: [...collections, restored],
+      links: updatedLinks,
+      [TRASH_KEY]: remainingTrash,
+    });
+    return { success: true, collectionId: restored.id };
   } catch (error) {
-    console.error('Failed to move link:', error);
+    console.error('Failed to restore from trash:', error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Erro ao mover link',
+      error: error instanceof Error ? error.message : 'Erro ao restaurar item',
     };
   }
 }
 
 /**
- * Result of updating collection order.
+ * Permanently deletes a single item from the trash.
+ *
+ * @param itemId - The ID of the trash item to delete
  */
-export interface UpdateCollectionOrderResult {
+export async function deleteFromTrash(itemId: string): Promise<void> {
+  const trash = await getTrash();
+  await saveTrash(trash.filter((t) => t.id !== itemId));
+}
+
+/**
+ * Permanently deletes every item in the trash.
+ */
+export async function emptyTrash(): Promise<void> {
+  await saveTrash([]);
+}
+
+/**
+ * Permanently deletes trash items older than the configured retention period
+ * (`Settings.trashRetentionDays`).
+ *
+ * @param now - Reference timestamp, defaults to the current time
+ * @returns Number of items purged
+ */
+export async function purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+  const [trash, settings] = await Promise.all([getTrash(), getSettings()]);
+  const retentionDays = settings.trashRetentionDays ?? DEFAULT_SETTINGS.trashRetentionDays;
+  const cutoff = now - retentionDays * DAY_MS;
+  const kept = trash.filter((item) => item.deletedAt >= cutoff);
+
+  if (kept.length !== trash.length) {
+    await saveTrash(kept);
+  }
+  return trash.length - kept.length;
+}
+
+// Tag functions
+
+/**
+ * Result of a tag operation.
+ */
+export interface TagOperationResult {
   success: boolean;
   error?: string;
+  /** Number of links whose tags changed */
+  updatedCount?: number;
 }
 
 /**
- * Updates the order of collections.
- * The order is determined by the position in the array.
- *
- * @param orderedCollections - Collections in desired order
- * @returns Result indicating success or failure
+ * Applies a tag transform to every link in a single write.
+ * Links whose tags end up unchanged are left untouched.
  */
-export async function updateCollectionOrder(
-  orderedCollections: Collection[]
-): Promise<UpdateCollectionOrderResult> {
+async function updateTagsOnLinks(
+  transform: (tags: string[]) => string[],
+  operation: string
+): Promise<TagOperationResult> {
   try {
-    const updatedCollections = orderedCollections.map((collection, index) => ({
-      ...collection,
-      order: index,
-    }));
+    const links = await getLinks();
+    let updatedCount = 0;
 
-    await saveCollections(updatedCollections);
+    const updatedLinks = links.map((link) => {
+      const tags = link.tags ?? [];
+      const newTags = normalizeTags(transform(tags));
+      if (newTags.length === tags.length && newTags.every((tag, i) => tag === tags[i])) {
+        return link;
+      }
+      updatedCount++;
+      return { ...link, tags: newTags };
+    });
 
-    return { success: true };
+    if (updatedCount > 0) {
+      await saveLinks(updatedLinks);
+    }
+    return { success: true, updatedCount };
   } catch (error) {
-    console.error('Failed to update collection order:', error);
+    console.error(`Failed to ${operation}:`, error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Erro ao reordenar coleções',
+      error: error instanceof Error ? error.message : 'Erro ao atualizar tags',
     };
   }
 }
 
-// Workspace storage functions
-
 /**
- * Retrieves all workspaces from storage, sorted by order.
+ * Replaces the tags of a single link. Tags are normalized and deduplicated.
  *
- * @returns Array of Workspace objects, or empty array if none exist
+ * @param linkId - The ID of the link to update
+ * @param tags - The new tags
+ * @returns Result object indicating success/failure
  */
-export async function getWorkspaces(): Promise<Workspace[]> {
-  const workspaces = await storage.get<Workspace[]>('workspaces');
-  if (!workspaces || workspaces.length === 0) {
-    return [];
-  }
+export async function setLinkTags(linkId: string, tags: string[]): Promise<TagOperationResult> {
+  try {
+    const links = await getLinks();
+    if (!links.some((l) => l.id === linkId)) {
+      return { success: false, error: 'Link não encontrado' };
+    }
 
-  return workspaces.sort((a, b) => a.order - b.order);
+    const normalized = normalizeTags(tags);
+    await saveLinks(links.map((l) => (l.id === linkId ? { ...l, tags: normalized } : l)));
+    return { success: true, updatedCount: 1 };
+  } catch (error) {
+    console.error('Failed to set link tags:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao atualizar tags',
+    };
+  }
 }
 
 /**
- * Saves workspaces array to storage.
+ * Renames a tag on every link. Renaming to a tag that already exists merges
+ * the two.
  *
- * @param workspaces - Array of Workspace objects to save
- */
+ * @param from - The tag to rename
+ * @param to - The new name
+ * @returns Result with the number of links updated
+ *
+ * @example
+ * ```typescript
+ * await renameTag('js', 'javascript');
+ * ```
+ */
+export async function renameTag(from: string, to: string): Promise<TagOperationResult> {
+  const source = normalizeTag(from);
+  const target = normalizeTag(to);
+  if (target === '') {
+    return { success: false, error: 'O nome da tag não pode estar vazio' };
+  }
+
+  return updateTagsOnLinks((tags) => tags.map((tag) => (tag === source ? target : tag)), 'rename tag');
+}
+
+/**
+ * Merges several tags into one on every link.
+ *
+ * @param sources - Tags to merge; they are replaced by `target`
+ * @param target - The tag to keep (created if it does not exist)
+ * @returns Result with the number of links updated
+ */
+export async function mergeTags(sources: string[], target: string): Promise<TagOperationResult> {
+  const sourceTags = new Set(normalizeTags(sources));
+  const targetTag = normalizeTag(target);
+  if (targetTag === '') {
+    return { success: false, error: 'O nome da tag não pode estar vazio' };
+  }
+
+  return updateTagsOnLinks(
+    (tags) => tags.map((tag) => (sourceTags.has(tag) ? targetTag : tag)),
+    'merge tags'
+  );
+}
+
+/**
+ * Removes a tag from every link.
+ *
+ * @param tag - The tag to delete
+ * @returns Result with the number of links updated
+ */
+export async function deleteTag(tag: string): Promise<TagOperationResult> {
+  const normalized = normalizeTag(tag);
+  return updateTagsOnLinks((tags) => tags.filter((t) => t !== normalized), 'delete tag');
+}
+
+// Note functions
+
+/**
+ * Result of updating a link note.
+ */
+export interface SetLinkNoteResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Sets or clears the note of a link. The note is trimmed; an empty note
+ * removes the field.
+ *
+ * @param linkId - The ID of the link to update
+ * @param note - The new note
+ * @returns Result object indicating success/failure
+ */
+export async function setLinkNote(linkId: string, note: string): Promise<SetLinkNoteResult> {
+  const validation = validateNote(note);
+  if (!validation.valid) {
+    return { success: false, error: validation.error };
+  }
+
+  try {
+    const links = await getLinks();
+    if (!links.some((l) => l.id === linkId)) {
+      return { success: false, error: 'Link não encontrado' };
+    }
+
+    const normalized = normalizeNote(note);
+    await saveLinks(
+      links.map((l) => {
+        if (l.id !== linkId) {
+          return l;
+        }
+        const { note: _previous, ...rest } = l;
+        return normalized !== undefined ? { ...rest, note: normalized } : rest;
+      })
+    );
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to set link note:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao salvar nota',
+    };
+  }
+}
+
+// Snooze functions
+
+/**
+ * Result of snoozing or waking a link.
+ */
+export interface SnoozeResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Snoozes a link until the given time, hiding it from its collection.
+ *
+ * @param linkId - The ID of the link to snooze
+ * @param until - Unix timestamp (ms) when the link should come back
+ * @returns Result object indicating success/failure
+ */
+export async function snoozeLink(linkId: string, until: number): Promise<SnoozeResult> {
+  if (!Number.isFinite(until) || until <= Date.now()) {
+    return { success: false, error: 'Escolha uma data no futuro' };
+  }
+
+  try {
+    const links = await getLinks();
+    if (!links.some((l) => l.id === linkId)) {
+      return { success: false, error: 'Link não encontrado' };
+    }
+
+    await saveLinks(links.map((l) => (l.id === linkId ? { ...l, snoozedUntil: until } : l)));
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to snooze link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao adiar link',
+    };
+  }
+}
+
+/**
+ * Brings links back from snooze: clears `snoozedUntil` and moves them to the
+ * top of their collection, or to Inbox if their collection no longer exists.
+ * `bumpedAt` keeps them on top wherever links are sorted by recency, while
+ * `createdAt` still dates the save for search, expiry and stale badges.
+ */
+async function wakeLinks(shouldWake: (link: Link) => boolean): Promise<Link[]> {
+  const [links, collections] = await Promise.all([getLinks(), getCollections()]);
+  const collectionIds = new Set(collections.map((c) => c.id));
+  const now = Date.now();
+  const woken: Link[] = [];
+  const rest: Link[] = [];
+
+  for (const link of links) {
+    if (link.snoozedUntil === undefined || !shouldWake(link)) {
+      rest.push(link);
+      continue;
+    }
+    const { snoozedUntil: _snoozedUntil, ...awake } = link;
+    woken.push({
+      ...awake,
+      collectionId:
+        link.collectionId === INBOX_COLLECTION_ID || collectionIds.has(link.collectionId)
+          ? link.collectionId
+          : INBOX_COLLECTION_ID,
+      bumpedAt: now,
+    });
+  }
+
+  if (woken.length > 0) {
+    await saveLinks([...woken, ...rest]);
+  }
+  return woken;
+}
+
+/**
+ * Wakes a single snoozed link right away.
+ *
+ * @param linkId - The ID of the link to wake
+ * @returns Result object indicating success/failure
+ */
+export async function unsnoozeLink(linkId: string): Promise<SnoozeResult> {
+  try {
+    const woken = await wakeLinks((link) => link.id === linkId);
+    if (woken.length === 0) {
+      return { success: false, error: 'Link não está adiado' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to wake link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao reativar link',
+    };
+  }
+}
+
+/**
+ * Wakes every link whose snooze time has passed. Called by the service worker
+ * when the snooze alarm fires.
+ *
+ * @param now - Reference time (ms), defaults to the current time
+ * @returns The links that woke up
+ */
+export async function wakeSnoozedLinks(now: number = Date.now()): Promise<Link[]> {
+  return wakeLinks((link) => (link.snoozedUntil ?? Infinity) <= now);
+}
+
+// Expiry functions
+
+/**
+ * Number of links affected by each expiry action.
+ */
+export interface ApplyExpiryRulesResult {
+  archived: number;
+  moved: number;
+  trashed: number;
+}
+
+/**
+ * Applies the expiry rules from settings to every expired link: archives it,
+ * moves it to the rule's target collection or sends it to the trash.
+ * Called periodically by the service worker.
+ *
+ * Move rules whose target collection no longer exists are skipped, and
+ * links already in the target are left where they are.
+ *
+ * @param now - Reference time (ms), defaults to the current time
+ * @returns How many links were archived, moved and trashed
+ */
+export async function applyExpiryRules(now: number = Date.now()): Promise<ApplyExpiryRulesResult> {
+  const result: ApplyExpiryRulesResult = { archived: 0, moved: 0, trashed: 0 };
+  const [links, collections, settings] = await Promise.all([getLinks(), getCollections(), getSettings()]);
+  // Links in an archived collection are left alone until it's restored
+  const archivedCollectionIds = getArchivedCollectionIds(collections);
+  const expired = getExpiredLinks(
+    links.filter((l) => !archivedCollectionIds.has(l.collectionId)),
+    settings.expiryRules ?? DEFAULT_SETTINGS.expiryRules,
+    now
+  );
+  if (expired.length === 0) {
+    return result;
+  }
+
+  const collectionIds = new Set(collections.map((c) => c.id));
+  const updates = new Map<string, Link | null>();
+  for (const { link, rule } of expired) {
+    if (rule.action === 'archive') {
+      updates.set(link.id, { ...link, archivedAt: now });
+      result.archived++;
+    } else if (rule.action === 'move') {
+      if (
+        rule.targetCollectionId === undefined ||
+        rule.targetCollectionId === link.collectionId ||
+        !collectionIds.has(rule.targetCollectionId)
+      ) {
+        continue;
+      }
+      updates.set(link.id, { ...link, collectionId: rule.targetCollectionId });
+      result.moved++;
+    } else {
+      updates.set(link.id, null);
+      result.trashed++;
+    }
+  }
+
+  if (updates.size === 0) {
+    return result;
+  }
+
+  const trashed = links.filter((l) => updates.get(l.id) === null);
+  const kept = links
+    .map((l) => (updates.has(l.id) ? updates.get(l.id) : l))
+    .filter((l): l is Link => l !== null && l !== undefined);
+  const items: Record<string, unknown> = { links: kept };
+  if (trashed.length > 0) {
+    items[TRASH_KEY] = withTrashItems(await getTrash(), trashed.map(createTrashedLink));
+  }
+  await storage.setBatch(items);
+  return result;
+}
+
+// Routing functions
+
+/**
+ * Result of applying the routing rules to the Inbox.
+ */
+export interface ApplyRoutingRulesResult {
+  success: boolean;
+  /** Number of Inbox links moved or tagged by a rule */
+  routedCount: number;
+  error?: string;
+}
+
+/**
+ * Runs the routing rules over the links already in the Inbox, as if each
+ * were saved again: matching links move to the rule's collection and get
+ * its tags. Archived links are left alone, and tab group conditions never
+ * match since the source tab is no longer known.
+ *
+ * @returns Result with success flag and number of links routed
+ */
+export async function applyRoutingRulesToInbox(): Promise<ApplyRoutingRulesResult> {
+  try {
+    const [links, collections, settings] = await Promise.all([getLinks(), getCollections(), getSettings()]);
+    const rules = settings.routingRules ?? DEFAULT_SETTINGS.routingRules;
+
+    let routedCount = 0;
+    const updatedLinks = links.map((link) => {
+      if (link.collectionId !== INBOX_COLLECTION_ID || link.archivedAt !== undefined) {
+        return link;
+      }
+      const route = routeLink(link, rules, collections);
+      if (route === null) {
+        return link;
+      }
+      const tags = normalizeTags([...(link.tags ?? []), ...route.tags]);
+      if (route.collectionId === link.collectionId && tags.length === (link.tags ?? []).length) {
+        return link;
+      }
+      routedCount++;
+      return { ...link, collectionId: route.collectionId, ...(tags.length > 0 ? { tags } : {}) };
+    });
+
+    if (routedCount > 0) {
+      await saveLinks(updatedLinks);
+    }
+    return { success: true, routedCount };
+  } catch (error) {
+    console.error('Failed to apply routing rules:', error);
+    return {
+      success: false,
+      routedCount: 0,
+      error: error instanceof Error ? error.message : 'Erro ao aplicar regras',
+    };
+  }
+}
+
+// Archive functions
+
+/**
+ * Result of archiving or restoring a link or collection.
+ */
+export interface ArchiveResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Archives a link: it leaves its collection but stays searchable in the
+ * Archive view.
+ *
+ * @param linkId - The ID of the link to archive
+ * @returns Result object indicating success/failure
+ */
+export async function archiveLink(linkId: string): Promise<ArchiveResult> {
+  return archiveLinks([linkId]);
+}
+
+/**
+ * Archives several links at once. IDs that don't exist are ignored.
+ *
+ * @param linkIds - The IDs of the links to archive
+ * @returns Result object indicating success/failure
+ */
+export async function archiveLinks(linkIds: string[]): Promise<ArchiveResult> {
+  try {
+    const ids = new Set(linkIds);
+    const links = await getLinks();
+    if (!links.some((l) => ids.has(l.id))) {
+      return { success: false, error: 'Link não encontrado' };
+    }
+
+    const now = Date.now();
+    await saveLinks(links.map((l) => (ids.has(l.id) ? { ...l, archivedAt: now } : l)));
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to archive links:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao arquivar link',
+    };
+  }
+}
+
+/**
+ * Restores an archived link to its collection, or to Inbox if the collection
+ * no longer exists or is itself archived.
+ *
+ * @param linkId - The ID of the link to restore
+ * @returns Result object indicating success/failure
+ */
+export async function unarchiveLink(linkId: string): Promise<ArchiveResult> {
+  try {
+    const [links, collections] = await Promise.all([getLinks(), getCollections()]);
+    const link = links.find((l) => l.id === linkId);
+    if (link?.archivedAt === undefined) {
+      return { success: false, error: 'Link não está arquivado' };
+    }
+
+    const collection = collections.find((c) => c.id === link.collectionId);
+    const { archivedAt: _archivedAt, ...restored } = link;
+    if (link.collectionId !== INBOX_COLLECTION_ID && (collection === undefined || collection.archivedAt !== undefined)) {
+      restored.collectionId = INBOX_COLLECTION_ID;
+    }
+    await saveLinks(links.map((l) => (l.id === linkId ? restored : l)));
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to restore archived link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao restaurar link',
+    };
+  }
+}
+
+/**
+ * Archives or restores a collection. Its links keep their own state and
+ * reappear with the collection.
+ */
+async function setCollectionArchived(collectionId: string, archived: boolean): Promise<ArchiveResult> {
+  if (collectionId === INBOX_COLLECTION_ID) {
+    return { success: false, error: 'A Inbox não pode ser arquivada' };
+  }
+
+  try {
+    const collections = await getCollections();
+    const collection = collections.find((c) => c.id === collectionId);
+    if (collection === undefined) {
+      return { success: false, error: 'Coleção não encontrada' };
+    }
+    if ((collection.archivedAt !== undefined) === archived) {
+      return { success: false, error: archived ? 'Coleção já está arquivada' : 'Coleção não está arquivada' };
+    }
+
+    const { archivedAt: _archivedAt, ...rest } = collection;
+    const updated: Collection = archived ? { ...rest, archivedAt: Date.now() } : rest;
+    await saveCollections(collections.map((c) => (c.id === collectionId ? updated : c)));
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update collection archive state:', error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : archived ? 'Erro ao arquivar coleção' : 'Erro ao restaurar coleção',
+    };
+  }
+}
+
+/**
+ * Archives a collection, hiding it and its links from the Kanban.
+ * The Inbox can't be archived.
+ *
+ * @param collectionId - The ID of the collection to archive
+ * @returns Result object indicating success/failure
+ */
+export function archiveCollection(collectionId: string): Promise<ArchiveResult> {
+  return setCollectionArchived(collectionId, true);
+}
+
+/**
+ * Restores an archived collection with its links.
+ *
+ * @param collectionId - The ID of the collection to restore
+ * @returns Result object indicating success/failure
+ */
+export function unarchiveCollection(collectionId: string): Promise<ArchiveResult> {
+  return setCollectionArchived(collectionId, false);
+}
+
+// Storage usage
+
+/**
+ * Storage quota of chrome.storage.local (chrome.storage.local.QUOTA_BYTES).
+ */
+export const STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Share of the quota above which the UI warns the user.
+ */
+export const STORAGE_WARNING_RATIO = 0.8;
+
+/**
+ * Estimated storage usage.
+ */
+export interface StorageUsage {
+  /** Bytes used by TabAla data */
+  bytesInUse: number;
+  /** Bytes taken by link notes, included in bytesInUse */
+  notesBytes: number;
+  quotaBytes: number;
+}
+
+/**
+ * Measures how much of the active backend's quota is in use: the
+ * origin's usage and quota from `navigator.storage.estimate()` when data
+ * lives in IndexedDB, `chrome.storage.local.getBytesInUse()` otherwise.
+ * Every stored key counts, including the undo history.
+ *
+ * @returns Usage and quota, with the share taken by link notes
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const backend = await activeBackend;
+  const links = await getLinks();
+  const encoder = new TextEncoder();
+  const notesBytes = links.reduce(
+    (total, link) => total + (link.note !== undefined ? encoder.encode(link.note).length : 0),
+    0
+  );
+
+  if (backend !== chromeStorage && typeof navigator !== 'undefined' && navigator.storage !== undefined) {
+    const { usage, quota } = await navigator.storage.estimate();
+    return { bytesInUse: usage ?? 0, notesBytes, quotaBytes: quota ?? 0 };
+  }
+
+  try {
+    const bytesInUse = await chrome.storage.local.getBytesInUse(null);
+    return { bytesInUse, notesBytes, quotaBytes: STORAGE_QUOTA_BYTES };
+  } catch (error) {
+    throw wrapError(error, 'get bytes in use');
+  }
+}
+
+// Settings functions
+
+/**
+ * Retrieves user settings from storage.
+ * Returns default settings if none exist.
+ *
+ * @returns The user's settings
+ */
+export async function getSettings(): Promise<Settings> {
+  const settings = await storage.get<Settings>('settings');
+  return settings ?? { ...DEFAULT_SETTINGS };
+}
+
+/**
+ * Saves user settings to storage.
+ *
+ * @param settings - The settings to save
+ */
+export async function saveSettings(settings: Settings): Promise<void> {
+  await storage.set('settings', settings);
+}
+
+/**
+ * Updates specific settings fields without overwriting others.
+ *
+ * @param updates - Partial settings to update
+ * @returns The updated settings
+ */
+export async function updateSettings(updates: Partial<Settings>): Promise<Settings> {
+  const current = await getSettings();
+  const updated = { ...current, ...updates };
+  await saveSettings(updated);
+  return updated;
+}
+
+// Link management functions for Kanban
+
+/**
+ * Result of moving a link operation.
+ */
+export interface MoveLinkResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Moves a link to a different collection.
+ *
+ * @param linkId - The ID of the link to move
+ * @param toCollectionId - The ID of the target collection
+ * @returns Result indicating success or failure
+ */
+export async function moveLink(
+  linkId: string,
+  toCollectionId: string
+): Promise<MoveLinkResult> {
+  try {
+    const links = await getLinks();
+    const linkIndex = links.findIndex((link) => link.id === linkId);
+
+    if (linkIndex === -1) {
+      return { success: false, error: 'Link não encontrado' };
+    }
+
+    const collections = await getCollections();
+    const target = collections.find((c) => c.id === toCollectionId);
+
+    if (!target) {
+      return { success: false, error: 'Coleção de destino não encontrada' };
+    }
+
+    if (target.isSmart === true) {
+      return { success: false, error: 'Coleções inteligentes não recebem links' };
+    }
+
+    const updatedLinks = links.map((link) =>
+      link.id === linkId ? { ...link, collectionId: toCollectionId } : link
+    );
+
+    await saveLinks(updatedLinks);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to move link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao mover link',
+    };
+  }
+}
+
+/**
+ * Result of updating collection order.
+ */
+export interface UpdateCollectionOrderResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Updates the order of collections.
+ * The order is determined by the position in the array.
+ *
+ * @param orderedCollections - Collections in desired order
+ * @returns Result indicating success or failure
+ */
+export async function updateCollectionOrder(
+  orderedCollections: Collection[]
+): Promise<UpdateCollectionOrderResult> {
+  try {
+    const updatedCollections = orderedCollections.map((collection, index) => ({
+      ...collection,
+      order: index,
+    }));
+
+    await saveCollections(updatedCollections);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update collection order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro ao reordenar coleções',
+    };
+  }
+}
+
+// Workspace storage functions
+
+/**
+ * Retrieves all workspaces from storage, sorted by order.
+ *
+ * @returns Array of Workspace objects, or empty array if none exist
+ */
+export async function getWorkspaces(): Promise<Workspace[]> {
+  const workspaces = await storage.get<Workspace[]>('workspaces');
+  if (!workspaces || workspaces.length === 0) {
+    return [];
+  }
+
+  return workspaces.sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Storage key mirroring the workspace active in the dashboard. The UI keeps
+ * its own copy in localStorage; this one is for contexts without it, such as
+ * the service worker.
+ */
+export const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId';
+
+/**
+ * Returns the workspace last activated in the dashboard, falling back to the
+ * default workspace if it was deleted or never set.
+ */
+export async function getActiveWorkspaceId(): Promise<string> {
+  const [activeId, workspaces] = await Promise.all([
+    storage.get<string>(ACTIVE_WORKSPACE_KEY),
+    getWorkspaces(),
+  ]);
+  return activeId !== null && workspaces.some((w) => w.id === activeId) ? activeId : DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Records the workspace activated in the dashboard.
+ *
+ * @param workspaceId - The active workspace ID
+ */
+export async function saveActiveWorkspaceId(workspaceId: string): Promise<void> {
+  await storage.set(ACTIVE_WORKSPACE_KEY, workspaceId);
+}
+
+/**
+ * Saves workspaces array to storage.
+ *
+ * @param workspaces - Array of Workspace objects to save
+ */
 export async function saveWorkspaces(workspaces: Workspace[]): Promise<void> {
   await storage.set('workspaces', workspaces);
 }
@@ -1430,6 +2549,10 @@ export async function moveCollectionToWorkspace(
  * - Updates existing collections (except Inbox) to belong to "Geral"
  *
  * This function is idempotent and safe to call multiple times.
+ *
+ * @deprecated Superseded by migration 1 in the `migrations` module, which the
+ * service worker runs on install/update. Kept for UI contexts that load before
+ * the service worker has run.
  */
 export async function migrateToWorkspaces(): Promise<void> {
   const workspaces = await getWorkspaces();
@@ -0,0 +1,68 @@
+/**
+ * Svelte store exposing the undo/redo journal.
+ * The journal itself is persisted by the history module; data changes made by
+ * undo/redo reach the other stores through storage.watch().
+ */
+
+import { writable, type Writable } from 'svelte/store';
+import { storage } from '@/lib/storage';
+import {
+  getHistory,
+  undo as historyUndo,
+  redo as historyRedo,
+  HISTORY_KEY,
+  type HistoryState,
+  type HistoryResult,
+} from '@/lib/history';
+
+interface HistoryStoreState {
+  /** Label of the entry Ctrl+Z would undo, or null if the stack is empty */
+  undoLabel: string | null;
+  /** Label of the entry Ctrl+Shift+Z would redo, or null if the stack is empty */
+  redoLabel: string | null;
+}
+
+function summarize(history: HistoryState): HistoryStoreState {
+  return {
+    undoLabel: history.undo[history.undo.length - 1]?.label ?? null,
+    redoLabel: history.redo[history.redo.length - 1]?.label ?? null,
+  };
+}
+
+function createHistoryStore(): Writable<HistoryStoreState> & {
+  load: () => Promise<void>;
+  undo: () => Promise<HistoryResult>;
+  redo: () => Promise<HistoryResult>;
+} {
+  const { subscribe, set, update } = writable<HistoryStoreState>({
+    undoLabel: null,
+    redoLabel: null,
+  });
+
+  // Watch for journal changes from this and other contexts (popup <-> newtab)
+  storage.watch((changes) => {
+    if (HISTORY_KEY in changes) {
+      const history = changes[HISTORY_KEY].newValue as HistoryState | undefined;
+      set(summarize(history ?? { undo: [], redo: [] }));
+    }
+  });
+
+  async function load(): Promise<void> {
+    try {
+      set(summarize(await getHistory()));
+    } catch (error) {
+      console.error('Failed to load history:', error);
+    }
+  }
+
+  return {
+    subscribe,
+    set,
+    update,
+    load,
+    undo: historyUndo,
+    redo: historyRedo,
+  };
+}
+
+export const historyStore = createHistoryStore();
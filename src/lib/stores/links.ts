@@ -7,10 +7,15 @@
 
 import { writable, derived, type Writable } from 'svelte/store';
 import type { Link, Collection } from '@/lib/types';
-import { INBOX_COLLECTION_ID } from '@/lib/types';
+import { INBOX_COLLECTION_ID, compareLinksByRecency } from '@/lib/types';
 import {
   getLinks,
   saveLinks,
+  addLink as storageAddLink,
+  addLinks as storageAddLinks,
+  addOrBumpLink as storageAddOrBumpLink,
+  mergeDuplicates as storageMergeDuplicates,
+  trashLinks,
   getCollections,
   initializeInbox,
   removeCollection as storageRemoveCollection,
@@ -18,9 +23,34 @@ import {
   renameCollection as storageRenameCollection,
   moveLink as storageMoveLink,
   updateCollectionOrder as storageUpdateCollectionOrder,
+  setLinkTags as storageSetLinkTags,
+  renameTag as storageRenameTag,
+  mergeTags as storageMergeTags,
+  deleteTag as storageDeleteTag,
+  setLinkNote as storageSetLinkNote,
+  snoozeLink as storageSnoozeLink,
+  unsnoozeLink as storageUnsnoozeLink,
+  archiveLinks as storageArchiveLinks,
+  unarchiveLink as storageUnarchiveLink,
+  archiveCollection as storageArchiveCollection,
+  unarchiveCollection as storageUnarchiveCollection,
+  applyRoutingRulesToInbox as storageApplyRoutingRulesToInbox,
   storage,
+  type TagOperationResult,
+  type SnoozeResult,
+  type ArchiveResult,
+  type AddLinkInput,
+  type AddOrBumpLinkResult,
+  type MergeDuplicatesResult,
+  type ApplyRoutingRulesResult,
 } from '@/lib/storage';
 import { validateCollectionName, type ValidationResult } from '@/lib/validation';
+import { withHistory } from '@/lib/history';
+import { getTagCounts, normalizeTags } from '@/lib/tags';
+import { normalizeNote } from '@/lib/notes';
+import { getSnoozedLinks, isSnoozed } from '@/lib/snooze';
+import { getActiveLinks, getArchivedCollectionIds, isArchived } from '@/lib/archive';
+import { createSearchIndex } from '@/lib/search';
 
 interface LinksState {
   links: Link[];
@@ -32,6 +62,15 @@ interface LinksState {
   pendingLocalUpdate: boolean; // Flag to ignore storage.watch() during local operations
 }
 
+/**
+ * A link to create inside a new collection.
+ */
+export interface CollectionLinkInput {
+  url: string;
+  title: string;
+  favicon?: string;
+}
+
 const INBOX_COLLECTION: Collection = {
   id: INBOX_COLLECTION_ID,
   name: 'Inbox',
@@ -56,13 +95,31 @@ function deduplicateLinks(links: Link[]): Link[] {
 
 function createLinksStore(): Writable<LinksState> & {
   load: () => Promise<void>;
-  addLink: (link: Omit<Link, 'id' | 'createdAt'>) => Promise<void>;
+  addLink: (input: AddLinkInput) => Promise<void>;
+  addOrBumpLink: (input: AddLinkInput) => Promise<AddOrBumpLinkResult>;
   removeLink: (id: string) => Promise<void>;
+  removeLinks: (ids: string[]) => Promise<void>;
   moveLink: (linkId: string, toCollectionId: string) => Promise<void>;
   addCollection: (name: string, workspaceId?: string) => Promise<Collection>;
+  addSmartCollection: (name: string, smartQuery: string, workspaceId?: string) => Promise<Collection>;
+  addCollectionWithLinks: (name: string, links: CollectionLinkInput[], workspaceId?: string) => Promise<Collection>;
   removeCollection: (id: string) => Promise<void>;
   renameCollection: (id: string, newName: string) => Promise<void>;
   reorderCollections: (orderedCollections: Collection[]) => Promise<void>;
+  setLinkTags: (linkId: string, tags: string[]) => Promise<void>;
+  renameTag: (from: string, to: string) => Promise<TagOperationResult>;
+  mergeTags: (sources: string[], target: string) => Promise<TagOperationResult>;
+  deleteTag: (tag: string) => Promise<TagOperationResult>;
+  setLinkNote: (linkId: string, note: string) => Promise<void>;
+  snoozeLink: (linkId: string, until: number) => Promise<SnoozeResult>;
+  unsnoozeLink: (linkId: string) => Promise<SnoozeResult>;
+  archiveLink: (linkId: string) => Promise<ArchiveResult>;
+  archiveLinks: (linkIds: string[]) => Promise<ArchiveResult>;
+  unarchiveLink: (linkId: string) => Promise<ArchiveResult>;
+  archiveCollection: (collectionId: string) => Promise<ArchiveResult>;
+  unarchiveCollection: (collectionId: string) => Promise<ArchiveResult>;
+  mergeDuplicates: (keepId: string, duplicateIds: string[]) => Promise<MergeDuplicatesResult>;
+  applyRoutingRules: () => Promise<ApplyRoutingRulesResult>;
   getCollectionNames: () => string[];
   validateCollection: (name: string) => ValidationResult;
 } {
@@ -100,7 +157,7 @@ function createLinksStore(): Writable<LinksState> & {
     try {
       await initializeInbox();
       const [linksData, collections] = await Promise.all([getLinks(), getCollections()]);
-      const links = deduplicateLinks(linksData.sort((a, b) => b.createdAt - a.createdAt));
+      const links = deduplicateLinks(linksData.sort(compareLinksByRecency));
 
       update((state) => ({
         ...state,
@@ -115,7 +172,7 @@ function createLinksStore(): Writable<LinksState> & {
     }
   }
 
-  async function addLink(linkData: Omit<Link, 'id' | 'createdAt'>): Promise<void> {
+  async function addLink(input: AddLinkInput): Promise<void> {
     let currentState: LinksState | null = null;
     update((state) => {
       currentState = state;
@@ -126,29 +183,19 @@ function createLinksStore(): Writable<LinksState> & {
       return;
     }
 
-    const newLink: Link = {
-      ...linkData,
-      id: crypto.randomUUID(),
-      createdAt: Date.now(),
-    };
-
-    let linksToSave: Link[] = [];
-    update((state) => {
-      linksToSave = [newLink, ...state.links];
-      return {
-        ...state,
-        links: linksToSave,
-        isAdding: true,
-        pendingLocalUpdate: true, // Prevent storage.watch from duplicating
-      };
-    });
+    update((state) => ({
+      ...state,
+      isAdding: true,
+      pendingLocalUpdate: true, // Prevent storage.watch from duplicating
+    }));
 
     try {
-      await saveLinks(linksToSave);
+      // Saved by storage so links headed to the Inbox go through the routing rules
+      const newLink = await withHistory('Adicionar link', () => storageAddLink(input));
+      update((state) => ({ ...state, links: [newLink, ...state.links] }));
     } catch (error) {
       update((state) => ({
         ...state,
-        links: state.links.filter((l) => l.id !== newLink.id),
         error: 'Failed to save link',
       }));
     } finally {
@@ -160,6 +207,35 @@ function createLinksStore(): Writable<LinksState> & {
     }
   }
 
+  /**
+   * Saves a link, or bumps the existing one if its URL is already saved.
+   * Used by the save-and-close actions.
+   */
+  async function addOrBumpLink(input: AddLinkInput): Promise<AddOrBumpLinkResult> {
+    update((state) => ({
+      ...state,
+      pendingLocalUpdate: true,
+    }));
+
+    try {
+      const result = await withHistory('Salvar link', () => storageAddOrBumpLink(input));
+      update((state) => ({
+        ...state,
+        links: [result.link, ...state.links.filter((l) => l.id !== result.link.id)],
+      }));
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save link';
+      update((state) => ({ ...state, error: message }));
+      throw error;
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
   async function removeLink(id: string): Promise<void> {
     let currentState: LinksState | null = null;
     update((state) => {
@@ -188,12 +264,14 @@ function createLinksStore(): Writable<LinksState> & {
     });
 
     try {
-      await saveLinks(linksToSave);
+      await withHistory('Remover link', () =>
+        Promise.all([saveLinks(linksToSave), trashLinks(removedLink ? [removedLink] : [])])
+      );
     } catch (error) {
       if (removedLink) {
         update((state) => ({
           ...state,
-          links: [...state.links, removedLink!].sort((a, b) => b.createdAt - a.createdAt),
+          links: [...state.links, removedLink!].sort(compareLinksByRecency),
           error: 'Failed to remove link',
         }));
       }
@@ -210,6 +288,44 @@ function createLinksStore(): Writable<LinksState> & {
     }
   }
 
+  /**
+   * Removes several links in one undoable step, sending them to the trash.
+   */
+  async function removeLinks(ids: string[]): Promise<void> {
+    const idSet = new Set(ids);
+    let previousLinks: Link[] = [];
+    let removedLinks: Link[] = [];
+    let linksToSave: Link[] = [];
+
+    update((state) => {
+      previousLinks = state.links;
+      removedLinks = state.links.filter((l) => idSet.has(l.id));
+      linksToSave = state.links.filter((l) => !idSet.has(l.id));
+      return {
+        ...state,
+        links: linksToSave,
+        pendingLocalUpdate: true,
+      };
+    });
+
+    if (removedLinks.length === 0) {
+      update((state) => ({ ...state, pendingLocalUpdate: false }));
+      return;
+    }
+
+    try {
+      await withHistory('Remover links', () => Promise.all([saveLinks(linksToSave), trashLinks(removedLinks)]));
+    } catch (error) {
+      update((state) => ({ ...state, links: previousLinks, error: 'Failed to remove links' }));
+      throw error;
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
   async function moveLink(linkId: string, toCollectionId: string): Promise<void> {
     let previousLinks: Link[] = [];
 
@@ -226,7 +342,7 @@ function createLinksStore(): Writable<LinksState> & {
     });
 
     try {
-      const result = await storageMoveLink(linkId, toCollectionId);
+      const result = await withHistory('Mover link', () => storageMoveLink(linkId, toCollectionId));
       if (!result.success) {
         update((state) => ({
           ...state,
@@ -273,7 +389,42 @@ function createLinksStore(): Writable<LinksState> & {
     }));
 
     try {
-      const newCollection = await storageCreateCollection({ name, workspaceId });
+      const newCollection = await withHistory('Criar coleção', () =>
+        storageCreateCollection({ name, workspaceId })
+      );
+
+      update((state) => ({
+        ...state,
+        collections: [...state.collections, newCollection].sort((a, b) => a.order - b.order),
+      }));
+
+      return newCollection;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save collection';
+      update((state) => ({ ...state, error: message }));
+      throw error;
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
+  /**
+   * Saves a search query as a smart collection, whose column lists the
+   * links matching it.
+   */
+  async function addSmartCollection(name: string, smartQuery: string, workspaceId?: string): Promise<Collection> {
+    update((state) => ({
+      ...state,
+      pendingLocalUpdate: true,
+    }));
+
+    try {
+      const newCollection = await withHistory('Salvar busca como coleção', () =>
+        storageCreateCollection({ name, workspaceId, smartQuery })
+      );
 
       update((state) => ({
         ...state,
@@ -293,6 +444,46 @@ function createLinksStore(): Writable<LinksState> & {
     }
   }
 
+  /**
+   * Creates a collection already filled with links, e.g. from a tab group or
+   * a whole window, as a single undoable step.
+   */
+  async function addCollectionWithLinks(
+    name: string,
+    links: CollectionLinkInput[],
+    workspaceId?: string
+  ): Promise<Collection> {
+    update((state) => ({
+      ...state,
+      pendingLocalUpdate: true,
+    }));
+
+    try {
+      const { collection, newLinks } = await withHistory('Salvar abas como coleção', async () => {
+        const created = await storageCreateCollection({ name, workspaceId });
+        const added = await storageAddLinks(links.map((link) => ({ ...link, collectionId: created.id })));
+        return { collection: created, newLinks: added };
+      });
+
+      update((state) => ({
+        ...state,
+        links: [...newLinks, ...state.links],
+        collections: [...state.collections, collection].sort((a, b) => a.order - b.order),
+      }));
+
+      return collection;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save collection';
+      update((state) => ({ ...state, error: message }));
+      throw error;
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
   async function removeCollection(id: string): Promise<void> {
     if (id === INBOX_COLLECTION_ID) {
       return;
@@ -315,7 +506,7 @@ function createLinksStore(): Writable<LinksState> & {
     });
 
     try {
-      await storageRemoveCollection(id);
+      await withHistory('Excluir coleção', () => storageRemoveCollection(id));
     } catch (error) {
       update((state) => ({
         ...state,
@@ -347,7 +538,7 @@ function createLinksStore(): Writable<LinksState> & {
     });
 
     try {
-      const result = await storageRenameCollection(id, newName);
+      const result = await withHistory('Renomear coleção', () => storageRenameCollection(id, newName));
       if (!result.success) {
         update((state) => ({
           ...state,
@@ -371,18 +562,25 @@ function createLinksStore(): Writable<LinksState> & {
 
   async function reorderCollections(orderedCollections: Collection[]): Promise<void> {
     let previousCollections: Collection[] = [];
+    let collections: Collection[] = [];
 
     update((state) => {
       previousCollections = state.collections;
+      // Collections not on the board (archived or in other workspaces) keep
+      // their relative order after the reordered ones
+      const orderedIds = new Set(orderedCollections.map((c) => c.id));
+      collections = [...orderedCollections, ...state.collections.filter((c) => !orderedIds.has(c.id))];
       return {
         ...state,
-        collections: orderedCollections,
+        collections,
         pendingLocalUpdate: true,
       };
     });
 
     try {
-      const result = await storageUpdateCollectionOrder(orderedCollections);
+      const result = await withHistory('Reordenar coleções', () =>
+        storageUpdateCollectionOrder(collections)
+      );
       if (!result.success) {
         update((state) => ({
           ...state,
@@ -404,20 +602,309 @@ function createLinksStore(): Writable<LinksState> & {
     }
   }
 
+  async function setLinkTags(linkId: string, tags: string[]): Promise<void> {
+    let previousLinks: Link[] = [];
+    const normalized = normalizeTags(tags);
+
+    update((state) => {
+      previousLinks = state.links;
+      return {
+        ...state,
+        links: state.links.map((link) => (link.id === linkId ? { ...link, tags: normalized } : link)),
+        pendingLocalUpdate: true,
+      };
+    });
+
+    try {
+      const result = await withHistory('Editar tags', () => storageSetLinkTags(linkId, normalized));
+      if (!result.success) {
+        update((state) => ({
+          ...state,
+          links: previousLinks,
+          error: result.error ?? 'Erro ao atualizar tags',
+        }));
+      }
+    } catch (error) {
+      update((state) => ({
+        ...state,
+        links: previousLinks,
+        error: 'Erro ao atualizar tags',
+      }));
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
+  async function setLinkNote(linkId: string, note: string): Promise<void> {
+    let previousLinks: Link[] = [];
+    const normalized = normalizeNote(note);
+
+    update((state) => {
+      previousLinks = state.links;
+      return {
+        ...state,
+        links: state.links.map((link) => {
+          if (link.id !== linkId) {
+            return link;
+          }
+          const { note: _previous, ...rest } = link;
+          return normalized !== undefined ? { ...rest, note: normalized } : rest;
+        }),
+        pendingLocalUpdate: true,
+      };
+    });
+
+    try {
+      const result = await withHistory('Editar nota', () => storageSetLinkNote(linkId, note));
+      if (!result.success) {
+        update((state) => ({
+          ...state,
+          links: previousLinks,
+          error: result.error ?? 'Erro ao salvar nota',
+        }));
+      }
+    } catch (error) {
+      update((state) => ({
+        ...state,
+        links: previousLinks,
+        error: 'Erro ao salvar nota',
+      }));
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
+  async function snoozeLink(linkId: string, until: number): Promise<SnoozeResult> {
+    let previousLinks: Link[] = [];
+
+    update((state) => {
+      previousLinks = state.links;
+      return {
+        ...state,
+        links: state.links.map((link) => (link.id === linkId ? { ...link, snoozedUntil: until } : link)),
+        pendingLocalUpdate: true,
+      };
+    });
+
+    try {
+      const result = await withHistory('Adiar link', () => storageSnoozeLink(linkId, until));
+      if (!result.success) {
+        update((state) => ({ ...state, links: previousLinks }));
+      }
+      return result;
+    } catch (error) {
+      update((state) => ({ ...state, links: previousLinks }));
+      return { success: false, error: 'Erro ao adiar link' };
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
+  /**
+   * Wakes a snoozed link now, then reloads the links since waking also
+   * moves the link to the top of its collection.
+   */
+  async function unsnoozeLink(linkId: string): Promise<SnoozeResult> {
+    const result = await withHistory('Reativar link', () => storageUnsnoozeLink(linkId));
+    if (result.success) {
+      const links = await getLinks();
+      update((state) => ({ ...state, links: deduplicateLinks(links) }));
+    }
+    return result;
+  }
+
+  function archiveLink(linkId: string): Promise<ArchiveResult> {
+    return archiveLinks([linkId]);
+  }
+
+  async function archiveLinks(linkIds: string[]): Promise<ArchiveResult> {
+    let previousLinks: Link[] = [];
+    const ids = new Set(linkIds);
+    const now = Date.now();
+
+    update((state) => {
+      previousLinks = state.links;
+      return {
+        ...state,
+        links: state.links.map((link) => (ids.has(link.id) ? { ...link, archivedAt: now } : link)),
+        pendingLocalUpdate: true,
+      };
+    });
+
+    try {
+      const label = linkIds.length === 1 ? 'Arquivar link' : 'Arquivar links';
+      const result = await withHistory(label, () => storageArchiveLinks(linkIds));
+      if (!result.success) {
+        update((state) => ({ ...state, links: previousLinks }));
+      }
+      return result;
+    } catch (error) {
+      update((state) => ({ ...state, links: previousLinks }));
+      return { success: false, error: 'Erro ao arquivar link' };
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
+  /**
+   * Restores an archived link, then reloads the links since restoring may
+   * also move it to Inbox.
+   */
+  async function unarchiveLink(linkId: string): Promise<ArchiveResult> {
+    const result = await withHistory('Restaurar link', () => storageUnarchiveLink(linkId));
+    if (result.success) {
+      const links = await getLinks();
+      update((state) => ({ ...state, links: deduplicateLinks(links) }));
+    }
+    return result;
+  }
+
+  /**
+   * Merges duplicate links into one, then reloads the links since the kept
+   * link changes too.
+   */
+  async function mergeDuplicates(keepId: string, duplicateIds: string[]): Promise<MergeDuplicatesResult> {
+    const result = await withHistory('Mesclar duplicados', () => storageMergeDuplicates(keepId, duplicateIds));
+    if (result.success) {
+      const links = await getLinks();
+      update((state) => ({ ...state, links: deduplicateLinks(links) }));
+    }
+    return result;
+  }
+
+  /**
+   * Files the links already in the Inbox with the routing rules, as a single
+   * undoable step.
+   */
+  async function applyRoutingRules(): Promise<ApplyRoutingRulesResult> {
+    const result = await withHistory('Aplicar regras ao Inbox', () => storageApplyRoutingRulesToInbox());
+    if (result.success && result.routedCount > 0) {
+      const links = await getLinks();
+      update((state) => ({ ...state, links: deduplicateLinks(links) }));
+    }
+    return result;
+  }
+
+  async function setCollectionArchived(collectionId: string, archived: boolean): Promise<ArchiveResult> {
+    let previousCollections: Collection[] = [];
+    const now = Date.now();
+
+    update((state) => {
+      previousCollections = state.collections;
+      return {
+        ...state,
+        collections: state.collections.map((c) => {
+          if (c.id !== collectionId) {
+            return c;
+          }
+          const { archivedAt: _archivedAt, ...rest } = c;
+          return archived ? { ...rest, archivedAt: now } : rest;
+        }),
+        pendingLocalUpdate: true,
+      };
+    });
+
+    try {
+      const result = await withHistory(archived ? 'Arquivar coleção' : 'Restaurar coleção', () =>
+        archived ? storageArchiveCollection(collectionId) : storageUnarchiveCollection(collectionId)
+      );
+      if (!result.success) {
+        update((state) => ({ ...state, collections: previousCollections }));
+      }
+      return result;
+    } catch (error) {
+      update((state) => ({ ...state, collections: previousCollections }));
+      return { success: false, error: archived ? 'Erro ao arquivar coleção' : 'Erro ao restaurar coleção' };
+    } finally {
+      update((state) => ({
+        ...state,
+        pendingLocalUpdate: false,
+      }));
+    }
+  }
+
+  function archiveCollection(collectionId: string): Promise<ArchiveResult> {
+    return setCollectionArchived(collectionId, true);
+  }
+
+  function unarchiveCollection(collectionId: string): Promise<ArchiveResult> {
+    return setCollectionArchived(collectionId, false);
+  }
+
+  /**
+   * Runs a tag operation that touches many links, then reloads the links
+   * from storage rather than repeating the transform locally.
+   */
+  async function runTagOperation(
+    label: string,
+    operation: () => Promise<TagOperationResult>
+  ): Promise<TagOperationResult> {
+    const result = await withHistory(label, operation);
+    if (result.success) {
+      const links = await getLinks();
+      update((state) => ({ ...state, links: deduplicateLinks(links) }));
+    } else {
+      update((state) => ({ ...state, error: result.error ?? 'Erro ao atualizar tags' }));
+    }
+    return result;
+  }
+
+  function renameTag(from: string, to: string): Promise<TagOperationResult> {
+    return runTagOperation('Renomear tag', () => storageRenameTag(from, to));
+  }
+
+  function mergeTags(sources: string[], target: string): Promise<TagOperationResult> {
+    return runTagOperation('Mesclar tags', () => storageMergeTags(sources, target));
+  }
+
+  function deleteTag(tag: string): Promise<TagOperationResult> {
+    return runTagOperation('Excluir tag', () => storageDeleteTag(tag));
+  }
+
   return {
     subscribe,
     set,
     update,
     load,
     addLink,
+    addOrBumpLink,
     removeLink,
+    removeLinks,
     moveLink,
     addCollection,
+    addSmartCollection,
+    addCollectionWithLinks,
     removeCollection,
     getCollectionNames,
     validateCollection,
     renameCollection,
     reorderCollections,
+    setLinkTags,
+    renameTag,
+    mergeTags,
+    deleteTag,
+    setLinkNote,
+    snoozeLink,
+    unsnoozeLink,
+    archiveLink,
+    archiveLinks,
+    unarchiveLink,
+    archiveCollection,
+    unarchiveCollection,
+    mergeDuplicates,
+    applyRoutingRules,
   };
 }
 
@@ -426,9 +913,14 @@ export const linksStore = createLinksStore();
 export const linksByCollection = derived(linksStore, ($store) => {
   const grouped = new Map<string, Link[]>();
   const seenIds = new Set<string>();
+  const now = Date.now();
+
+  const archivedCollectionIds = getArchivedCollectionIds($store.collections);
 
   for (const collection of $store.collections) {
-    grouped.set(collection.id, []);
+    if (!archivedCollectionIds.has(collection.id)) {
+      grouped.set(collection.id, []);
+    }
   }
 
   for (const link of $store.links) {
@@ -438,6 +930,12 @@ export const linksByCollection = derived(linksStore, ($store) => {
     }
     seenIds.add(link.id);
 
+    // Snoozed links stay out of their collection until they wake up;
+    // archived links, and links in archived collections, until restored
+    if (isSnoozed(link, now) || isArchived(link) || archivedCollectionIds.has(link.collectionId)) {
+      continue;
+    }
+
     let links = grouped.get(link.collectionId);
     if (!links) {
       links = grouped.get(INBOX_COLLECTION_ID);
@@ -452,12 +950,34 @@ export const linksByCollection = derived(linksStore, ($store) => {
   return grouped;
 });
 
-// Stats derived store for status bar
+// Snoozed links, the soonest to wake up first
+export const snoozedLinks = derived(linksStore, ($store) => getSnoozedLinks($store.links));
+
+// Tags in use with their link counts, most used first
+export const allTags = derived(linksStore, ($store) => getTagCounts($store.links));
+
+// Full-text search index over every link, re-indexing only what changed
+const searchIndex = createSearchIndex();
+export const linkSearchIndex = derived(linksStore, ($store) => {
+  searchIndex.update($store.links);
+  return searchIndex;
+});
+
+// Archived links and collections, most recently archived first
+export const archivedLinks = derived(linksStore, ($store) =>
+  $store.links.filter(isArchived).sort((a, b) => (b.archivedAt ?? 0) - (a.archivedAt ?? 0))
+);
+export const archivedCollections = derived(linksStore, ($store) =>
+  $store.collections.filter(isArchived).sort((a, b) => (b.archivedAt ?? 0) - (a.archivedAt ?? 0))
+);
+
+// Stats derived store for status bar, leaving archived items out
 export const linksStats = derived(linksStore, ($store) => {
-  const lastLink = $store.links[0];
+  const activeLinks = getActiveLinks($store.links, $store.collections);
+  const lastLink = activeLinks[0];
   return {
-    totalLinks: $store.links.length,
-    totalCollections: $store.collections.length,
+    totalLinks: activeLinks.length,
+    totalCollections: $store.collections.filter((c) => !isArchived(c)).length,
     lastSavedAt: lastLink?.createdAt ?? null,
   };
 });
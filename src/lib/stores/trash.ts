@@ -0,0 +1,110 @@
+/**
+ * Svelte store for managing the trash.
+ * Provides reactive state management with persistence to chrome.storage.local.
+ *
+ * Restored items are picked up by the links store through storage.watch().
+ */
+
+import { writable, type Writable } from 'svelte/store';
+import type { TrashItem } from '@/lib/types';
+import {
+  getTrash,
+  restoreFromTrash,
+  deleteFromTrash,
+  emptyTrash,
+  storage,
+  TRASH_KEY,
+  type RestoreFromTrashResult,
+} from '@/lib/storage';
+import { withHistory } from '@/lib/history';
+
+interface TrashState {
+  items: TrashItem[];
+  loading: boolean;
+  error: string | null;
+}
+
+function createTrashStore(): Writable<TrashState> & {
+  load: () => Promise<void>;
+  restore: (id: string) => Promise<RestoreFromTrashResult>;
+  deletePermanently: (id: string) => Promise<void>;
+  empty: () => Promise<void>;
+} {
+  const { subscribe, set, update } = writable<TrashState>({
+    items: [],
+    loading: true,
+    error: null,
+  });
+
+  // Watch for storage changes from other contexts (popup <-> newtab)
+  storage.watch((changes) => {
+    if (TRASH_KEY in changes) {
+      update((state) => ({
+        ...state,
+        items: (changes[TRASH_KEY].newValue as TrashItem[] | undefined) ?? [],
+      }));
+    }
+  });
+
+  async function load(): Promise<void> {
+    update((state) => ({ ...state, loading: true, error: null }));
+
+    try {
+      const items = await getTrash();
+      update((state) => ({ ...state, items, loading: false }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load trash';
+      update((state) => ({ ...state, loading: false, error: message }));
+    }
+  }
+
+  async function restore(id: string): Promise<RestoreFromTrashResult> {
+    const result = await withHistory('Restaurar da lixeira', () => restoreFromTrash(id));
+    if (result.success) {
+      update((state) => ({ ...state, items: state.items.filter((i) => i.id !== id) }));
+    } else {
+      update((state) => ({ ...state, error: result.error ?? 'Failed to restore item' }));
+    }
+    return result;
+  }
+
+  async function deletePermanently(id: string): Promise<void> {
+    let previousItems: TrashItem[] = [];
+    update((state) => {
+      previousItems = state.items;
+      return { ...state, items: state.items.filter((i) => i.id !== id) };
+    });
+
+    try {
+      await withHistory('Excluir da lixeira', () => deleteFromTrash(id));
+    } catch (error) {
+      update((state) => ({ ...state, items: previousItems, error: 'Failed to delete item' }));
+    }
+  }
+
+  async function empty(): Promise<void> {
+    let previousItems: TrashItem[] = [];
+    update((state) => {
+      previousItems = state.items;
+      return { ...state, items: [] };
+    });
+
+    try {
+      await withHistory('Esvaziar lixeira', () => emptyTrash());
+    } catch (error) {
+      update((state) => ({ ...state, items: previousItems, error: 'Failed to empty trash' }));
+    }
+  }
+
+  return {
+    subscribe,
+    set,
+    update,
+    load,
+    restore,
+    deletePermanently,
+    empty,
+  };
+}
+
+export const trashStore = createTrashStore();
@@ -6,7 +6,7 @@
  */
 
 import { writable, derived, type Readable } from 'svelte/store';
-import type { Workspace, CreateWorkspaceInput, Collection } from '@/lib/types';
+import type { Workspace, CreateWorkspaceInput, Collection, Link } from '@/lib/types';
 import { DEFAULT_WORKSPACE_ID, INBOX_COLLECTION_ID } from '@/lib/types';
 import {
   getWorkspaces,
@@ -17,6 +17,7 @@ import {
   moveCollectionToWorkspace as storageMoveCollectionToWorkspace,
   migrateToWorkspaces,
   initializeDefaultWorkspace,
+  saveActiveWorkspaceId,
   storage,
 } from '@/lib/storage';
 import {
@@ -24,7 +25,9 @@ import {
   validateWorkspaceLimit,
   type ValidationResult,
 } from '@/lib/validation';
-import { linksStore } from './links';
+import { withHistory } from '@/lib/history';
+import { getSmartCollectionLinks, isSmartCollection } from '@/lib/smartCollections';
+import { linksStore, linksByCollection, linkSearchIndex } from './links';
 
 const ACTIVE_WORKSPACE_KEY = 'tabala_active_workspace';
 
@@ -84,7 +87,8 @@ function createWorkspacesStore(): ReturnType<typeof writable<WorkspacesState>> &
   }
 
   /**
-   * Persists the active workspace ID to localStorage.
+   * Persists the active workspace ID to localStorage, and mirrors it to
+   * extension storage for the service worker's context menus.
    */
   function persistActiveWorkspaceId(id: string): void {
     try {
@@ -92,6 +96,9 @@ function createWorkspacesStore(): ReturnType<typeof writable<WorkspacesState>> &
     } catch {
       // Ignore localStorage errors
     }
+    saveActiveWorkspaceId(id).catch((error) => {
+      console.error('Failed to save active workspace:', error);
+    });
   }
 
   /**
@@ -150,7 +157,7 @@ function createWorkspacesStore(): ReturnType<typeof writable<WorkspacesState>> &
     }));
 
     try {
-      const newWorkspace = await storageCreateWorkspace(input);
+      const newWorkspace = await withHistory('Criar workspace', () => storageCreateWorkspace(input));
 
       update((state) => ({
         ...state,
@@ -192,7 +199,7 @@ function createWorkspacesStore(): ReturnType<typeof writable<WorkspacesState>> &
     });
 
     try {
-      const result = await storageUpdateWorkspace(id, updates);
+      const result = await withHistory('Editar workspace', () => storageUpdateWorkspace(id, updates));
       if (!result.success) {
         update((state) => ({
           ...state,
@@ -245,7 +252,7 @@ function createWorkspacesStore(): ReturnType<typeof writable<WorkspacesState>> &
     }
 
     try {
-      const result = await storageDeleteWorkspace(id);
+      const result = await withHistory('Excluir workspace', () => storageDeleteWorkspace(id));
       if (!result.success) {
         update((state) => ({
           ...state,
@@ -294,7 +301,9 @@ function createWorkspacesStore(): ReturnType<typeof writable<WorkspacesState>> &
     });
 
     try {
-      const result = await storageUpdateWorkspaceOrder(orderedWorkspaces);
+      const result = await withHistory('Reordenar workspaces', () =>
+        storageUpdateWorkspaceOrder(orderedWorkspaces)
+      );
       if (!result.success) {
         update((state) => ({
           ...state,
@@ -345,7 +354,9 @@ function createWorkspacesStore(): ReturnType<typeof writable<WorkspacesState>> &
     }));
 
     try {
-      const result = await storageMoveCollectionToWorkspace(collectionId, workspaceId);
+      const result = await withHistory('Mover coleção', () =>
+        storageMoveCollectionToWorkspace(collectionId, workspaceId)
+      );
       if (!result.success) {
         // Rollback on failure
         linksStore.update((state) => ({
@@ -462,6 +473,10 @@ export const collectionsByActiveWorkspace: Readable<Collection[]> = derived(
     const activeId = $workspacesStore.activeWorkspaceId;
 
     return $linksStore.collections.filter((collection) => {
+      // Archived collections only show up in the Archive view
+      if (collection.archivedAt !== undefined) {
+        return false;
+      }
       // Inbox is always visible (global)
       if (collection.id === INBOX_COLLECTION_ID) {
         return true;
@@ -471,3 +486,27 @@ export const collectionsByActiveWorkspace: Readable<Collection[]> = derived(
     });
   }
 );
+
+/**
+ * Derived store for the links of each collection, with smart collections
+ * filled in from their saved search. Lives here rather than next to
+ * linksByCollection because the `ws:` operator needs the workspace names.
+ */
+export const linksByCollectionWithSmart: Readable<Map<string, Link[]>> = derived(
+  [linksByCollection, linkSearchIndex, linksStore, workspacesStore],
+  ([$linksByCollection, $linkSearchIndex, $linksStore, $workspacesStore]) => {
+    const smartCollections = $linksStore.collections.filter(
+      (collection) => isSmartCollection(collection) && collection.archivedAt === undefined
+    );
+    if (smartCollections.length === 0) {
+      return $linksByCollection;
+    }
+
+    const grouped = new Map($linksByCollection);
+    const context = { collections: $linksStore.collections, workspaces: $workspacesStore.workspaces };
+    for (const collection of smartCollections) {
+      grouped.set(collection.id, getSmartCollectionLinks(collection, $linkSearchIndex, context));
+    }
+    return grouped;
+  }
+);
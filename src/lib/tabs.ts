@@ -12,6 +12,8 @@ export interface CurrentTabInfo {
   url: string;
   title: string;
   favicon?: string;
+  /** Title of the tab's group, if it is in a named group */
+  groupTitle?: string;
 }
 
 /**
@@ -61,10 +63,12 @@ export async function getCurrentTab(): Promise<CurrentTabInfo | null> {
       return null;
     }
 
+    const groupTitle = await getTabGroupTitle(tab.groupId);
     return {
       url: tab.url,
       title: tab.title,
       favicon: tab.favIconUrl,
+      ...(groupTitle !== undefined ? { groupTitle } : {}),
     };
   } catch (error) {
     console.error('Failed to get current tab:', error);
@@ -72,6 +76,25 @@ export async function getCurrentTab(): Promise<CurrentTabInfo | null> {
   }
 }
 
+/**
+ * Gets the title of a tab group. Returns undefined for ungrouped tabs,
+ * untitled groups, or when the tabGroups API is unavailable.
+ *
+ * @param groupId - The tab's groupId
+ */
+export async function getTabGroupTitle(groupId: number | undefined): Promise<string | undefined> {
+  if (groupId === undefined || groupId < 0 || chrome.tabGroups === undefined) {
+    return undefined;
+  }
+  try {
+    const group = await chrome.tabGroups.get(groupId);
+    return group.title !== undefined && group.title !== '' ? group.title : undefined;
+  } catch (error) {
+    console.error('Failed to get tab group:', error);
+    return undefined;
+  }
+}
+
 /**
  * Checks if a URL is saveable (not a browser internal URL or localhost).
  */
@@ -229,10 +252,16 @@ export async function focusTab(tabId: number): Promise<boolean> {
 }
 
 /**
- * Closes a specific tab.
+ * Closes a specific tab. If it's the last tab in its window, a blank tab is
+ * opened first so the window itself stays open.
  */
 export async function closeTab(tabId: number): Promise<boolean> {
   try {
+    const tab = await chrome.tabs.get(tabId);
+    const windowTabs = await chrome.tabs.query({ windowId: tab.windowId });
+    if (windowTabs.length <= 1) {
+      await chrome.tabs.create({ windowId: tab.windowId, active: true });
+    }
     await chrome.tabs.remove(tabId);
     return true;
   } catch (error) {
@@ -241,6 +270,202 @@ export async function closeTab(tabId: number): Promise<boolean> {
   }
 }
 
+/**
+ * Closes the active tab of the current window, keeping the window open.
+ */
+export async function closeCurrentTab(): Promise<boolean> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    return tab?.id !== undefined ? await closeTab(tab.id) : false;
+  } catch (error) {
+    console.error('Failed to close current tab:', error);
+    return false;
+  }
+}
+
+/**
+ * Closes several tabs at once. If they are all the tabs left in the current
+ * window, a blank tab is opened first so the window itself stays open.
+ */
+export async function closeTabs(tabIds: number[]): Promise<boolean> {
+  if (tabIds.length === 0) {
+    return true;
+  }
+  try {
+    const closing = new Set(tabIds);
+    const windowTabs = await chrome.tabs.query({ currentWindow: true });
+    if (windowTabs.every((tab) => tab.id !== undefined && closing.has(tab.id))) {
+      await chrome.tabs.create({ active: true });
+    }
+    await chrome.tabs.remove(tabIds);
+    return true;
+  } catch (error) {
+    console.error('Failed to close tabs:', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the saveable tabs of the current window, in tab order.
+ *
+ * @param includePinned - Whether pinned tabs are included
+ */
+export async function getWindowTabsToSave(includePinned: boolean): Promise<BrowserTab[]> {
+  const tabs = await getAllTabs();
+  return tabs.filter((tab) => includePinned || !tab.pinned).sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Suggests a name for a collection saved from a window, e.g. "Janela 19/10 14:30".
+ */
+export function getWindowCollectionName(now: Date = new Date()): string {
+  const date = now.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+  const time = now.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  return `Janela ${date} ${time}`;
+}
+
+/**
+ * Colors available for Chrome tab groups, with their approximate hex values.
+ */
+export const TAB_GROUP_COLORS: Record<chrome.tabGroups.ColorEnum, string> = {
+  grey: '#5F6368',
+  blue: '#1A73E8',
+  red: '#D93025',
+  yellow: '#F9AB00',
+  green: '#188038',
+  pink: '#D01884',
+  purple: '#A142F4',
+  cyan: '#007B83',
+  orange: '#FA903E',
+};
+
+/**
+ * Tabs beyond this many are opened discarded, so a large collection doesn't
+ * load every page at once.
+ */
+export const EAGER_TAB_LIMIT = 5;
+
+function parseHexColor(hex: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex);
+  if (match === null) {
+    return null;
+  }
+  const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Picks the tab group color closest to a collection color.
+ *
+ * @param hex - Collection color in #RGB or #RRGGBB format
+ * @returns The nearest tab group color, or grey when there's no color
+ */
+export function getClosestTabGroupColor(hex: string | undefined): chrome.tabGroups.ColorEnum {
+  const rgb = hex !== undefined ? parseHexColor(hex) : null;
+  if (rgb === null) {
+    return 'grey';
+  }
+
+  let closest: chrome.tabGroups.ColorEnum = 'grey';
+  let closestDistance = Infinity;
+  for (const [color, value] of Object.entries(TAB_GROUP_COLORS) as [chrome.tabGroups.ColorEnum, string][]) {
+    const other = parseHexColor(value) ?? [0, 0, 0];
+    const distance = rgb.reduce((sum, channel, i) => sum + (channel - other[i]) ** 2, 0);
+    if (distance < closestDistance) {
+      closest = color;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Options for opening links as a tab group.
+ */
+export interface OpenAsTabGroupOptions {
+  /** Group title, usually the collection name */
+  title: string;
+  color: chrome.tabGroups.ColorEnum;
+  /** Open in a new window instead of the current one */
+  newWindow: boolean;
+}
+
+export interface OpenAsTabGroupResult {
+  success: boolean;
+  error?: string;
+  /** Number of tabs opened */
+  opened: number;
+}
+
+/**
+ * Discards a tab so it only loads when selected. Discarding can replace the
+ * tab, so the ID to use afterwards is returned; if it fails the tab just
+ * loads normally.
+ */
+async function discardTab(tabId: number): Promise<number> {
+  try {
+    const discarded = await chrome.tabs.discard(tabId);
+    return discarded?.id ?? tabId;
+  } catch {
+    return tabId;
+  }
+}
+
+/**
+ * Opens URLs as a single named tab group, in a new window or the current
+ * one. Only the first {@link EAGER_TAB_LIMIT} tabs load right away; each of
+ * the rest is discarded as soon as it is created and loads when selected.
+ *
+ * @param urls - URLs to open, in order
+ * @param options - Group title, color and target window
+ */
+export async function openAsTabGroup(urls: string[], options: OpenAsTabGroupOptions): Promise<OpenAsTabGroupResult> {
+  const validUrls = urls.filter((url) => isValidUrl(url));
+  if (validUrls.length === 0) {
+    return { success: false, error: 'Nenhum link para abrir', opened: 0 };
+  }
+
+  try {
+    const tabIds: number[] = [];
+    let windowId: number | undefined;
+    let remaining = validUrls;
+
+    if (options.newWindow) {
+      const window = await chrome.windows.create({ url: validUrls[0], focused: true });
+      windowId = window?.id;
+      const firstTabId = window?.tabs?.[0]?.id;
+      if (firstTabId !== undefined) {
+        tabIds.push(firstTabId);
+      }
+      remaining = validUrls.slice(1);
+    }
+
+    for (const url of remaining) {
+      const lazy = tabIds.length >= EAGER_TAB_LIMIT;
+      const tab = await chrome.tabs.create({ url, active: tabIds.length === 0, windowId });
+      if (tab.id !== undefined) {
+        // Discarded before the next tab is created, so the page never gets to load
+        tabIds.push(lazy ? await discardTab(tab.id) : tab.id);
+      }
+    }
+
+    if (tabIds.length === 0) {
+      return { success: false, error: 'Erro ao abrir links', opened: 0 };
+    }
+
+    const groupId = await chrome.tabs.group({
+      tabIds,
+      ...(windowId !== undefined ? { createProperties: { windowId } } : {}),
+    });
+    await chrome.tabGroups.update(groupId, { title: options.title, color: options.color });
+
+    return { success: true, opened: tabIds.length };
+  } catch (error) {
+    console.error('Failed to open links as tab group:', error);
+    return { success: false, error: 'Erro ao abrir links como grupo de abas', opened: 0 };
+  }
+}
+
 /**
  * Extracts the domain from a URL.
  */
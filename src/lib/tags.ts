@@ -0,0 +1,102 @@
+/**
+ * Helpers for link tags: normalization, counting, filtering and autocomplete.
+ *
+ * Tags are stored lowercase, trimmed and without a leading "#", so "#Work",
+ * " work " and "WORK" are the same tag.
+ *
+ * @module tags
+ */
+
+import type { Link } from './types';
+
+/**
+ * Maximum length of a single tag.
+ */
+export const TAG_MAX_LENGTH = 32;
+
+/**
+ * A tag and the number of links that carry it.
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Normalizes a tag for storage and comparison.
+ *
+ * @param tag - Raw tag as typed by the user
+ * @returns The normalized tag, or an empty string if nothing is left
+ *
+ * @example
+ * ```typescript
+ * normalizeTag('  #Leitura  Semanal '); // 'leitura semanal'
+ * ```
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+    .slice(0, TAG_MAX_LENGTH);
+}
+
+/**
+ * Normalizes a list of tags, dropping empty and repeated ones.
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const result: string[] = [];
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag);
+    if (normalized !== '' && !result.includes(normalized)) {
+      result.push(normalized);
+    }
+  }
+  return result;
+}
+
+/**
+ * Counts how many links carry each tag.
+ *
+ * @returns Tags sorted by count (most used first), then alphabetically
+ */
+export function getTagCounts(links: Link[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const link of links) {
+    for (const tag of link.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Returns the links that carry the given tag.
+ */
+export function filterLinksByTag(links: Link[], tag: string): Link[] {
+  return links.filter((link) => link.tags?.includes(tag) === true);
+}
+
+/**
+ * Suggests existing tags for a partially typed tag.
+ * Tags starting with the input come first, then tags containing it.
+ *
+ * @param input - What the user has typed so far
+ * @param tags - Existing tags, e.g. from {@link getTagCounts}
+ * @param exclude - Tags already on the link
+ * @param limit - Maximum number of suggestions
+ */
+export function suggestTags(input: string, tags: string[], exclude: string[] = [], limit = 5): string[] {
+  const query = normalizeTag(input);
+  const candidates = tags.filter((tag) => !exclude.includes(tag));
+  if (query === '') {
+    return candidates.slice(0, limit);
+  }
+  const prefixed = candidates.filter((tag) => tag.startsWith(query));
+  const containing = candidates.filter((tag) => !tag.startsWith(query) && tag.includes(query));
+  return [...prefixed, ...containing].slice(0, limit);
+}
@@ -75,6 +75,40 @@ export interface Link {
    * Optional - may not be available for all pages.
    */
   favicon?: string;
+
+  /**
+   * Free-form labels that group links across collections and workspaces.
+   * Stored normalized (see `normalizeTag` in tags.ts); missing on links saved
+   * before tags existed.
+   */
+  tags?: string[];
+
+  /**
+   * Free-text annotation explaining why the link was saved.
+   * Supports **bold**, *italic*, `code` and bare URLs (see notes.ts).
+   * Limited to NOTE_MAX_LENGTH characters; absent when empty.
+   */
+  note?: string;
+
+  /**
+   * Unix timestamp (milliseconds) until which the link is snoozed.
+   * Snoozed links are hidden from collections and come back to the top of
+   * their collection when this time passes (see snooze.ts).
+   */
+  snoozedUntil?: number;
+
+  /**
+   * Unix timestamp (milliseconds) when the link was archived.
+   * Archived links are kept but hidden from collections.
+   */
+  archivedAt?: number;
+
+  /**
+   * Unix timestamp (milliseconds) when the link was last brought back to the
+   * top without being saved again, e.g. when it woke from snooze.
+   * Lists order links by it when set, so `createdAt` keeps the saved date.
+   */
+  bumpedAt?: number;
 }
 
 /**
@@ -136,6 +170,24 @@ export interface Collection {
    * undefined for Inbox (global), 'general' for default workspace, or UUID for others.
    */
   workspaceId?: string;
+
+  /**
+   * Unix timestamp (milliseconds) when the collection was archived.
+   * Archived collections and their links are hidden from the Kanban.
+   */
+  archivedAt?: number;
+
+  /**
+   * Marks a smart collection: it holds no links of its own and lists the
+   * links matching {@link smartQuery} instead, so links can't be moved into it.
+   */
+  isSmart?: boolean;
+
+  /**
+   * Saved search query (see search.ts) listed by a smart collection.
+   * Only set when isSmart is true.
+   */
+  smartQuery?: string;
 }
 
 /**
@@ -176,6 +228,19 @@ export function isInboxCollection(collection: Collection): collection is InboxCo
   return collection.id === INBOX_COLLECTION_ID;
 }
 
+/**
+ * Sort comparator listing links most recent first, by `bumpedAt` when set
+ * and `createdAt` otherwise.
+ *
+ * @example
+ * ```typescript
+ * const sorted = [...links].sort(compareLinksByRecency);
+ * ```
+ */
+export function compareLinksByRecency(a: Link, b: Link): number {
+  return (b.bumpedAt ?? b.createdAt) - (a.bumpedAt ?? a.createdAt);
+}
+
 /**
  * Generates a unique identifier using the native crypto API.
  *
@@ -274,16 +339,156 @@ export interface Settings {
    * Used to show the onboarding modal on first access.
    */
   onboardingCompleted: boolean;
+
+  /**
+   * Number of days items stay in the trash before being purged.
+   */
+  trashRetentionDays: number;
+
+  /**
+   * Rules that archive, move or trash links once they reach a given age.
+   * Evaluated periodically by the service worker (see expiry.ts).
+   */
+  expiryRules: ExpiryRule[];
+
+  /**
+   * Whether the `#fragment` counts when comparing URLs for duplicates.
+   * Off by default; useful for single-page apps that route on the fragment.
+   */
+  keepUrlFragments: boolean;
+
+  /**
+   * What the number on the toolbar icon counts.
+   */
+  badgeCount: BadgeCountMode;
+
+  /**
+   * Rules that file new links into collections instead of the Inbox.
+   * Evaluated when a link is saved (see routing.ts).
+   */
+  routingRules: RoutingRule[];
 }
 
+/**
+ * Links counted by the toolbar badge: unprocessed Inbox links, every active
+ * link, stale links (see expiry.ts), or none to hide the counter.
+ */
+export type BadgeCountMode = 'inbox' | 'all' | 'stale' | 'none';
+
 /**
  * Default settings for new installations.
  */
 export const DEFAULT_SETTINGS: Settings = {
   newtabEnabled: true,
   onboardingCompleted: false,
+  trashRetentionDays: 30,
+  expiryRules: [],
+  keepUrlFragments: false,
+  badgeCount: 'inbox',
+  routingRules: [],
 };
 
+// Expiry types
+
+/**
+ * What happens to a link when it expires.
+ */
+export type ExpiryAction = 'archive' | 'move' | 'trash';
+
+/**
+ * A stale-link cleanup rule, e.g. "Inbox links older than 14 days go to the
+ * trash".
+ */
+export interface ExpiryRule {
+  id: string;
+  /** Collection the rule applies to, or null for every collection without its own rule */
+  collectionId: string | null;
+  /** Age in days (from {@link Link.createdAt}) after which a link expires */
+  maxAgeDays: number;
+  action: ExpiryAction;
+  /** Destination collection when action is 'move' */
+  targetCollectionId?: string;
+  enabled: boolean;
+}
+
+// Routing types
+
+/**
+ * What a routing condition checks: the link's domain (subdomains included),
+ * its URL against a `*` wildcard pattern, its title against a regular
+ * expression, or the title of the tab group it was saved from.
+ */
+export type RoutingConditionType = 'domain' | 'urlPattern' | 'titleRegex' | 'tabGroup';
+
+/**
+ * A single test of a routing rule, e.g. "domain is github.com".
+ */
+export interface RoutingCondition {
+  type: RoutingConditionType;
+  value: string;
+}
+
+/**
+ * An auto-routing rule, e.g. "github.com links go to Dev, tagged #code".
+ * A link headed for the Inbox is filed by the first enabled rule whose
+ * conditions all match.
+ */
+export interface RoutingRule {
+  id: string;
+  /** Label shown in settings */
+  name: string;
+  conditions: RoutingCondition[];
+  /**
+   * Collection to file the link into, which also sets its workspace.
+   * Without one the link stays in the Inbox and only gets the tags.
+   */
+  collectionId?: string;
+  /**
+   * Workspace to file the link into when no collection is set. The Inbox is
+   * shared by every workspace, so the link goes to the workspace's first
+   * collection instead.
+   */
+  workspaceId?: string;
+  /** Tags added to the link */
+  tags: string[];
+  enabled: boolean;
+}
+
+// Trash types
+
+/**
+ * A link removed by the user, kept in the trash until restored or purged.
+ * The embedded link keeps its original `collectionId`.
+ */
+export interface TrashedLink {
+  /** Same as the trashed link's id */
+  id: string;
+  type: 'link';
+  link: Link;
+  /** Unix timestamp (milliseconds) when the item was moved to the trash */
+  deletedAt: number;
+}
+
+/**
+ * A deleted collection, kept in the trash until restored or purged.
+ * The embedded collection keeps its original `workspaceId` and `order`.
+ */
+export interface TrashedCollection {
+  /** Same as the trashed collection's id */
+  id: string;
+  type: 'collection';
+  collection: Collection;
+  /** IDs of the links that were moved to Inbox when the collection was deleted */
+  linkIds: string[];
+  /** Unix timestamp (milliseconds) when the item was moved to the trash */
+  deletedAt: number;
+}
+
+/**
+ * An item in the trash.
+ */
+export type TrashItem = TrashedLink | TrashedCollection;
+
 // Workspace types
 
 /**
@@ -0,0 +1,201 @@
+/**
+ * URL canonicalization and duplicate detection.
+ *
+ * Two saved links point to the same page when their canonical URLs match.
+ * Canonicalization lowercases the host, drops default ports, tracking
+ * parameters (`utm_*`, `fbclid`, ...) and trailing slashes, sorts the
+ * remaining query parameters and, unless configured otherwise, drops the
+ * fragment. URLs that can't be parsed are compared as typed.
+ *
+ * @module urlCanonical
+ */
+
+import type { Collection, Link, Settings } from './types';
+import { NOTE_MAX_LENGTH } from './validation';
+
+/**
+ * Query parameters that only track where a visit came from.
+ */
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'ref_src',
+  'ref_url',
+]);
+
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_'];
+
+/**
+ * Canonicalization options.
+ */
+export interface CanonicalizeOptions {
+  /** Keep the `#fragment` part, e.g. for single-page apps that route on it */
+  keepFragment?: boolean;
+}
+
+/**
+ * Reads the canonicalization options from the user settings.
+ */
+export function getCanonicalizeOptions(settings: Pick<Settings, 'keepUrlFragments'>): CanonicalizeOptions {
+  return { keepFragment: settings.keepUrlFragments === true };
+}
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.has(lower) || TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix));
+}
+
+/**
+ * Returns the canonical form of a URL, used to compare saved links.
+ *
+ * @param url - The URL as saved
+ * @param options - Canonicalization options
+ *
+ * @example
+ * ```typescript
+ * canonicalizeUrl('HTTPS://Example.com:443/post/?utm_source=x&b=2&a=1#top');
+ * // 'https://example.com/post?a=1&b=2'
+ * ```
+ */
+export function canonicalizeUrl(url: string, options: CanonicalizeOptions = {}): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  // The URL parser already lowercases scheme and host and drops default ports
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  if (options.keepFragment !== true || parsed.hash === '#') {
+    parsed.hash = '';
+  }
+
+  const canonical = parsed.toString();
+  // A bare origin serializes with a trailing slash ("https://a.com/")
+  return parsed.pathname === '/' && parsed.search === '' && parsed.hash === ''
+    ? canonical.replace(/\/$/, '')
+    : canonical;
+}
+
+/**
+ * Finds a saved link pointing to the same page as a URL.
+ *
+ * @param url - The URL about to be saved
+ * @param links - All saved links
+ * @param options - Canonicalization options
+ */
+export function findSavedLink(url: string, links: Link[], options: CanonicalizeOptions = {}): Link | undefined {
+  const canonical = canonicalizeUrl(url, options);
+  return links.find((link) => canonicalizeUrl(link.url, options) === canonical);
+}
+
+/**
+ * Builds the "já salvo em <coleção>" warning for a URL, or null if it isn't
+ * saved yet.
+ *
+ * @param url - The URL about to be saved
+ * @param links - All saved links
+ * @param collections - All collections, to name where the link is
+ * @param options - Canonicalization options
+ */
+export function getAlreadySavedMessage(
+  url: string,
+  links: Link[],
+  collections: Collection[],
+  options: CanonicalizeOptions = {}
+): string | null {
+  const saved = findSavedLink(url, links, options);
+  if (saved === undefined) {
+    return null;
+  }
+  if (saved.archivedAt !== undefined) {
+    return 'Já salvo no arquivo';
+  }
+  const collection = collections.find((c) => c.id === saved.collectionId);
+  return `Já salvo em ${collection?.name ?? 'outra coleção'}`;
+}
+
+/**
+ * Links sharing the same canonical URL.
+ */
+export interface DuplicateGroup {
+  canonicalUrl: string;
+  /** Most recently saved first; the first one is kept when merging */
+  links: Link[];
+}
+
+/**
+ * Groups the links that point to the same page. Only groups with more than
+ * one link are returned, largest first.
+ *
+ * @param links - All saved links
+ * @param options - Canonicalization options
+ */
+export function findDuplicateGroups(links: Link[], options: CanonicalizeOptions = {}): DuplicateGroup[] {
+  const groups = new Map<string, Link[]>();
+  for (const link of links) {
+    const canonical = canonicalizeUrl(link.url, options);
+    groups.set(canonical, [...(groups.get(canonical) ?? []), link]);
+  }
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([canonicalUrl, group]) => ({
+      canonicalUrl,
+      links: [...group].sort((a, b) => b.createdAt - a.createdAt),
+    }))
+    .sort((a, b) => b.links.length - a.links.length);
+}
+
+/**
+ * Merges duplicates into the link that is kept: tags are combined, distinct
+ * notes are joined and a missing favicon is filled in. The kept link stays
+ * active if any of the duplicates is.
+ *
+ * @param keep - The link that survives
+ * @param duplicates - The links merged into it
+ * @returns The merged link
+ */
+export function mergeDuplicateLinks(keep: Link, duplicates: Link[]): Link {
+  const all = [keep, ...duplicates];
+  const merged: Link = { ...keep };
+
+  const tags = [...new Set(all.flatMap((link) => link.tags ?? []))];
+  if (tags.length > 0) {
+    merged.tags = tags;
+  }
+
+  const notes = [...new Set(all.map((link) => link.note?.trim() ?? '').filter((note) => note !== ''))];
+  if (notes.length > 0) {
+    merged.note = notes.join('\n\n').slice(0, NOTE_MAX_LENGTH);
+  }
+
+  merged.favicon = all.find((link) => link.favicon !== undefined)?.favicon;
+  if (merged.favicon === undefined) {
+    delete merged.favicon;
+  }
+
+  if (merged.archivedAt !== undefined && duplicates.some((link) => link.archivedAt === undefined)) {
+    delete merged.archivedAt;
+  }
+  return merged;
+}
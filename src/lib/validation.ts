@@ -5,8 +5,9 @@
  * @module validation
  */
 
-import type { Collection, Workspace } from './types';
+import type { Collection, RoutingCondition, Workspace } from './types';
 import { WORKSPACE_LIMIT, DEFAULT_WORKSPACE_ID, isValidHexColor } from './types';
+import { isEmptySearchQuery, parseSearchQuery } from './search';
 
 /**
  * Result of a validation operation.
@@ -282,3 +283,96 @@ export function validateWorkspaceRename(
 
   return { valid: true };
 }
+
+// Link note validation
+
+/**
+ * Maximum length for a link note.
+ */
+export const NOTE_MAX_LENGTH = 1000;
+
+/**
+ * Error messages for link note validation.
+ */
+export const NOTE_ERRORS = {
+  TOO_LONG: `A nota deve ter no máximo ${NOTE_MAX_LENGTH} caracteres`,
+} as const;
+
+/**
+ * Validates a link note. Empty notes are valid and clear the note.
+ *
+ * @param note - The note to validate
+ * @returns ValidationResult with valid status and optional error message
+ */
+export function validateNote(note: string): ValidationResult {
+  if (note.trim().length > NOTE_MAX_LENGTH) {
+    return {
+      valid: false,
+      error: NOTE_ERRORS.TOO_LONG,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Error messages for smart collection query validation.
+ */
+export const SMART_QUERY_ERRORS = {
+  EMPTY: 'A busca da coleção inteligente não pode estar vazia',
+} as const;
+
+/**
+ * Validates the search query of a smart collection. It must have at least
+ * one word, phrase or operator, otherwise it would list every link.
+ *
+ * @param query - The search query to validate
+ * @returns ValidationResult with valid status and optional error message
+ */
+export function validateSmartQuery(query: string): ValidationResult {
+  if (isEmptySearchQuery(parseSearchQuery(query))) {
+    return {
+      valid: false,
+      error: SMART_QUERY_ERRORS.EMPTY,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Error messages for routing condition validation.
+ */
+export const ROUTING_CONDITION_ERRORS = {
+  EMPTY: 'Preencha o valor da condição',
+  INVALID_REGEX: 'Expressão regular inválida',
+} as const;
+
+/**
+ * Validates a routing rule condition: the value can't be empty, and a title
+ * condition must be a valid regular expression.
+ *
+ * @param condition - The condition to validate
+ * @returns ValidationResult with valid status and optional error message
+ */
+export function validateRoutingCondition(condition: RoutingCondition): ValidationResult {
+  if (condition.value.trim() === '') {
+    return {
+      valid: false,
+      error: ROUTING_CONDITION_ERRORS.EMPTY,
+    };
+  }
+
+  if (condition.type === 'titleRegex') {
+    try {
+      new RegExp(condition.value, 'i');
+    } catch {
+      return {
+        valid: false,
+        error: ROUTING_CONDITION_ERRORS.INVALID_REGEX,
+      };
+    }
+  }
+
+  return { valid: true };
+}
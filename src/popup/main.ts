@@ -1,4 +1,8 @@
 import App from './App.svelte';
+import { enableIndexedDBStorage } from '@/lib/indexedDBStorage';
+
+// Stores queue their storage calls until the backend is ready
+void enableIndexedDBStorage();
 
 let app: App | null = null;
 
@@ -16,6 +16,12 @@ import { DEFAULT_WORKSPACE_ID, WORKSPACE_COLORS } from '@/lib/types';
 vi.mock('@/lib/storage', () => ({
   getLinks: vi.fn(() => Promise.resolve([])),
   saveLinks: vi.fn(() => Promise.resolve()),
+  addLink: vi.fn((input: { url: string; title: string; collectionId?: string }) =>
+    Promise.resolve({ collectionId: 'inbox', ...input, id: crypto.randomUUID(), createdAt: Date.now() })
+  ),
+  addLinks: vi.fn(() => Promise.resolve([])),
+  addOrBumpLink: vi.fn(() => Promise.resolve({ link: { id: 'saved', url: '', title: '', collectionId: 'inbox', createdAt: 0 }, bumped: false })),
+  trashLinks: vi.fn(() => Promise.resolve()),
   getCollections: vi.fn(() => Promise.resolve([])),
   saveCollections: vi.fn(() => Promise.resolve()),
   initializeInbox: vi.fn(() => Promise.resolve()),
@@ -24,10 +30,27 @@ vi.mock('@/lib/storage', () => ({
   renameCollection: vi.fn(() => Promise.resolve({ success: true })),
   moveLink: vi.fn(() => Promise.resolve({ success: true })),
   updateCollectionOrder: vi.fn(() => Promise.resolve({ success: true })),
+  setLinkTags: vi.fn(() => Promise.resolve({ success: true, updatedCount: 1 })),
+  renameTag: vi.fn(() => Promise.resolve({ success: true, updatedCount: 0 })),
+  mergeTags: vi.fn(() => Promise.resolve({ success: true, updatedCount: 0 })),
+  deleteTag: vi.fn(() => Promise.resolve({ success: true, updatedCount: 0 })),
+  setLinkNote: vi.fn(() => Promise.resolve({ success: true })),
+  snoozeLink: vi.fn(() => Promise.resolve({ success: true })),
+  unsnoozeLink: vi.fn(() => Promise.resolve({ success: true })),
+  archiveLink: vi.fn(() => Promise.resolve({ success: true })),
+  archiveLinks: vi.fn(() => Promise.resolve({ success: true })),
+  unarchiveLink: vi.fn(() => Promise.resolve({ success: true })),
+  archiveCollection: vi.fn(() => Promise.resolve({ success: true })),
+  unarchiveCollection: vi.fn(() => Promise.resolve({ success: true })),
+  mergeDuplicates: vi.fn(() => Promise.resolve({ success: true })),
+  applyRoutingRulesToInbox: vi.fn(() => Promise.resolve({ success: true, routedCount: 0 })),
+  getSettings: vi.fn(() => Promise.resolve({})),
+  updateSettings: vi.fn(() => Promise.resolve({})),
   getWorkspaces: vi.fn(() => Promise.resolve([])),
   saveWorkspaces: vi.fn(() => Promise.resolve()),
   migrateToWorkspaces: vi.fn(() => Promise.resolve()),
   initializeDefaultWorkspace: vi.fn(() => Promise.resolve()),
+  saveActiveWorkspaceId: vi.fn(() => Promise.resolve()),
   storage: {
     watch: vi.fn(() => () => {}),
   },
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for ArchiveModal component.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/svelte';
+import ArchiveModal from '@/newtab/components/ArchiveModal.svelte';
+import { isTextEntryElement } from '@/lib/keyboard';
+
+// Stands in for the dashboard's "/" shortcut, which moves focus to the search
+// unless a text field has focus
+function searchShortcut(event: KeyboardEvent): void {
+  if (event.key === '/' && !isTextEntryElement(document.activeElement)) {
+    event.preventDefault();
+  }
+}
+
+describe('ArchiveModal', () => {
+  beforeEach(() => {
+    window.addEventListener('keydown', searchShortcut);
+  });
+
+  afterEach(() => {
+    window.removeEventListener('keydown', searchShortcut);
+    cleanup();
+  });
+
+  it('should let slashes be typed into the archive search', async () => {
+    render(ArchiveModal);
+    const input = screen.getByLabelText<HTMLInputElement>('Buscar no arquivo');
+
+    input.focus();
+    expect(await fireEvent.keyDown(input, { key: '/' })).toBe(true);
+  });
+});
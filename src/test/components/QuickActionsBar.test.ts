@@ -0,0 +1,46 @@
+/**
+ * Unit tests for QuickActionsBar component.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/svelte';
+import QuickActionsBar from '@/newtab/components/QuickActionsBar.svelte';
+import { linksStore } from '@/lib/stores/links';
+import { isTextEntryElement } from '@/lib/keyboard';
+
+// Stands in for the dashboard's "/" shortcut, which moves focus to the search
+// unless a text field has focus
+function searchShortcut(event: KeyboardEvent): void {
+  if (event.key === '/' && !isTextEntryElement(document.activeElement)) {
+    event.preventDefault();
+  }
+}
+
+describe('QuickActionsBar', () => {
+  beforeEach(() => {
+    linksStore.set({
+      links: [{ id: 'link-1', url: 'https://example.com', title: 'Example', collectionId: 'inbox', createdAt: 1000, tags: ['docs'] }],
+      collections: [{ id: 'inbox', name: 'Inbox', order: 0 }],
+      loading: false,
+      error: null,
+      isAdding: false,
+      isRemoving: new Set(),
+      pendingLocalUpdate: false,
+    });
+    window.addEventListener('keydown', searchShortcut);
+  });
+
+  afterEach(() => {
+    window.removeEventListener('keydown', searchShortcut);
+    cleanup();
+  });
+
+  it('should let slashes be typed into a tag being renamed', async () => {
+    render(QuickActionsBar);
+    await fireEvent.click(screen.getByLabelText('Tags'));
+    await fireEvent.click(screen.getByLabelText('Renomear tag docs'));
+    const input = screen.getByLabelText<HTMLInputElement>('Novo nome da tag');
+
+    input.focus();
+    expect(await fireEvent.keyDown(input, { key: '/' })).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for RoutingRulesEditor component.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/svelte';
+import { get } from 'svelte/store';
+import RoutingRulesEditor from '@/newtab/components/RoutingRulesEditor.svelte';
+import { settingsStore } from '@/lib/stores/settings';
+import { linksStore } from '@/lib/stores/links';
+import { workspacesStore } from '@/lib/stores/workspaces';
+import { isTextEntryElement } from '@/lib/keyboard';
+import { DEFAULT_SETTINGS, DEFAULT_WORKSPACE_ID, WORKSPACE_COLORS } from '@/lib/types';
+import type { RoutingRule } from '@/lib/types';
+
+const rule: RoutingRule = {
+  id: 'rule-1',
+  name: 'Docs',
+  conditions: [{ type: 'urlPattern', value: '' }],
+  tags: [],
+  enabled: true,
+};
+
+// Stands in for the dashboard's "/" shortcut, which moves focus to the search
+// unless a text field has focus
+function searchShortcut(event: KeyboardEvent): void {
+  if (event.key === '/' && !isTextEntryElement(document.activeElement)) {
+    event.preventDefault();
+  }
+}
+
+async function typeText(input: HTMLInputElement, text: string): Promise<void> {
+  input.focus();
+  for (const key of text) {
+    // A prevented keydown would keep the character out of the field
+    if (await fireEvent.keyDown(input, { key })) {
+      input.value += key;
+      await fireEvent.input(input);
+    }
+  }
+  await fireEvent.change(input);
+}
+
+describe('RoutingRulesEditor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    settingsStore.set({ settings: { ...DEFAULT_SETTINGS, routingRules: [rule] }, loading: false, error: null });
+    window.addEventListener('keydown', searchShortcut);
+  });
+
+  afterEach(() => {
+    window.removeEventListener('keydown', searchShortcut);
+    cleanup();
+  });
+
+  it('should let slashes be typed into a URL pattern', async () => {
+    render(RoutingRulesEditor);
+
+    await typeText(screen.getByLabelText<HTMLInputElement>('Valor da condição'), 'https://*.google.com/document/*');
+
+    await waitFor(() =>
+      expect(get(settingsStore).settings.routingRules[0].conditions[0].value).toBe('https://*.google.com/document/*')
+    );
+  });
+
+  it('should let slashes be typed into the test URL', async () => {
+    render(RoutingRulesEditor);
+    const input = screen.getByLabelText<HTMLInputElement>('URL de teste');
+
+    await typeText(input, 'https://example.com/a');
+
+    expect(input.value).toBe('https://example.com/a');
+  });
+
+  it('should send links to another workspace', async () => {
+    workspacesStore.set({
+      workspaces: [
+        { id: DEFAULT_WORKSPACE_ID, name: 'Geral', color: WORKSPACE_COLORS[0], order: 0, createdAt: 1, isDefault: true },
+        { id: 'home', name: 'Casa', color: WORKSPACE_COLORS[1], order: 1, createdAt: 1 },
+      ],
+      activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      loading: false,
+      error: null,
+      pendingLocalUpdate: false,
+    });
+    linksStore.set({
+      links: [],
+      collections: [
+        { id: 'inbox', name: 'Inbox', order: 0 },
+        { id: 'dev', name: 'Dev', order: 1, workspaceId: DEFAULT_WORKSPACE_ID },
+        { id: 'read', name: 'Leitura', order: 2, workspaceId: 'home' },
+      ],
+      loading: false,
+      error: null,
+      isAdding: false,
+      isRemoving: new Set(),
+      pendingLocalUpdate: false,
+    });
+    settingsStore.set({
+      settings: { ...DEFAULT_SETTINGS, routingRules: [{ ...rule, collectionId: 'dev' }] },
+      loading: false,
+      error: null,
+    });
+    render(RoutingRulesEditor);
+
+    await fireEvent.change(screen.getByLabelText('Workspace de destino'), { target: { value: 'home' } });
+
+    await waitFor(() =>
+      expect(get(settingsStore).settings.routingRules[0]).toMatchObject({ workspaceId: 'home', collectionId: undefined })
+    );
+    const options = [...screen.getByLabelText<HTMLSelectElement>('Coleção de destino').options].map((o) => o.text);
+    expect(options).toEqual(['Primeira coleção', 'Leitura']);
+  });
+});
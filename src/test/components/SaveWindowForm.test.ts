@@ -0,0 +1,36 @@
+/**
+ * Unit tests for SaveWindowForm component.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/svelte';
+import SaveWindowForm from '@/shared/components/SaveWindowForm.svelte';
+import { isTextEntryElement } from '@/lib/keyboard';
+
+// Stands in for the dashboard's "/" shortcut, which moves focus to the search
+// unless a text field has focus
+function searchShortcut(event: KeyboardEvent): void {
+  if (event.key === '/' && !isTextEntryElement(document.activeElement)) {
+    event.preventDefault();
+  }
+}
+
+describe('SaveWindowForm', () => {
+  beforeEach(() => {
+    window.addEventListener('keydown', searchShortcut);
+  });
+
+  afterEach(() => {
+    window.removeEventListener('keydown', searchShortcut);
+    cleanup();
+  });
+
+  it('should let slashes be typed into the window name', async () => {
+    render(SaveWindowForm);
+    const input = screen.getByLabelText<HTMLInputElement>('Salvar janela como');
+
+    // The default name holds the date, e.g. "Janela 19/10 11:07"
+    expect(input.value).toContain('/');
+    input.focus();
+    expect(await fireEvent.keyDown(input, { key: '/' })).toBe(true);
+  });
+});
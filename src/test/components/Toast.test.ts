@@ -52,4 +52,21 @@ describe('Toast Component', () => {
     // Verify the onClose callback is called, which triggers the visibility change
     expect(onClose).toHaveBeenCalledTimes(1);
   });
+
+  it('should render an action button and dismiss after running the action', async () => {
+    const onAction = vi.fn();
+    const onClose = vi.fn();
+    render(Toast, { props: { message: 'Link removido', actionLabel: 'Desfazer', onAction, onClose } });
+
+    await fireEvent.click(screen.getByRole('button', { name: 'Desfazer' }));
+
+    expect(onAction).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not render an action button without actionLabel', () => {
+    render(Toast, { props: { message: 'Test message' } });
+
+    expect(screen.queryByRole('button', { name: 'Desfazer' })).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for archiving links and collections.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import { getActiveLinks, searchArchive } from '@/lib/archive';
+import {
+  archiveCollection,
+  archiveLink,
+  getCollections,
+  getLinks,
+  saveCollections,
+  saveLinks,
+  unarchiveCollection,
+  unarchiveLink,
+} from '@/lib/storage';
+import type { Collection, Link } from '@/lib/types';
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: 'inbox',
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('archive helpers', () => {
+  const collections: Collection[] = [
+    { id: 'inbox', name: 'Inbox', order: 0 },
+    { id: 'col-1', name: 'Leitura', order: 1, archivedAt: 2000 },
+    { id: 'col-2', name: 'Receitas', order: 2 },
+  ];
+  const links = [
+    createMockLink({ id: 'a', title: 'Svelte docs', archivedAt: 1000 }),
+    createMockLink({ id: 'b', title: 'Bolo de cenoura', collectionId: 'col-2', archivedAt: 3000, tags: ['doce'] }),
+    createMockLink({ id: 'c', collectionId: 'col-1' }),
+    createMockLink({ id: 'd' }),
+  ];
+
+  it('should leave archived links and archived collections out of the active links', () => {
+    expect(getActiveLinks(links, collections).map((l) => l.id)).toEqual(['d']);
+  });
+
+  it('should search archived items, most recent first', () => {
+    const all = searchArchive(links, collections);
+    expect(all.links.map((l) => l.id)).toEqual(['b', 'a']);
+    expect(all.collections.map((c) => c.id)).toEqual(['col-1']);
+
+    const byTag = searchArchive(links, collections, 'DOCE');
+    expect(byTag.links.map((l) => l.id)).toEqual(['b']);
+    expect(byTag.collections).toEqual([]);
+
+    expect(searchArchive(links, collections, 'leitura').collections.map((c) => c.id)).toEqual(['col-1']);
+  });
+});
+
+describe('archive storage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveCollections([
+      { id: 'inbox', name: 'Inbox', order: 0, isDefault: true },
+      { id: 'col-1', name: 'Leitura', order: 1 },
+    ]);
+    await saveLinks([
+      createMockLink({ id: 'a', collectionId: 'col-1' }),
+      createMockLink({ id: 'b', collectionId: 'col-1' }),
+    ]);
+  });
+
+  it('should archive and restore a link', async () => {
+    expect(await archiveLink('a')).toEqual({ success: true });
+    expect((await getLinks())[0].archivedAt).toBeDefined();
+    expect((await archiveLink('missing')).success).toBe(false);
+
+    expect(await unarchiveLink('a')).toEqual({ success: true });
+    const [restored] = await getLinks();
+    expect(restored).not.toHaveProperty('archivedAt');
+    expect(restored.collectionId).toBe('col-1');
+    expect((await unarchiveLink('a')).success).toBe(false);
+  });
+
+  it('should restore a link to Inbox when its collection is archived', async () => {
+    await archiveLink('a');
+    await archiveCollection('col-1');
+
+    await unarchiveLink('a');
+
+    expect((await getLinks())[0].collectionId).toBe('inbox');
+  });
+
+  it('should archive and restore a collection but never the Inbox', async () => {
+    expect(await archiveCollection('col-1')).toEqual({ success: true });
+    expect((await getCollections()).find((c) => c.id === 'col-1')?.archivedAt).toBeDefined();
+    expect((await archiveCollection('col-1')).success).toBe(false);
+    expect((await archiveCollection('inbox')).success).toBe(false);
+
+    expect(await unarchiveCollection('col-1')).toEqual({ success: true });
+    expect((await getCollections()).find((c) => c.id === 'col-1')).not.toHaveProperty('archivedAt');
+    // Links keep their collection throughout
+    expect((await getLinks()).every((l) => l.collectionId === 'col-1')).toBe(true);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Unit tests for JSON backup export and import.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  createBackup,
+  serializeBackup,
+  parseBackup,
+  importBackup,
+  getBackupFilename,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  type BackupFile,
+} from '@/lib/backup';
+import {
+  getLinks,
+  saveLinks,
+  getCollections,
+  saveCollections,
+  getWorkspaces,
+  saveWorkspaces,
+  getSettings,
+  createDefaultWorkspace,
+} from '@/lib/storage';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import { withHistory, getHistory, undo } from '@/lib/history';
+import type { Link, Collection, Workspace } from '@/lib/types';
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_WORKSPACE_ID,
+  INBOX_COLLECTION_ID,
+  WORKSPACE_COLORS,
+  WORKSPACE_LIMIT,
+} from '@/lib/types';
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: INBOX_COLLECTION_ID,
+  createdAt: 1000,
+  ...overrides,
+});
+
+const inbox: Collection = { id: INBOX_COLLECTION_ID, name: 'Inbox', order: 0, isDefault: true, createdAt: 1 };
+
+const createWorkspace = (overrides: Partial<Workspace> = {}): Workspace => ({
+  id: 'ws-1',
+  name: 'Work',
+  color: WORKSPACE_COLORS[1],
+  order: 1,
+  createdAt: 1,
+  ...overrides,
+});
+
+function createBackupFile(data: Partial<BackupFile['data']>): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: 0,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: {
+      links: [],
+      collections: [],
+      workspaces: [],
+      settings: { ...DEFAULT_SETTINGS },
+      ...data,
+    },
+  };
+}
+
+describe('Backup', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveWorkspaces([createDefaultWorkspace()]);
+    await saveCollections([inbox, { id: 'col-1', name: 'Reading', order: 1, createdAt: 2, workspaceId: DEFAULT_WORKSPACE_ID }]);
+    await saveLinks([createMockLink()]);
+  });
+
+  describe('export', () => {
+    it('should round-trip through serialize and parse', async () => {
+      const backup = await createBackup();
+      const parsed = parseBackup(serializeBackup(backup));
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.backup?.data.links).toEqual(backup.data.links);
+      expect(parsed.backup?.data.collections).toHaveLength(2);
+    });
+
+    it('should name files by date', () => {
+      expect(getBackupFilename(new Date('2024-03-05T12:00:00Z'))).toBe('tabala-backup-2024-03-05.json');
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should reject invalid JSON and foreign files', () => {
+      expect(parseBackup('{').error).toBe('Arquivo não é um JSON válido');
+      expect(parseBackup('{"links": []}').error).toBe('Arquivo não é um backup do TabAla');
+    });
+
+    it('should reject newer backup versions', () => {
+      const text = JSON.stringify({ ...createBackupFile({}), version: BACKUP_VERSION + 1 });
+      expect(parseBackup(text).success).toBe(false);
+    });
+  });
+
+  describe('importBackup', () => {
+    it('should replace all data', async () => {
+      const backup = createBackupFile({
+        workspaces: [createDefaultWorkspace(), createWorkspace()],
+        collections: [inbox, { id: 'col-9', name: 'Imported', order: 1, workspaceId: 'ws-1' }],
+        links: [createMockLink({ id: 'new', url: 'https://new.com', collectionId: 'col-9' })],
+        settings: { ...DEFAULT_SETTINGS, trashRetentionDays: 7 },
+      });
+
+      const report = await importBackup(backup, 'replace');
+
+      expect(report.success).toBe(true);
+      expect((await getLinks()).map((l) => l.id)).toEqual(['new']);
+      expect((await getCollections()).map((c) => c.id)).toEqual([INBOX_COLLECTION_ID, 'col-9']);
+      expect((await getWorkspaces()).map((w) => w.id)).toEqual([DEFAULT_WORKSPACE_ID, 'ws-1']);
+      expect((await getSettings()).trashRetentionDays).toBe(7);
+    });
+
+    it('should clear the undo history', async () => {
+      await withHistory('Mover link', () => saveLinks([createMockLink({ collectionId: 'col-1' })]));
+      const backup = createBackupFile({
+        collections: [inbox],
+        links: [createMockLink({ id: 'new', url: 'https://new.com' })],
+      });
+
+      await importBackup(backup, 'replace');
+
+      expect(await getHistory()).toEqual({ undo: [], redo: [] });
+      expect((await undo()).success).toBe(false);
+      expect((await getLinks()).map((l) => l.id)).toEqual(['new']);
+    });
+
+    it('should keep links snoozed', async () => {
+      const until = Date.now() + 60 * 60 * 1000;
+      const backup = createBackupFile({
+        collections: [inbox],
+        links: [
+          createMockLink({ id: 'snoozed', snoozedUntil: until }),
+          createMockLink({ id: 'broken', url: 'https://other.com', snoozedUntil: 'tomorrow' as unknown as number }),
+        ],
+      });
+
+      await importBackup(backup, 'replace');
+
+      const links = await getLinks();
+      expect(links.find((l) => l.id === 'snoozed')?.snoozedUntil).toBe(until);
+      expect(links.find((l) => l.id === 'broken')?.snoozedUntil).toBeUndefined();
+    });
+
+    it('should merge by id, skipping existing links', async () => {
+      const backup = createBackupFile({
+        links: [createMockLink(), createMockLink({ id: 'link-2', url: 'https://other.com' })],
+      });
+
+      const report = await importBackup(backup, 'merge-id');
+
+      expect(report.added.links).toBe(1);
+      expect(report.skipped).toEqual([{ type: 'link', label: 'Example Link', reason: 'Já existe' }]);
+      expect(await getLinks()).toHaveLength(2);
+    });
+
+    it('should merge by URL and reuse collections with the same name', async () => {
+      const backup = createBackupFile({
+        collections: [{ id: 'other-id', name: 'reading', order: 1 }],
+        links: [
+          createMockLink({ id: 'dup', url: 'https://example.com' }),
+          createMockLink({ id: 'link-3', url: 'https://third.com', collectionId: 'other-id' }),
+        ],
+      });
+
+      const report = await importBackup(backup, 'merge-url');
+
+      expect(report.added).toEqual({ workspaces: 0, collections: 0, links: 1 });
+      expect(report.skipped[0].reason).toBe('URL já salva');
+      const imported = (await getLinks()).find((l) => l.id === 'link-3');
+      expect(imported?.collectionId).toBe('col-1');
+    });
+
+    it('should compare URLs in canonical form when merging by URL', async () => {
+      const backup = createBackupFile({
+        links: [createMockLink({ id: 'tracked', url: 'https://example.com/?utm_source=newsletter' })],
+      });
+
+      const report = await importBackup(backup, 'merge-url');
+
+      expect(report.added.links).toBe(0);
+      expect(report.skipped).toEqual([{ type: 'link', label: 'Example Link', reason: 'URL já salva' }]);
+      expect(await getLinks()).toHaveLength(1);
+    });
+
+    it('should drop malformed settings when replacing', async () => {
+      const backup = createBackupFile({
+        settings: {
+          ...DEFAULT_SETTINGS,
+          badgeCount: 'everything',
+          trashRetentionDays: -3,
+          unknownField: true,
+          expiryRules: [
+            { id: 'ok', collectionId: null, maxAgeDays: 14, action: 'trash', enabled: true },
+            { id: 'no-age', collectionId: null, maxAgeDays: 'soon', action: 'trash', enabled: true },
+            { id: 'no-target', collectionId: null, maxAgeDays: 14, action: 'move', enabled: true },
+          ],
+          routingRules: [
+            { id: 'ok', name: 'Dev', conditions: [{ type: 'domain', value: 'github.com' }], tags: ['Code'], enabled: true },
+            { id: 'bad-regex', name: 'PRs', conditions: [{ type: 'titleRegex', value: '([' }], tags: [], enabled: true },
+            { id: 'bad-type', name: 'X', conditions: [{ type: 'body', value: 'x' }], tags: [], enabled: true },
+            'not a rule',
+          ],
+        } as unknown as BackupFile['data']['settings'],
+      });
+
+      const report = await importBackup(backup, 'replace');
+
+      expect(report.success).toBe(true);
+      const settings = await getSettings();
+      expect(settings.badgeCount).toBe(DEFAULT_SETTINGS.badgeCount);
+      expect(settings.trashRetentionDays).toBe(DEFAULT_SETTINGS.trashRetentionDays);
+      expect(settings).not.toHaveProperty('unknownField');
+      expect(settings.expiryRules.map((r) => r.id)).toEqual(['ok']);
+      expect(settings.routingRules).toEqual([
+        { id: 'ok', name: 'Dev', conditions: [{ type: 'domain', value: 'github.com' }], collectionId: undefined, tags: ['code'], enabled: true },
+      ]);
+    });
+
+    it('should remap colliding collection IDs and move their links along', async () => {
+      const backup = createBackupFile({
+        collections: [{ id: 'col-1', name: 'Different', order: 1 }],
+        links: [createMockLink({ id: 'link-3', url: 'https://third.com', collectionId: 'col-1' })],
+      });
+
+      await importBackup(backup, 'merge-url');
+
+      const collections = await getCollections();
+      const different = collections.find((c) => c.name === 'Different');
+      expect(different).toBeDefined();
+      expect(different?.id).not.toBe('col-1');
+      expect((await getLinks()).find((l) => l.id === 'link-3')?.collectionId).toBe(different?.id);
+    });
+
+    it('should import only known workspace and collection fields', async () => {
+      const backup = createBackupFile({
+        workspaces: [
+          createDefaultWorkspace(),
+          { ...createWorkspace(), description: '  Trabalho  ', extra: 'x' } as Workspace,
+        ],
+        collections: [
+          inbox,
+          {
+            id: 'col-9',
+            name: 'Imported',
+            order: 1,
+            workspaceId: 'ws-1',
+            color: 'red',
+            archivedAt: 'yesterday',
+            smartQuery: 'tag:x',
+            extra: 'x',
+          } as unknown as Collection,
+        ],
+      });
+
+      await importBackup(backup, 'replace');
+
+      expect((await getWorkspaces()).find((w) => w.id === 'ws-1')).toEqual({
+        ...createWorkspace(),
+        description: 'Trabalho',
+        isDefault: undefined,
+      });
+      expect((await getCollections()).find((c) => c.id === 'col-9')).toEqual({
+        id: 'col-9',
+        name: 'Imported',
+        order: 1,
+        createdAt: expect.any(Number),
+        workspaceId: 'ws-1',
+      });
+    });
+
+    it('should validate smart collection queries', async () => {
+      const backup = createBackupFile({
+        collections: [
+          inbox,
+          { id: 'smart-ok', name: 'Recentes', order: 1, isSmart: true, smartQuery: ' tag:x ' },
+          { id: 'smart-bad', name: 'Vazia', order: 2, isSmart: true, smartQuery: '   ' },
+        ],
+      });
+
+      const report = await importBackup(backup, 'replace');
+
+      const collections = await getCollections();
+      expect(collections.find((c) => c.id === 'smart-ok')).toMatchObject({ isSmart: true, smartQuery: 'tag:x' });
+      expect(collections.some((c) => c.id === 'smart-bad')).toBe(false);
+      expect(report.skipped).toContainEqual(expect.objectContaining({ type: 'collection', label: 'Vazia' }));
+    });
+
+    it('should not merge links into a smart collection with the same name', async () => {
+      await saveCollections([
+        ...(await getCollections()),
+        { id: 'smart', name: 'Later', order: 2, isSmart: true, smartQuery: 'tag:later' },
+      ]);
+      const backup = createBackupFile({
+        collections: [{ id: 'later', name: 'later', order: 1 }],
+        links: [createMockLink({ id: 'link-3', url: 'https://third.com', collectionId: 'later' })],
+      });
+
+      const report = await importBackup(backup, 'merge-url');
+
+      expect(report.added.collections).toBe(1);
+      const collectionId = (await getLinks()).find((l) => l.id === 'link-3')?.collectionId;
+      expect(collectionId).not.toBe('smart');
+      expect((await getCollections()).find((c) => c.id === collectionId)?.isSmart).toBeUndefined();
+    });
+
+    it('should skip invalid items and workspaces over the limit', async () => {
+      const workspaces = Array.from({ length: WORKSPACE_LIMIT + 1 }, (_, i) =>
+        createWorkspace({ id: `ws-${i}`, name: `Workspace ${i}`, order: i })
+      );
+      const backup = createBackupFile({
+        workspaces,
+        collections: [{ id: 'col-x', name: '   ', order: 1 }],
+        links: [createMockLink({ id: 'bad', url: 'javascript:alert(1)' })],
+      });
+
+      const report = await importBackup(backup, 'merge-id');
+
+      expect(await getWorkspaces()).toHaveLength(WORKSPACE_LIMIT);
+      expect(report.skipped.filter((s) => s.type === 'workspace')).toHaveLength(2);
+      expect(report.skipped).toContainEqual({ type: 'link', label: 'Example Link', reason: 'URL inválida' });
+      expect(report.skipped.some((s) => s.type === 'collection')).toBe(true);
+    });
+  });
+});
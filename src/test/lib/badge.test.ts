@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the toolbar badge.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  BADGE_COLORS,
+  BADGE_FLASH_MS,
+  SAVED_BADGE_TEXT,
+  flashBadge,
+  formatBadgeCount,
+  getBadgeCount,
+  getBadgeState,
+  setBadge,
+} from '@/lib/badge';
+import type { Collection, ExpiryRule, Link } from '@/lib/types';
+
+const NOW = 100 * 24 * 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+const link = (id: string, overrides: Partial<Link> = {}): Link => ({
+  id,
+  url: `https://${id}.com`,
+  title: id,
+  collectionId: 'inbox',
+  createdAt: NOW,
+  ...overrides,
+});
+
+const collections: Collection[] = [
+  { id: 'inbox', name: 'Inbox', order: 0 },
+  { id: 'work', name: 'Trabalho', order: 1 },
+  { id: 'done', name: 'Feitos', order: 2, archivedAt: 1 },
+];
+
+const links = [
+  link('new'),
+  link('old', { createdAt: NOW - 30 * DAY }),
+  link('snoozed', { snoozedUntil: NOW + DAY }),
+  link('archived', { archivedAt: 1 }),
+  link('work', { collectionId: 'work' }),
+  link('done', { collectionId: 'done' }),
+];
+
+const rules: ExpiryRule[] = [{ id: 'r1', collectionId: 'inbox', maxAgeDays: 14, action: 'archive', enabled: true }];
+
+describe('badge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count active links by the configured mode', () => {
+    const count = (badgeCount: 'inbox' | 'all' | 'stale' | 'none'): number =>
+      getBadgeCount(links, collections, { badgeCount, expiryRules: rules }, NOW);
+
+    expect(count('inbox')).toBe(2);
+    expect(count('all')).toBe(3);
+    expect(count('stale')).toBe(1);
+    expect(count('none')).toBe(0);
+  });
+
+  it('should format counts and mark tabs that are already saved', () => {
+    expect(formatBadgeCount(0)).toBe('');
+    expect(formatBadgeCount(42)).toBe('42');
+    expect(formatBadgeCount(250)).toBe('99+');
+
+    expect(getBadgeState(3, false)).toEqual({ text: '3', color: BADGE_COLORS.count });
+    expect(getBadgeState(3, true)).toEqual({ text: SAVED_BADGE_TEXT, color: BADGE_COLORS.saved });
+  });
+
+  it('should restore the steady badge after a flash, keeping updates made meanwhile', async () => {
+    vi.useFakeTimers();
+    await setBadge({ text: '5', color: BADGE_COLORS.count });
+
+    await flashBadge('✓');
+    expect(chrome.action.setBadgeText).toHaveBeenLastCalledWith({ text: '✓' });
+
+    await setBadge({ text: '6', color: BADGE_COLORS.count });
+    expect(chrome.action.setBadgeText).toHaveBeenLastCalledWith({ text: '✓' });
+
+    await vi.advanceTimersByTimeAsync(BADGE_FLASH_MS);
+    expect(chrome.action.setBadgeText).toHaveBeenLastCalledWith({ text: '6' });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the command palette matching and action registry.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import {
+  fuzzyScore,
+  getPaletteActions,
+  rankPaletteItems,
+  registerPaletteActions,
+  type PaletteItem,
+} from '@/lib/commandPalette';
+
+const item = (id: string, kind: PaletteItem['kind'], title: string, extra: Partial<PaletteItem> = {}): PaletteItem => ({
+  id,
+  kind,
+  title,
+  run: vi.fn(),
+  ...extra,
+});
+
+describe('command palette', () => {
+  it('should fuzzy-match characters in order, ignoring case and accents', () => {
+    expect(fuzzyScore('cfg', 'Abrir configurações')).not.toBeNull();
+    expect(fuzzyScore('CONFIGURACOES', 'Abrir configurações')).not.toBeNull();
+    expect(fuzzyScore('gfc', 'Abrir configurações')).toBeNull();
+  });
+
+  it('should prefer prefixes and word starts over scattered matches', () => {
+    const prefix = fuzzyScore('nov', 'Nova coleção') ?? 0;
+    const wordStart = fuzzyScore('col', 'Nova coleção') ?? 0;
+    const scattered = fuzzyScore('nao', 'Nova coleção') ?? 0;
+
+    expect(prefix).toBeGreaterThan(wordStart);
+    expect(wordStart).toBeGreaterThan(scattered);
+  });
+
+  it('should rank by score, then list actions before other kinds', () => {
+    const items = [
+      item('link:1', 'link', 'Trabalho remoto'),
+      item('ws:1', 'workspace', 'Trabalho'),
+      item('action:settings', 'action', 'Abrir configurações'),
+      item('tab:1', 'tab', 'GitHub', { subtitle: 'github.com' }),
+    ];
+
+    expect(rankPaletteItems(items, 'trab').map((m) => m.item.id)).toEqual(['ws:1', 'link:1']);
+    expect(rankPaletteItems(items, 'github.com').map((m) => m.item.id)).toEqual(['tab:1']);
+    expect(rankPaletteItems(items, '').map((m) => m.item.id)).toEqual([
+      'action:settings',
+      'ws:1',
+      'link:1',
+      'tab:1',
+    ]);
+  });
+
+  it('should register actions until they unregister themselves', () => {
+    const unregister = registerPaletteActions([{ id: 'export', title: 'Exportar backup', run: vi.fn() }]);
+
+    expect(getPaletteActions()).toEqual([expect.objectContaining({ id: 'export', kind: 'action' })]);
+
+    unregister();
+    expect(getPaletteActions()).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for the global keyboard shortcuts.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { COMMANDS, SHORTCUTS_SETTINGS_URL, getCommandShortcuts, openShortcutSettings } from '@/lib/commands';
+
+describe('commands', () => {
+  const getAllMock = vi.mocked(chrome.commands.getAll as () => Promise<chrome.commands.Command[]>);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list our commands in declaration order, leaving out the popup action', async () => {
+    getAllMock.mockResolvedValueOnce([
+      { name: COMMANDS.openDashboard, description: 'Abrir o dashboard', shortcut: 'Alt+Shift+D' },
+      { name: '_execute_action', description: '', shortcut: '' },
+      { name: COMMANDS.saveTab, description: 'Salvar a aba atual na Inbox', shortcut: 'Alt+Shift+A' },
+      // Chrome reports unassigned shortcuts as an empty string
+      { name: COMMANDS.saveWindow, description: 'Salvar todas as abas da janela como coleção', shortcut: '' },
+    ]);
+
+    const shortcuts = await getCommandShortcuts();
+
+    expect(shortcuts).toEqual([
+      { name: COMMANDS.saveTab, description: 'Salvar a aba atual na Inbox', shortcut: 'Alt+Shift+A' },
+      { name: COMMANDS.saveWindow, description: 'Salvar todas as abas da janela como coleção', shortcut: '' },
+      { name: COMMANDS.openDashboard, description: 'Abrir o dashboard', shortcut: 'Alt+Shift+D' },
+    ]);
+  });
+
+  it('should return an empty list when the commands API fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    getAllMock.mockRejectedValueOnce(new Error('unavailable'));
+
+    expect(await getCommandShortcuts()).toEqual([]);
+  });
+
+  it('should open the browser shortcut settings in a new tab', () => {
+    openShortcutSettings();
+
+    expect(chrome.tabs.create).toHaveBeenCalledWith({ url: SHORTCUTS_SETTINGS_URL });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the save context menus.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CONTEXT_MENU_IDS,
+  buildContextMenus,
+  getContextMenuSave,
+  getMenuCollections,
+} from '@/lib/contextMenus';
+import type { Collection } from '@/lib/types';
+
+const collections: Collection[] = [
+  { id: 'work', name: 'Trabalho', order: 2, workspaceId: 'ws-1' },
+  { id: 'inbox', name: 'Inbox', order: 0 },
+  { id: 'old', name: 'Antigos', order: 1, workspaceId: 'ws-1', archivedAt: 1 },
+  { id: 'home', name: 'Casa', order: 3, workspaceId: 'ws-2' },
+  { id: 'smart', name: 'GitHub', order: 4, workspaceId: 'ws-1', isSmart: true, smartQuery: 'site:github.com' },
+];
+
+const tab = { id: 1, url: 'https://page.com', title: 'Page', favIconUrl: 'icon.png' } as chrome.tabs.Tab;
+
+const click = (overrides: Partial<chrome.contextMenus.OnClickData>): chrome.contextMenus.OnClickData => ({
+  menuItemId: CONTEXT_MENU_IDS.savePage,
+  editable: false,
+  pageUrl: 'https://page.com',
+  ...overrides,
+});
+
+describe('context menus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should offer Inbox and the active workspace collections', () => {
+    expect(getMenuCollections(collections, 'ws-1').map((c) => c.id)).toEqual(['inbox', 'work']);
+  });
+
+  it('should register the save items and one submenu entry per collection', async () => {
+    await buildContextMenus(getMenuCollections(collections, 'ws-1'));
+
+    expect(chrome.contextMenus.removeAll).toHaveBeenCalled();
+    const ids = vi.mocked(chrome.contextMenus.create).mock.calls.map(([props]) => props.id);
+    expect(ids).toEqual([
+      CONTEXT_MENU_IDS.savePage,
+      CONTEXT_MENU_IDS.saveLink,
+      CONTEXT_MENU_IDS.saveSelection,
+      CONTEXT_MENU_IDS.saveTo,
+      `${CONTEXT_MENU_IDS.saveTo}:inbox`,
+      `${CONTEXT_MENU_IDS.saveTo}:work`,
+    ]);
+  });
+
+  it('should run overlapping rebuilds one after the other', async () => {
+    const calls: string[] = [];
+    // Chrome answers asynchronously
+    const removeAll = (callback?: () => void): void => {
+      calls.push('removeAll');
+      setTimeout(() => callback?.(), 0);
+    };
+    const create = (properties: chrome.contextMenus.CreateProperties, callback?: () => void): string => {
+      calls.push(String(properties.id));
+      setTimeout(() => callback?.(), 0);
+      return '';
+    };
+    vi.mocked(chrome.contextMenus.removeAll).mockImplementationOnce(removeAll).mockImplementationOnce(removeAll);
+    for (let i = 0; i < 9; i++) {
+      vi.mocked(chrome.contextMenus.create).mockImplementationOnce(create);
+    }
+
+    await Promise.all([buildContextMenus([]), buildContextMenus(getMenuCollections(collections, 'ws-2'))]);
+
+    expect(calls).toEqual([
+      'removeAll',
+      CONTEXT_MENU_IDS.savePage,
+      CONTEXT_MENU_IDS.saveLink,
+      CONTEXT_MENU_IDS.saveSelection,
+      'removeAll',
+      CONTEXT_MENU_IDS.savePage,
+      CONTEXT_MENU_IDS.saveLink,
+      CONTEXT_MENU_IDS.saveSelection,
+      CONTEXT_MENU_IDS.saveTo,
+      `${CONTEXT_MENU_IDS.saveTo}:inbox`,
+      `${CONTEXT_MENU_IDS.saveTo}:home`,
+    ]);
+  });
+
+  it('should report menus Chrome refused to create', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(chrome.contextMenus.create).mockImplementationOnce((_properties, callback?: () => void) => {
+      chrome.runtime.lastError = { message: 'Cannot create item with duplicate id tabala-save-page' };
+      callback?.();
+      chrome.runtime.lastError = undefined;
+      return '';
+    });
+
+    await buildContextMenus([]);
+
+    expect(consoleError).toHaveBeenCalledWith(
+      `Failed to create context menu ${CONTEXT_MENU_IDS.savePage}:`,
+      'Cannot create item with duplicate id tabala-save-page'
+    );
+    expect(chrome.contextMenus.create).toHaveBeenCalledTimes(3);
+    consoleError.mockRestore();
+  });
+
+  it('should save the page, a hyperlink or the page with the selection as note', () => {
+    expect(getContextMenuSave(click({}), tab)).toEqual({
+      url: 'https://page.com',
+      title: 'Page',
+      favicon: 'icon.png',
+      collectionId: 'inbox',
+    });
+
+    expect(
+      getContextMenuSave(click({ menuItemId: CONTEXT_MENU_IDS.saveLink, linkUrl: 'https://link.com' }), tab)
+    ).toEqual({ url: 'https://link.com', title: 'https://link.com', collectionId: 'inbox' });
+
+    expect(
+      getContextMenuSave(click({ menuItemId: CONTEXT_MENU_IDS.saveSelection, selectionText: ' trecho ' }), tab)
+    ).toMatchObject({ url: 'https://page.com', note: 'trecho' });
+  });
+
+  it('should carry the tab group only when the page itself is saved', () => {
+    const groupedTab = { ...tab, groupId: 7 };
+
+    expect(getContextMenuSave(click({}), groupedTab)?.tabGroupId).toBe(7);
+    expect(
+      getContextMenuSave(click({ menuItemId: CONTEXT_MENU_IDS.saveLink, linkUrl: 'https://link.com' }), groupedTab)
+    ).not.toHaveProperty('tabGroupId');
+  });
+
+  it('should keep a selection around a link as its note', () => {
+    expect(
+      getContextMenuSave(
+        click({ menuItemId: CONTEXT_MENU_IDS.saveLink, linkUrl: 'https://link.com', selectionText: ' Leia isto ' }),
+        tab
+      )
+    ).toEqual({ url: 'https://link.com', title: 'https://link.com', collectionId: 'inbox', note: 'Leia isto' });
+  });
+
+  it('should save into the collection picked in the submenu', () => {
+    const save = getContextMenuSave(
+      click({ menuItemId: `${CONTEXT_MENU_IDS.saveTo}:work`, linkUrl: 'https://link.com' }),
+      tab
+    );
+
+    expect(save).toMatchObject({ url: 'https://link.com', collectionId: 'work' });
+    expect(getContextMenuSave(click({ menuItemId: 'other-extension-item' }), tab)).toBeNull();
+  });
+});
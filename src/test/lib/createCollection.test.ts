@@ -9,7 +9,7 @@ import {
   saveCollections,
   StorageError,
 } from '@/lib/storage';
-import { COLLECTION_NAME_ERRORS } from '@/lib/validation';
+import { COLLECTION_NAME_ERRORS, SMART_QUERY_ERRORS } from '@/lib/validation';
 import type { Collection } from '@/lib/types';
 
 const createMockCollection = (overrides: Partial<Collection> = {}): Collection => ({
@@ -118,6 +118,30 @@ describe('createCollection', () => {
     });
   });
 
+  describe('smart collections', () => {
+    it('should create a smart collection with the trimmed query', async () => {
+      const collection = await createCollection({ name: 'GitHub', smartQuery: '  site:github.com -tag:lido ' });
+
+      expect(collection.isSmart).toBe(true);
+      expect(collection.smartQuery).toBe('site:github.com -tag:lido');
+      expect((await getCollections())[0]).toEqual(collection);
+    });
+
+    it('should not mark regular collections as smart', async () => {
+      const collection = await createCollection({ name: 'Comum' });
+
+      expect(collection.isSmart).toBeUndefined();
+      expect(collection.smartQuery).toBeUndefined();
+    });
+
+    it('should throw StorageError for an empty query', async () => {
+      await expect(createCollection({ name: 'Vazia', smartQuery: '   ' })).rejects.toThrow(
+        SMART_QUERY_ERRORS.EMPTY
+      );
+      expect(await getCollections()).toHaveLength(0);
+    });
+  });
+
   describe('storage integration', () => {
     it('should call chrome.storage.local.set', async () => {
       await createCollection({ name: 'Test' });
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for expiring links: rule resolution, status and storage actions.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { chromeMock, mockStorage } from '../setup';
+import {
+  countStaleLinks,
+  formatExpiry,
+  getExpiryStatus,
+  getLinkExpiry,
+  getRuleForCollection,
+} from '@/lib/expiry';
+import {
+  applyExpiryRules,
+  getLinks,
+  getTrash,
+  saveCollections,
+  saveLinks,
+  updateSettings,
+} from '@/lib/storage';
+import type { ExpiryRule, Link } from '@/lib/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: 'inbox',
+  createdAt: NOW,
+  ...overrides,
+});
+
+const createRule = (overrides: Partial<ExpiryRule> = {}): ExpiryRule => ({
+  id: 'rule-1',
+  collectionId: null,
+  maxAgeDays: 14,
+  action: 'archive',
+  enabled: true,
+  ...overrides,
+});
+
+describe('expiry helpers', () => {
+  it('should prefer the collection rule over the global rule', () => {
+    const global = createRule({ id: 'global' });
+    const inbox = createRule({ id: 'inbox', collectionId: 'inbox', maxAgeDays: 7 });
+    const disabled = createRule({ id: 'off', collectionId: 'col-1', enabled: false });
+
+    expect(getRuleForCollection('inbox', [global, inbox])?.id).toBe('inbox');
+    expect(getRuleForCollection('col-1', [global, inbox, disabled])?.id).toBe('global');
+    expect(getRuleForCollection('col-1', [disabled])).toBeNull();
+  });
+
+  it('should not move links into the collection they are already in', () => {
+    const rules = [createRule({ action: 'move', targetCollectionId: 'old' })];
+
+    expect(getRuleForCollection('old', rules)).toBeNull();
+    expect(getRuleForCollection('inbox', rules)).not.toBeNull();
+  });
+
+  it('should classify links by age and skip archived or snoozed ones', () => {
+    const rules = [createRule({ maxAgeDays: 14 })];
+
+    expect(getLinkExpiry(createMockLink({ createdAt: 0 }), rules)).toBe(14 * DAY);
+    expect(getExpiryStatus(createMockLink({ createdAt: NOW - 15 * DAY }), rules, NOW)).toBe('expired');
+    expect(getExpiryStatus(createMockLink({ createdAt: NOW - 13 * DAY }), rules, NOW)).toBe('expiring');
+    expect(getExpiryStatus(createMockLink({ createdAt: NOW - 5 * DAY }), rules, NOW)).toBeNull();
+    expect(getExpiryStatus(createMockLink({ createdAt: 0, archivedAt: NOW }), rules, NOW)).toBeNull();
+    expect(getExpiryStatus(createMockLink({ createdAt: 0, snoozedUntil: NOW + DAY }), rules, NOW)).toBeNull();
+
+    const links = [
+      createMockLink({ id: 'a', createdAt: 0 }),
+      createMockLink({ id: 'b', createdAt: NOW - 13 * DAY }),
+      createMockLink({ id: 'c' }),
+    ];
+    expect(countStaleLinks(links, rules, NOW)).toBe(2);
+    expect(countStaleLinks(links, [], NOW)).toBe(0);
+  });
+
+  it('should format the time left', () => {
+    expect(formatExpiry(NOW - 1, NOW)).toBe('expirado');
+    expect(formatExpiry(NOW + DAY / 2, NOW)).toBe('expira em 1 dia');
+    expect(formatExpiry(NOW + 1.5 * DAY, NOW)).toBe('expira em 2 dias');
+  });
+});
+
+describe('applyExpiryRules', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveCollections([
+      { id: 'col-1', name: 'Leitura', order: 1 },
+      { id: 'old', name: 'Antigos', order: 2 },
+    ]);
+    await saveLinks([
+      createMockLink({ id: 'a', collectionId: 'inbox', createdAt: 0 }),
+      createMockLink({ id: 'b', collectionId: 'col-1', createdAt: 0 }),
+      createMockLink({ id: 'c', collectionId: 'col-1', createdAt: NOW }),
+      createMockLink({ id: 'd', collectionId: 'old', createdAt: 0 }),
+    ]);
+  });
+
+  it('should do nothing without rules', async () => {
+    expect(await applyExpiryRules(NOW)).toEqual({ archived: 0, moved: 0, trashed: 0 });
+    expect(await getLinks()).toHaveLength(4);
+  });
+
+  it('should archive, move and trash expired links', async () => {
+    await updateSettings({
+      expiryRules: [
+        createRule({ id: 'inbox', collectionId: 'inbox', action: 'trash' }),
+        createRule({ id: 'col-1', collectionId: 'col-1', action: 'move', targetCollectionId: 'old' }),
+        createRule({ id: 'global', action: 'archive' }),
+      ],
+    });
+
+    expect(await applyExpiryRules(NOW)).toEqual({ archived: 1, moved: 1, trashed: 1 });
+
+    const links = await getLinks();
+    expect(links.map((l) => l.id)).toEqual(['b', 'c', 'd']);
+    expect(links[0].collectionId).toBe('old');
+    expect(links[1].collectionId).toBe('col-1');
+    expect(links[2].archivedAt).toBe(NOW);
+    expect((await getTrash()).map((item) => item.id)).toEqual(['a']);
+  });
+
+  it('should write the links and the trash in a single batch', async () => {
+    await updateSettings({ expiryRules: [createRule({ action: 'trash' })] });
+    chromeMock.storage.local.set.mockClear();
+
+    expect(await applyExpiryRules(NOW)).toEqual({ archived: 0, moved: 0, trashed: 3 });
+
+    expect(chromeMock.storage.local.set).toHaveBeenCalledTimes(1);
+    expect(await getLinks()).toHaveLength(1);
+    expect((await getTrash()).map((item) => item.id)).toEqual(['a', 'b', 'd']);
+  });
+
+  it('should leave links already in the target of a global move rule', async () => {
+    await updateSettings({
+      expiryRules: [createRule({ action: 'move', targetCollectionId: 'old' })],
+    });
+
+    expect(await applyExpiryRules(NOW)).toEqual({ archived: 0, moved: 2, trashed: 0 });
+    expect((await getLinks()).map((l) => l.collectionId)).toEqual(['old', 'old', 'col-1', 'old']);
+    expect(await applyExpiryRules(NOW)).toEqual({ archived: 0, moved: 0, trashed: 0 });
+  });
+
+  it('should skip move rules whose target no longer exists', async () => {
+    await updateSettings({
+      expiryRules: [createRule({ action: 'move', targetCollectionId: 'deleted' })],
+    });
+
+    expect(await applyExpiryRules(NOW)).toEqual({ archived: 0, moved: 0, trashed: 0 });
+    expect((await getLinks()).map((l) => l.collectionId)).toEqual(['inbox', 'col-1', 'col-1', 'old']);
+  });
+});
@@ -106,6 +106,13 @@ describe('countLinksByCollection', () => {
     const counts = countLinksByCollection(mockLinks);
     expect(counts.get('non-existent')).toBeUndefined();
   });
+
+  it('should skip archived links unless asked to include them', () => {
+    const links = [...mockLinks, { ...mockLinks[0], id: 'archived', archivedAt: 1000 }];
+
+    expect(countLinksByCollection(links).get('inbox')).toBe(2);
+    expect(countLinksByCollection(links, true).get('inbox')).toBe(3);
+  });
 });
 
 describe('getLinkCount', () => {
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the undo/redo journal.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  withHistory,
+  undo,
+  redo,
+  getHistory,
+  diffRecords,
+  applyRecordPatch,
+  MAX_HISTORY_ENTRIES,
+} from '@/lib/history';
+import {
+  getLinks,
+  saveLinks,
+  getCollections,
+  saveCollections,
+  moveLink,
+  renameCollection,
+  removeLink,
+  getTrash,
+} from '@/lib/storage';
+import type { Link, Collection } from '@/lib/types';
+import { INBOX_COLLECTION_ID } from '@/lib/types';
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: INBOX_COLLECTION_ID,
+  createdAt: 1000,
+  ...overrides,
+});
+
+const collections: Collection[] = [
+  { id: INBOX_COLLECTION_ID, name: 'Inbox', order: 0, isDefault: true },
+  { id: 'col-1', name: 'Work', order: 1, createdAt: 1 },
+];
+
+describe('History', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveCollections(collections);
+  });
+
+  it('should undo and redo a link move', async () => {
+    await saveLinks([createMockLink()]);
+
+    await withHistory('Mover link', () => moveLink('link-1', 'col-1'));
+    expect((await getLinks())[0].collectionId).toBe('col-1');
+
+    expect(await undo()).toEqual({ success: true, label: 'Mover link' });
+    expect((await getLinks())[0].collectionId).toBe(INBOX_COLLECTION_ID);
+
+    expect(await redo()).toEqual({ success: true, label: 'Mover link' });
+    expect((await getLinks())[0].collectionId).toBe('col-1');
+  });
+
+  it('should undo several steps in reverse order', async () => {
+    await withHistory('Renomear coleção', () => renameCollection('col-1', 'Projects'));
+    await withHistory('Renomear coleção', () => renameCollection('col-1', 'Archive'));
+
+    await undo();
+    expect((await getCollections()).find((c) => c.id === 'col-1')?.name).toBe('Projects');
+
+    await undo();
+    expect((await getCollections()).find((c) => c.id === 'col-1')?.name).toBe('Work');
+
+    const result = await undo();
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Nada para desfazer');
+  });
+
+  it('should restore a removed link and drop it from the trash on undo', async () => {
+    await saveLinks([
+      createMockLink({ id: 'newer', createdAt: 3000 }),
+      createMockLink({ id: 'link-1', createdAt: 2000 }),
+      createMockLink({ id: 'older', createdAt: 1000 }),
+    ]);
+
+    await withHistory('Remover link', () => removeLink('link-1'));
+    expect(await getTrash()).toHaveLength(1);
+
+    await undo();
+
+    expect((await getLinks()).map((l) => l.id)).toEqual(['newer', 'link-1', 'older']);
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('should keep changes made to other records after the entry', async () => {
+    await saveLinks([createMockLink(), createMockLink({ id: 'link-2' })]);
+
+    await withHistory('Mover link', () => moveLink('link-1', 'col-1'));
+    await moveLink('link-2', 'col-1');
+
+    await undo();
+
+    const links = await getLinks();
+    expect(links.find((l) => l.id === 'link-1')?.collectionId).toBe(INBOX_COLLECTION_ID);
+    expect(links.find((l) => l.id === 'link-2')?.collectionId).toBe('col-1');
+  });
+
+  it('should persist the journal and clear redo on a new entry', async () => {
+    await saveLinks([createMockLink()]);
+    await withHistory('Mover link', () => moveLink('link-1', 'col-1'));
+    await undo();
+    expect((await getHistory()).redo).toHaveLength(1);
+
+    await withHistory('Renomear coleção', () => renameCollection('col-1', 'Projects'));
+
+    const history = await getHistory();
+    expect(history.undo.map((e) => e.label)).toEqual(['Renomear coleção']);
+    expect(history.redo).toEqual([]);
+  });
+
+  it('should not record mutations that change nothing or throw', async () => {
+    await withHistory('Renomear coleção', () => renameCollection('missing', 'X'));
+    await expect(
+      withHistory('Falha', () => Promise.reject(new Error('boom')))
+    ).rejects.toThrow('boom');
+
+    expect((await getHistory()).undo).toEqual([]);
+  });
+
+  it('should cap the undo stack', async () => {
+    for (let i = 0; i <= MAX_HISTORY_ENTRIES; i++) {
+      await withHistory('Renomear coleção', () => renameCollection('col-1', `Name ${i}`));
+    }
+
+    expect((await getHistory()).undo).toHaveLength(MAX_HISTORY_ENTRIES);
+  });
+
+  describe('diffRecords / applyRecordPatch', () => {
+    it('should return null for identical arrays', () => {
+      expect(diffRecords([{ id: 'a', v: 1 }], [{ id: 'a', v: 1 }])).toBeNull();
+    });
+
+    it('should round-trip added, changed and removed records', () => {
+      const before = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }];
+      const after = [{ id: 'a', v: 2 }, { id: 'c', v: 1 }];
+      const patch = diffRecords(before, after)!;
+
+      expect(applyRecordPatch(after, patch.after, patch.before)).toEqual([
+        { id: 'a', v: 1 },
+        { id: 'b', v: 1 },
+      ]);
+      expect(applyRecordPatch(before, patch.before, patch.after)).toEqual(after);
+    });
+  });
+});
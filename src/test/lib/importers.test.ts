@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the OneTab, Toby and Session Buddy importers.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  parseImport,
+  previewImport,
+  commitImport,
+  detectImportAdapter,
+  getImportAdapters,
+  registerImportAdapter,
+  type ImportAdapter,
+} from '@/lib/importers';
+import {
+  getLinks,
+  saveLinks,
+  getCollections,
+  saveCollections,
+  getWorkspaces,
+  saveWorkspaces,
+  createDefaultWorkspace,
+} from '@/lib/storage';
+import type { Collection } from '@/lib/types';
+import { DEFAULT_WORKSPACE_ID, INBOX_COLLECTION_ID } from '@/lib/types';
+
+const inbox: Collection = { id: INBOX_COLLECTION_ID, name: 'Inbox', order: 0, isDefault: true, createdAt: 1 };
+
+const ONETAB_TEXT = [
+  'https://a.com | A',
+  'chrome://extensions | Extensions',
+  '',
+  'https://b.com | B',
+  'https://c.com',
+].join('\n');
+
+const TOBY_JSON = JSON.stringify({
+  version: 3,
+  lists: [{ title: 'Reading', cards: [{ title: 'A', url: 'https://a.com', customTitle: 'Custom A' }] }],
+  groups: [{ name: 'Work', lists: [{ title: 'Docs', cards: [{ title: 'D', url: 'https://d.com' }] }] }],
+});
+
+const SESSION_BUDDY_JSON = JSON.stringify({
+  format: 'nxs.json.v1',
+  sessions: [
+    {
+      name: 'Research',
+      generated: 1700000000000,
+      windows: [{ tabs: [{ url: 'https://a.com', title: 'A', favIconUrl: 'https://a.com/icon.png' }] }],
+    },
+    { windows: [{ tabs: [{ url: 'https://e.com', title: 'E' }] }] },
+  ],
+});
+
+describe('Importers', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveWorkspaces([createDefaultWorkspace()]);
+    await saveCollections([inbox]);
+    await saveLinks([]);
+  });
+
+  describe('registry', () => {
+    it('should detect each built-in format', () => {
+      expect(detectImportAdapter(ONETAB_TEXT)?.id).toBe('onetab');
+      expect(detectImportAdapter(TOBY_JSON)?.id).toBe('toby');
+      expect(detectImportAdapter(SESSION_BUDDY_JSON)?.id).toBe('session-buddy');
+      expect(detectImportAdapter('{"foo": 1}')).toBeNull();
+    });
+
+    it('should accept new adapters', () => {
+      const adapter: ImportAdapter = {
+        id: 'custom',
+        name: 'Custom',
+        accept: '.txt',
+        detect: (text) => text.startsWith('custom:'),
+        parse: () => ({ links: [], collections: [], workspaces: [], skipped: [] }),
+      };
+      registerImportAdapter(adapter);
+
+      expect(getImportAdapters().map((a) => a.id)).toContain('custom');
+      expect(parseImport('custom:', 'custom').error).toBe('Nenhum link encontrado no arquivo');
+    });
+
+    it('should report unknown and malformed files', () => {
+      expect(parseImport('hello').error).toBe('Formato de arquivo não reconhecido');
+      expect(parseImport('{', 'toby').error).toBe('Arquivo inválido para Toby');
+    });
+  });
+
+  describe('adapters', () => {
+    it('should turn OneTab groups into collections and skip internal pages', () => {
+      const { data } = parseImport(ONETAB_TEXT, 'onetab');
+
+      expect(data?.collections.map((c) => c.name)).toEqual(['OneTab 1', 'OneTab 2']);
+      expect(data?.links.map((l) => l.title)).toEqual(['A', 'B', 'https://c.com']);
+      expect(data?.skipped).toEqual([{ type: 'link', label: 'Extensions', reason: 'URL não pode ser salva' }]);
+    });
+
+    it('should turn Toby groups into workspaces and prefer custom titles', () => {
+      const { data } = parseImport(TOBY_JSON, 'toby');
+
+      expect(data?.workspaces.map((w) => w.name)).toEqual(['Work']);
+      expect(data?.collections.map((c) => [c.name, c.workspaceId])).toEqual([
+        ['Reading', DEFAULT_WORKSPACE_ID],
+        ['Docs', data?.workspaces[0].id],
+      ]);
+      expect(data?.links[0].title).toBe('Custom A');
+    });
+
+    it('should turn Session Buddy sessions into collections', () => {
+      const { data } = parseImport(SESSION_BUDDY_JSON, 'session-buddy');
+
+      expect(data?.collections.map((c) => c.name)).toEqual(['Research', 'Sessão 2']);
+      expect(data?.links[0]).toMatchObject({
+        favicon: 'https://a.com/icon.png',
+        createdAt: 1700000000000,
+      });
+    });
+  });
+
+  describe('previewImport', () => {
+    it('should group collections by workspace and count duplicates', async () => {
+      await saveCollections([inbox, { id: 'col-1', name: 'reading', order: 1, createdAt: 1, workspaceId: DEFAULT_WORKSPACE_ID }]);
+      await saveLinks([{ id: 'l1', url: 'https://a.com', title: 'A', collectionId: 'col-1', createdAt: 1 }]);
+      const { data } = parseImport(TOBY_JSON, 'toby');
+
+      const preview = data ? await previewImport(data) : null;
+
+      expect(preview?.links).toBe(1);
+      expect(preview?.duplicates).toBe(1);
+      expect(preview?.workspaces).toEqual([
+        { name: 'Geral', isNew: false, collections: [{ name: 'reading', isNew: false, links: 0, duplicates: 1 }] },
+        { name: 'Work', isNew: true, collections: [{ name: 'Docs', isNew: true, links: 1, duplicates: 0 }] },
+      ]);
+    });
+
+    it('should count the same page with tracking params as a duplicate', async () => {
+      await saveLinks([
+        { id: 'l1', url: 'https://a.com/?utm_source=mail', title: 'A', collectionId: INBOX_COLLECTION_ID, createdAt: 1 },
+      ]);
+      const { data } = parseImport(TOBY_JSON, 'toby');
+
+      const preview = data ? await previewImport(data) : null;
+
+      expect(preview?.links).toBe(1);
+      expect(preview?.duplicates).toBe(1);
+    });
+  });
+
+  describe('commitImport', () => {
+    it('should save new links and skip saved URLs', async () => {
+      await saveLinks([{ id: 'l1', url: 'https://a.com', title: 'A', collectionId: INBOX_COLLECTION_ID, createdAt: 1 }]);
+      const { data } = parseImport(ONETAB_TEXT, 'onetab');
+
+      const report = data ? await commitImport(data) : null;
+
+      expect(report?.added).toEqual({ workspaces: 0, collections: 2, links: 2 });
+      expect(report?.skipped.map((s) => s.reason)).toEqual(['URL não pode ser salva', 'URL já salva']);
+      expect(await getLinks()).toHaveLength(3);
+      expect((await getCollections()).map((c) => c.name)).toEqual(['Inbox', 'OneTab 1', 'OneTab 2']);
+      expect(await getWorkspaces()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for the IndexedDB storage backend.
+ */
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chromeMock, mockStorage } from '../setup';
+import {
+  openTabAlaDatabase,
+  createIndexedDBStorage,
+  migrateFromChromeStorage,
+  enableIndexedDBStorage,
+  STORAGE_BACKEND_KEY,
+} from '@/lib/indexedDBStorage';
+import {
+  StorageError,
+  storage,
+  chromeStorage,
+  setStorageBackend,
+  getLinks,
+  type StorageWrapper,
+  type StorageChanges,
+} from '@/lib/storage';
+import type { Link } from '@/lib/types';
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: 'inbox',
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('IndexedDB storage backend', () => {
+  let db: IDBDatabase;
+  let idbStorage: StorageWrapper;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    db = await openTabAlaDatabase(new IDBFactory());
+    idbStorage = createIndexedDBStorage(db);
+  });
+
+  it('should create record stores with collectionId and createdAt indexes', () => {
+    expect([...db.objectStoreNames].sort()).toEqual(['collections', 'kv', 'links', 'workspaces']);
+    const tx = db.transaction('links', 'readonly');
+    const indexes = [...tx.objectStore('links').indexNames].sort();
+    expect(indexes).toEqual(['collectionId', 'createdAt']);
+  });
+
+  it('should return null for missing keys', async () => {
+    expect(await idbStorage.get('links')).toBeNull();
+    expect(await idbStorage.get('settings')).toBeNull();
+  });
+
+  it('should round-trip record arrays with most recent links first', async () => {
+    const older = createMockLink({ id: 'a', createdAt: 1000 });
+    const newer = createMockLink({ id: 'b', createdAt: 2000 });
+    await idbStorage.set('links', [older, newer]);
+
+    const links = await idbStorage.get<Link[]>('links');
+    expect(links?.map((l) => l.id)).toEqual(['b', 'a']);
+  });
+
+  it('should list bumped links by their bump time', async () => {
+    const older = createMockLink({ id: 'older', createdAt: 1000, bumpedAt: 5000 });
+    const newer = createMockLink({ id: 'newer', createdAt: 2000 });
+    await idbStorage.set('links', [older, newer]);
+
+    expect(await idbStorage.get('links')).toEqual([older, newer]);
+  });
+
+  it('should delete records missing from the new array', async () => {
+    await idbStorage.set('links', [createMockLink({ id: 'a' }), createMockLink({ id: 'b' })]);
+    await idbStorage.set('links', [createMockLink({ id: 'b' })]);
+
+    const links = await idbStorage.get<Link[]>('links');
+    expect(links?.map((l) => l.id)).toEqual(['b']);
+  });
+
+  it('should store other keys in the key-value store', async () => {
+    await idbStorage.set('settings', { newtabEnabled: false });
+    expect(await idbStorage.get('settings')).toEqual({ newtabEnabled: false });
+
+    await idbStorage.remove('settings');
+    expect(await idbStorage.get('settings')).toBeNull();
+  });
+
+  it('should reject record values that are not arrays of records', async () => {
+    await expect(idbStorage.set('links', { id: 'x' })).rejects.toThrow(StorageError);
+    await expect(idbStorage.set('collections', [{ name: 'No id' }])).rejects.toMatchObject({
+      code: 'INVALID_VALUE',
+    });
+  });
+
+  it('should write batches atomically', async () => {
+    await idbStorage.set('settings', { newtabEnabled: true });
+
+    await expect(
+      idbStorage.setBatch({ settings: { newtabEnabled: false }, links: 'invalid' })
+    ).rejects.toThrow(StorageError);
+
+    expect(await idbStorage.get('settings')).toEqual({ newtabEnabled: true });
+  });
+
+  it('should list every stored key in getAll', async () => {
+    await idbStorage.setBatch({
+      links: [createMockLink()],
+      settings: { newtabEnabled: true },
+    });
+
+    const all = await idbStorage.getAll();
+    expect(Object.keys(all).sort()).toEqual(['links', 'settings']);
+
+    await idbStorage.clear();
+    expect(await idbStorage.getAll()).toEqual({});
+  });
+
+  it('should notify watchers with old and new values', async () => {
+    const callback = vi.fn();
+    const unwatch = idbStorage.watch(callback);
+
+    await idbStorage.set('settings', { newtabEnabled: true });
+
+    expect(callback).toHaveBeenCalledWith({
+      settings: { oldValue: undefined, newValue: { newtabEnabled: true } },
+    });
+
+    unwatch();
+    await idbStorage.set('settings', { newtabEnabled: false });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve the shared storage instance once installed as backend', async () => {
+    const callback = vi.fn();
+    const unwatch = storage.watch(callback);
+    setStorageBackend(idbStorage);
+
+    await storage.set('links', [createMockLink()]);
+
+    expect(await getLinks()).toHaveLength(1);
+    expect(mockStorage.links).toBeUndefined();
+    expect(callback).toHaveBeenCalled();
+
+    unwatch();
+    setStorageBackend(chromeStorage);
+  });
+
+  it('should ignore chrome.storage changes while another backend is active', async () => {
+    const callback = vi.fn();
+    const unwatch = storage.watch(callback);
+    const [[listener]] = chromeMock.storage.onChanged.addListener.mock.calls as [
+      [(changes: StorageChanges, areaName: string) => void],
+    ];
+    const removal = { trash: { oldValue: [], newValue: undefined } };
+
+    setStorageBackend(idbStorage);
+    listener(removal, 'local');
+    await storage.get('links');
+    listener(removal, 'local');
+    expect(callback).not.toHaveBeenCalled();
+
+    setStorageBackend(chromeStorage);
+    await storage.get('links');
+    listener(removal, 'local');
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    unwatch();
+  });
+
+  describe('migrateFromChromeStorage', () => {
+    it('should move chrome.storage data into IndexedDB once', async () => {
+      const link = createMockLink();
+      const settings = { newtabEnabled: true, onboardingCompleted: true };
+      mockStorage.links = [link];
+      mockStorage.settings = settings;
+
+      expect(await migrateFromChromeStorage(idbStorage)).toBe(true);
+
+      expect(await idbStorage.get('links')).toEqual([link]);
+      expect(await idbStorage.get('settings')).toEqual(settings);
+      expect(mockStorage.links).toBeUndefined();
+      expect(mockStorage[STORAGE_BACKEND_KEY]).toBe('indexeddb');
+
+      expect(await migrateFromChromeStorage(idbStorage)).toBe(false);
+    });
+
+    it('should keep chrome.storage as the source when the copy does not match', async () => {
+      const link = createMockLink();
+      mockStorage.links = [link];
+      const lossyStorage: StorageWrapper = {
+        ...idbStorage,
+        getBatch: vi.fn().mockResolvedValue({ links: [] }),
+      };
+
+      await expect(migrateFromChromeStorage(lossyStorage)).rejects.toMatchObject({
+        code: 'MIGRATION_FAILED',
+      });
+
+      expect(mockStorage[STORAGE_BACKEND_KEY]).toBeUndefined();
+      expect(mockStorage.links).toEqual([link]);
+    });
+  });
+
+  describe('enableIndexedDBStorage', () => {
+    const originalIndexedDB = globalThis.indexedDB;
+
+    beforeEach(() => {
+      vi.stubGlobal('indexedDB', undefined);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.stubGlobal('indexedDB', originalIndexedDB);
+      vi.mocked(console.error).mockRestore();
+      setStorageBackend(chromeStorage);
+    });
+
+    it('should fall back to chrome.storage before data has been migrated', async () => {
+      mockStorage.links = [createMockLink()];
+
+      expect(await enableIndexedDBStorage()).toBe(chromeStorage);
+      expect(await getLinks()).toHaveLength(1);
+    });
+
+    it('should fail storage calls instead of using chrome.storage once data was migrated', async () => {
+      mockStorage[STORAGE_BACKEND_KEY] = 'indexeddb';
+
+      expect(await enableIndexedDBStorage()).not.toBe(chromeStorage);
+      await expect(getLinks()).rejects.toMatchObject({ code: 'BACKEND_UNAVAILABLE' });
+      await expect(storage.set('links', [])).rejects.toBeInstanceOf(StorageError);
+      expect(mockStorage.links).toBeUndefined();
+    });
+  });
+});
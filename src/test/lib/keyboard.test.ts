@@ -0,0 +1,30 @@
+/**
+ * Unit tests for the dashboard keyboard shortcut helpers.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { isTextEntryElement } from '@/lib/keyboard';
+
+describe('isTextEntryElement', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should accept inputs, textareas and contenteditable elements', () => {
+    document.body.innerHTML = '<input /><textarea></textarea><div contenteditable="true"></div>';
+    // jsdom doesn't compute isContentEditable
+    Object.defineProperty(document.querySelector('div'), 'isContentEditable', { value: true });
+
+    expect(isTextEntryElement(document.querySelector('input'))).toBe(true);
+    expect(isTextEntryElement(document.querySelector('textarea'))).toBe(true);
+    expect(isTextEntryElement(document.querySelector('div'))).toBe(true);
+  });
+
+  it('should reject other elements and no element', () => {
+    document.body.innerHTML = '<button>Salvar</button><div></div>';
+
+    expect(isTextEntryElement(document.querySelector('button'))).toBe(false);
+    expect(isTextEntryElement(document.querySelector('div'))).toBe(false);
+    expect(isTextEntryElement(document.body)).toBe(false);
+    expect(isTextEntryElement(null)).toBe(false);
+  });
+});
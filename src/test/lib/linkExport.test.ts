@@ -0,0 +1,49 @@
+/**
+ * Unit tests for Markdown, CSV and URL list export.
+ */
+import { describe, it, expect } from 'vitest';
+import { formatLinks, getLinkExportFilename } from '@/lib/linkExport';
+import type { Link, Collection, Workspace } from '@/lib/types';
+import { DEFAULT_WORKSPACE_ID, WORKSPACE_COLORS } from '@/lib/types';
+
+const links: Link[] = [
+  { id: 'l1', url: 'https://a.com/wiki/Foo_(bar)', title: 'Foo [draft]', collectionId: 'col-1', createdAt: 0 },
+  { id: 'l2', url: 'https://b.com', title: 'Say "hi", then leave', collectionId: 'col-1', createdAt: 1700000000000 },
+];
+
+const collections: Collection[] = [
+  { id: 'col-1', name: 'Leitura', order: 1, workspaceId: DEFAULT_WORKSPACE_ID },
+];
+
+const workspaces: Workspace[] = [
+  { id: DEFAULT_WORKSPACE_ID, name: 'Geral', color: WORKSPACE_COLORS[0], order: 0, createdAt: 0, isDefault: true },
+];
+
+describe('formatLinks', () => {
+  it('should format Markdown list items with escaped titles and URLs', () => {
+    expect(formatLinks(links, 'markdown')).toBe(
+      '- [Foo \\[draft\\]](https://a.com/wiki/Foo_%28bar%29)\n- [Say "hi", then leave](https://b.com)\n'
+    );
+  });
+
+  it('should format CSV with collection and workspace names', () => {
+    const csv = formatLinks(links, 'csv', { collections, workspaces }).split('\n');
+
+    expect(csv[0]).toBe('title,url,collection,workspace,createdAt');
+    expect(csv[1]).toBe('Foo [draft],https://a.com/wiki/Foo_(bar),Leitura,Geral,1970-01-01T00:00:00.000Z');
+    expect(csv[2]).toBe('"Say ""hi"", then leave",https://b.com,Leitura,Geral,2023-11-14T22:13:20.000Z');
+  });
+
+  it('should format one URL per line', () => {
+    expect(formatLinks(links, 'urls')).toBe('https://a.com/wiki/Foo_(bar)\nhttps://b.com\n');
+    expect(formatLinks([], 'urls')).toBe('');
+  });
+});
+
+describe('getLinkExportFilename', () => {
+  it('should slugify the name and use the format extension', () => {
+    expect(getLinkExportFilename('Leitura da Semana', 'markdown')).toBe('tabala-leitura-da-semana.md');
+    expect(getLinkExportFilename('Ação & Reação', 'csv')).toBe('tabala-acao-reacao.csv');
+    expect(getLinkExportFilename('***', 'urls')).toBe('tabala-links.txt');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the schema migrations framework.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  runMigrations,
+  getSchemaVersion,
+  getMigrationFailures,
+  getPendingMigrations,
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  MIGRATIONS,
+  type Migration,
+  type StorageSnapshot,
+} from '@/lib/migrations';
+import { getCollections, getWorkspaces, saveCollections, saveWorkspaces } from '@/lib/storage';
+import type { Collection } from '@/lib/types';
+import { DEFAULT_WORKSPACE_ID, INBOX_COLLECTION_ID, WORKSPACE_COLORS } from '@/lib/types';
+
+describe('Schema migrations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  describe('getSchemaVersion', () => {
+    it('should return 0 when no version is stored', async () => {
+      expect(await getSchemaVersion()).toBe(0);
+    });
+
+    it('should return the stored version', async () => {
+      mockStorage[SCHEMA_VERSION_KEY] = 2;
+      expect(await getSchemaVersion()).toBe(2);
+    });
+  });
+
+  describe('getPendingMigrations', () => {
+    it('should return steps newer than the given version in order', () => {
+      const registry: Migration[] = [
+        { version: 3, description: 'c', migrate: (s) => s },
+        { version: 1, description: 'a', migrate: (s) => s },
+        { version: 2, description: 'b', migrate: (s) => s },
+      ];
+
+      expect(getPendingMigrations(1, registry).map((m) => m.version)).toEqual([2, 3]);
+    });
+
+    it('should have strictly increasing versions in the registry', () => {
+      const versions = MIGRATIONS.map((m) => m.version);
+      expect(versions).toEqual([...versions].sort((a, b) => a - b));
+      expect(new Set(versions).size).toBe(versions.length);
+    });
+  });
+
+  describe('runMigrations', () => {
+    it('should migrate legacy data to the current version', async () => {
+      const legacy = [
+        { id: INBOX_COLLECTION_ID, name: 'Inbox', order: 0, isDefault: true },
+        { id: 'col-1', name: 'Work' },
+      ] as Collection[];
+      await saveCollections(legacy);
+
+      const result = await runMigrations();
+
+      expect(result.success).toBe(true);
+      expect(result.fromVersion).toBe(0);
+      expect(result.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(await getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+
+      const workspaces = await getWorkspaces();
+      expect(workspaces.some((w) => w.id === DEFAULT_WORKSPACE_ID)).toBe(true);
+
+      const collections = await getCollections();
+      const inbox = collections.find((c) => c.id === INBOX_COLLECTION_ID);
+      const work = collections.find((c) => c.id === 'col-1');
+      expect(inbox?.workspaceId).toBeUndefined();
+      expect(work?.workspaceId).toBe(DEFAULT_WORKSPACE_ID);
+      expect(work?.order).toBe(1);
+      expect(work?.createdAt).toBe(0);
+    });
+
+    it('should keep existing workspace assignments', async () => {
+      await saveWorkspaces([
+        { id: DEFAULT_WORKSPACE_ID, name: 'Geral', color: WORKSPACE_COLORS[0], order: 0, createdAt: 1 },
+        { id: 'ws-2', name: 'Other', color: WORKSPACE_COLORS[1], order: 1, createdAt: 1 },
+      ]);
+      await saveCollections([{ id: 'col-1', name: 'Work', order: 1, workspaceId: 'ws-2' }]);
+
+      await runMigrations();
+
+      const collections = await getCollections();
+      expect(collections[0].workspaceId).toBe('ws-2');
+      expect(await getWorkspaces()).toHaveLength(2);
+    });
+
+    it('should be a no-op when already at the current version', async () => {
+      mockStorage[SCHEMA_VERSION_KEY] = CURRENT_SCHEMA_VERSION;
+
+      const result = await runMigrations();
+
+      expect(result).toEqual({
+        success: true,
+        fromVersion: CURRENT_SCHEMA_VERSION,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        applied: [],
+      });
+      expect(mockStorage.workspaces).toBeUndefined();
+    });
+
+    it('should only apply steps newer than the stored version', async () => {
+      const first = vi.fn((s: StorageSnapshot) => s);
+      const second = vi.fn((s: StorageSnapshot) => s);
+      mockStorage[SCHEMA_VERSION_KEY] = 1;
+
+      const result = await runMigrations([
+        { version: 1, description: 'first', migrate: first },
+        { version: 2, description: 'second', migrate: second },
+      ]);
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(result.applied).toEqual([2]);
+      expect(await getSchemaVersion()).toBe(2);
+    });
+
+    it('should write nothing and record the failure when a step throws', async () => {
+      await saveCollections([{ id: 'col-1', name: 'Work', order: 0 }]);
+
+      const result = await runMigrations([
+        {
+          version: 1,
+          description: 'rename',
+          migrate: (s) => ({ ...s, collections: s.collections.map((c) => ({ ...c, name: 'Changed' })) }),
+        },
+        {
+          version: 2,
+          description: 'broken',
+          migrate: () => {
+            throw new Error('boom');
+          },
+        },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('boom');
+      expect(result.toVersion).toBe(0);
+      expect(await getSchemaVersion()).toBe(0);
+      expect((await getCollections())[0].name).toBe('Work');
+
+      const failures = await getMigrationFailures();
+      expect(failures).toHaveLength(1);
+      expect(failures[0]).toMatchObject({ version: 2, fromVersion: 0, error: 'boom' });
+    });
+  });
+});
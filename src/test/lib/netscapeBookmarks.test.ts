@@ -0,0 +1,137 @@
+/**
+ * Unit tests for Netscape bookmark file import and export.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  parseBookmarksHtml,
+  bookmarksToImportData,
+  importBookmarksHtml,
+  exportBookmarksHtml,
+  getBookmarksFilename,
+} from '@/lib/netscapeBookmarks';
+import {
+  getLinks,
+  saveLinks,
+  getCollections,
+  saveCollections,
+  getWorkspaces,
+  saveWorkspaces,
+  createDefaultWorkspace,
+} from '@/lib/storage';
+import type { Collection } from '@/lib/types';
+import { DEFAULT_WORKSPACE_ID, INBOX_COLLECTION_ID } from '@/lib/types';
+
+const inbox: Collection = { id: INBOX_COLLECTION_ID, name: 'Inbox', order: 0, isDefault: true, createdAt: 1 };
+
+const BOOKMARKS_HTML = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><A HREF="https://root.com" ADD_DATE="1700000000">Root</A>
+    <DT><H3 ADD_DATE="1600000000">Work</H3>
+    <DL><p>
+        <DT><A HREF="https://work.com" ADD_DATE="1700000100">Work &amp; Co</A>
+        <DT><A HREF="chrome://settings">Settings</A>
+        <DT><H3>Docs</H3>
+        <DL><p>
+            <DT><A HREF="https://docs.com">Docs</A>
+        </DL><p>
+    </DL><p>
+</DL><p>
+`;
+
+describe('Netscape bookmarks', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveWorkspaces([createDefaultWorkspace()]);
+    await saveCollections([inbox]);
+    await saveLinks([]);
+  });
+
+  describe('parseBookmarksHtml', () => {
+    it('should parse nested folders and convert ADD_DATE to milliseconds', () => {
+      const nodes = parseBookmarksHtml(BOOKMARKS_HTML);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[0]).toMatchObject({ type: 'link', url: 'https://root.com', addDate: 1700000000000 });
+      expect(nodes[1]).toMatchObject({ type: 'folder', title: 'Work', addDate: 1600000000000 });
+      const work = nodes[1].type === 'folder' ? nodes[1].children : [];
+      expect(work.map((n) => n.title)).toEqual(['Work & Co', 'Settings', 'Docs']);
+    });
+
+    it('should return an empty tree for files without a list', () => {
+      expect(parseBookmarksHtml('<p>not bookmarks</p>')).toEqual([]);
+    });
+  });
+
+  describe('bookmarksToImportData', () => {
+    it('should map folders to collections and skip unsaveable URLs', () => {
+      const data = bookmarksToImportData(parseBookmarksHtml(BOOKMARKS_HTML), { topLevelAsWorkspaces: false });
+
+      expect(data.collections.map((c) => c.name)).toEqual(['Work', 'Work / Docs']);
+      expect(data.workspaces).toEqual([]);
+      expect(data.links.find((l) => l.url === 'https://root.com')?.collectionId).toBe(INBOX_COLLECTION_ID);
+      expect(data.skipped).toEqual([{ type: 'link', label: 'Settings', reason: 'URL não pode ser salva' }]);
+    });
+
+    it('should map top-level folders to workspaces when requested', () => {
+      const data = bookmarksToImportData(parseBookmarksHtml(BOOKMARKS_HTML), { topLevelAsWorkspaces: true });
+
+      expect(data.workspaces.map((w) => w.name)).toEqual(['Work']);
+      expect(data.collections.map((c) => c.name)).toEqual(['Work', 'Docs']);
+      expect(data.collections.every((c) => c.workspaceId === data.workspaces[0].id)).toBe(true);
+    });
+  });
+
+  describe('importBookmarksHtml', () => {
+    it('should import bookmarks and skip URLs that are already saved', async () => {
+      await saveLinks([
+        { id: 'existing', url: 'https://docs.com', title: 'Docs', collectionId: INBOX_COLLECTION_ID, createdAt: 1 },
+      ]);
+
+      const report = await importBookmarksHtml(BOOKMARKS_HTML, { topLevelAsWorkspaces: true });
+
+      expect(report.success).toBe(true);
+      expect(report.added).toEqual({ workspaces: 1, collections: 2, links: 2 });
+      expect(report.skipped.map((s) => s.reason)).toEqual(['URL não pode ser salva', 'URL já salva']);
+      expect(await getWorkspaces()).toHaveLength(2);
+      expect((await getCollections()).map((c) => c.name)).toContain('Docs');
+      expect(await getLinks()).toHaveLength(3);
+    });
+  });
+
+  describe('exportBookmarksHtml', () => {
+    beforeEach(async () => {
+      await saveCollections([
+        inbox,
+        { id: 'col-1', name: 'A <b>', order: 1, createdAt: 2000, workspaceId: DEFAULT_WORKSPACE_ID },
+      ]);
+      await saveLinks([
+        { id: 'l1', url: 'https://a.com/?x=1&y=2', title: 'A', collectionId: 'col-1', createdAt: 1700000000000 },
+      ]);
+    });
+
+    it('should export a collection with escaped values and ADD_DATE in seconds', async () => {
+      const html = await exportBookmarksHtml({ type: 'collection', collectionId: 'col-1' });
+
+      expect(html).toContain('<!DOCTYPE NETSCAPE-Bookmark-file-1>');
+      expect(html).toContain('<H3 ADD_DATE="2">A &lt;b&gt;</H3>');
+      expect(html).toContain('<A HREF="https://a.com/?x=1&amp;y=2" ADD_DATE="1700000000">A</A>');
+    });
+
+    it('should round-trip everything through parse', async () => {
+      const nodes = parseBookmarksHtml(await exportBookmarksHtml({ type: 'all' }));
+
+      expect(nodes.map((n) => n.title)).toEqual(['Inbox', 'Geral']);
+      const workspace = nodes[1].type === 'folder' ? nodes[1].children : [];
+      expect(workspace[0]).toMatchObject({ type: 'folder', title: 'A <b>' });
+    });
+
+    it('should name files by date', () => {
+      expect(getBookmarksFilename(new Date('2024-03-05T12:00:00Z'))).toBe('tabala-bookmarks-2024-03-05.html');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for link notes: parsing, previews and storage.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import { parseNote, getNotePreview, normalizeNote } from '@/lib/notes';
+import { getLinks, saveLinks, setLinkNote, getStorageUsage, STORAGE_QUOTA_BYTES } from '@/lib/storage';
+import { NOTE_MAX_LENGTH } from '@/lib/validation';
+import type { Link } from '@/lib/types';
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: 'inbox',
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('note helpers', () => {
+  it('should parse inline formatting and code spans', () => {
+    expect(parseNote('Ler a **seção 3** e o *resumo*')).toEqual([
+      { type: 'text', text: 'Ler a ' },
+      { type: 'strong', text: 'seção 3' },
+      { type: 'text', text: ' e o ' },
+      { type: 'em', text: 'resumo' },
+    ]);
+    expect(parseNote('<b>oi</b> `a**b**`')).toEqual([
+      { type: 'text', text: '<b>oi</b> ' },
+      { type: 'code', text: 'a**b**' },
+    ]);
+    expect(parseNote('um\ndois `solto')).toEqual([
+      { type: 'text', text: 'um' },
+      { type: 'break', text: '' },
+      { type: 'text', text: 'dois `solto' },
+    ]);
+  });
+
+  it('should turn bare URLs into links without trailing punctuation', () => {
+    expect(parseNote('Ver https://a.com/x?y=1&z=2.')).toEqual([
+      { type: 'text', text: 'Ver ' },
+      { type: 'link', text: 'https://a.com/x?y=1&z=2' },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('should build single-line previews and normalize empty notes', () => {
+    expect(getNotePreview('**Importante**\n`ler`  depois')).toBe('Importante ler depois');
+    expect(getNotePreview('abcdefghij', 5)).toBe('abcd…');
+    expect(normalizeNote('   ')).toBeUndefined();
+    expect(normalizeNote(' ok ')).toBe('ok');
+  });
+});
+
+describe('note storage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveLinks([createMockLink(), createMockLink({ id: 'link-2', note: 'antiga' })]);
+  });
+
+  it('should set, clear and validate notes', async () => {
+    expect(await setLinkNote('link-1', '  nova nota ')).toEqual({ success: true });
+    expect((await setLinkNote('link-2', '')).success).toBe(true);
+
+    const links = await getLinks();
+    expect(links[0].note).toBe('nova nota');
+    expect(links[1]).not.toHaveProperty('note');
+
+    expect((await setLinkNote('link-1', 'x'.repeat(NOTE_MAX_LENGTH + 1))).success).toBe(false);
+    expect((await setLinkNote('missing', 'x')).success).toBe(false);
+  });
+
+  it('should count notes toward storage usage', async () => {
+    const before = await getStorageUsage();
+    await setLinkNote('link-1', 'x'.repeat(500));
+    const after = await getStorageUsage();
+
+    expect(after.quotaBytes).toBe(STORAGE_QUOTA_BYTES);
+    expect(after.notesBytes - before.notesBytes).toBe(500);
+    expect(after.bytesInUse - before.bytesInUse).toBeGreaterThanOrEqual(500);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the address bar search.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  escapeOmniboxText,
+  getOmniboxSuggestions,
+  getOmniboxTarget,
+  openOmniboxUrl,
+  searchSavedLinks,
+} from '@/lib/omnibox';
+import type { Collection, Link } from '@/lib/types';
+
+const link = (id: string, overrides: Partial<Link> = {}): Link => ({
+  id,
+  url: `https://${id}.com`,
+  title: id,
+  collectionId: 'inbox',
+  createdAt: 1000,
+  ...overrides,
+});
+
+const collections: Collection[] = [
+  { id: 'inbox', name: 'Inbox', order: 0 },
+  { id: 'work', name: 'Trabalho', order: 1, workspaceId: 'ws-2' },
+];
+
+describe('omnibox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should rank title matches above URL, tag and note matches', () => {
+    const links = [
+      link('note', { note: 'ver svelte stores' }),
+      link('url', { url: 'https://svelte.dev/docs' }),
+      link('title', { title: 'Svelte tutorial' }),
+      link('tag', { tags: ['svelte'] }),
+      link('other'),
+    ];
+
+    expect(searchSavedLinks(links, 'svelte').map((m) => m.link.id)).toEqual(['title', 'tag', 'url', 'note']);
+  });
+
+  it('should require every word and list archived links last', () => {
+    const links = [
+      link('old', { title: 'Guia de Rust', archivedAt: 5 }),
+      link('both', { title: 'Guia', tags: ['rust'], createdAt: 500 }),
+      link('half', { title: 'Guia de Go' }),
+    ];
+
+    expect(searchSavedLinks(links, 'guia rust').map((m) => m.link.id)).toEqual(['both', 'old']);
+  });
+
+  it('should describe suggestions with their collection and escape markup', () => {
+    const [suggestion] = getOmniboxSuggestions(
+      [link('a', { title: 'A <b> & C', collectionId: 'work' })],
+      collections,
+      'a'
+    );
+
+    expect(suggestion.content).toBe('https://a.com');
+    expect(suggestion.description).toBe(
+      'A &lt;b&gt; &amp; C <dim>— Trabalho</dim> <url>https://a.com</url>'
+    );
+    expect(escapeOmniboxText(`"it's"`)).toBe('&quot;it&apos;s&quot;');
+  });
+
+  it('should save on "+", open chosen or best links, and fall back to the dashboard', () => {
+    const links = [link('docs', { title: 'Docs' })];
+
+    expect(getOmniboxTarget(' + ', links)).toEqual({ type: 'save' });
+    expect(getOmniboxTarget('https://docs.com', links)).toEqual({ type: 'open', url: 'https://docs.com' });
+    expect(getOmniboxTarget('doc', links)).toEqual({ type: 'open', url: 'https://docs.com' });
+    expect(getOmniboxTarget('nada', links)).toEqual({ type: 'dashboard' });
+  });
+
+  it('should open in the current tab or a new one depending on disposition', async () => {
+    await openOmniboxUrl('https://a.com', 'currentTab');
+    expect(chrome.tabs.update).toHaveBeenCalledWith({ url: 'https://a.com' });
+
+    await openOmniboxUrl('https://a.com', 'newBackgroundTab');
+    expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://a.com', active: false });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for auto-routing rules.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  matchesRoutingCondition,
+  matchesRoutingRule,
+  matchesUrlPattern,
+  routeLink,
+  type RoutingCandidate,
+} from '@/lib/routing';
+import type { Collection, RoutingRule } from '@/lib/types';
+
+const collections: Collection[] = [
+  { id: 'inbox', name: 'Inbox', order: 0 },
+  { id: 'dev', name: 'Dev', order: 1, workspaceId: 'general' },
+  { id: 'old', name: 'Antigos', order: 2, workspaceId: 'general', archivedAt: 1 },
+  { id: 'smart', name: 'GitHub', order: 3, workspaceId: 'general', isSmart: true, smartQuery: 'site:github.com' },
+];
+
+const rule = (overrides: Partial<RoutingRule> = {}): RoutingRule => ({
+  id: 'rule-1',
+  name: 'GitHub',
+  conditions: [{ type: 'domain', value: 'github.com' }],
+  collectionId: 'dev',
+  tags: [],
+  enabled: true,
+  ...overrides,
+});
+
+const candidate: RoutingCandidate = {
+  url: 'https://gist.github.com/vinimlo/123',
+  title: '[PR] Fix badge count',
+  tabGroup: 'Trabalho',
+};
+
+describe('routing rules', () => {
+  describe('conditions', () => {
+    it('should match a domain and its subdomains', () => {
+      expect(matchesRoutingCondition(candidate, { type: 'domain', value: 'github.com' })).toBe(true);
+      expect(matchesRoutingCondition(candidate, { type: 'domain', value: 'www.GitHub.com' })).toBe(true);
+      expect(matchesRoutingCondition(candidate, { type: 'domain', value: 'hub.com' })).toBe(false);
+    });
+
+    it('should match URL patterns with wildcards against the whole URL', () => {
+      expect(matchesUrlPattern('https://docs.google.com/document/d/1', 'https://*.google.com/document/*')).toBe(true);
+      expect(matchesUrlPattern('https://docs.google.com/spreadsheets/d/1', 'https://*.google.com/document/*')).toBe(false);
+      expect(matchesUrlPattern('https://example.com/a?b=1', 'https://example.com/a?b=1')).toBe(true);
+    });
+
+    it('should match titles with a case-insensitive regex', () => {
+      expect(matchesRoutingCondition(candidate, { type: 'titleRegex', value: '^\\[pr\\]' })).toBe(true);
+      expect(matchesRoutingCondition(candidate, { type: 'titleRegex', value: 'issue' })).toBe(false);
+    });
+
+    it('should match the source tab group by title', () => {
+      expect(matchesRoutingCondition(candidate, { type: 'tabGroup', value: ' trabalho ' })).toBe(true);
+      expect(matchesRoutingCondition({ ...candidate, tabGroup: undefined }, { type: 'tabGroup', value: 'Trabalho' })).toBe(
+        false
+      );
+    });
+
+    it('should never match invalid conditions', () => {
+      expect(matchesRoutingCondition(candidate, { type: 'titleRegex', value: '[' })).toBe(false);
+      expect(matchesRoutingCondition(candidate, { type: 'domain', value: '  ' })).toBe(false);
+    });
+  });
+
+  it('should require every condition of an enabled rule to match', () => {
+    const both = rule({
+      conditions: [
+        { type: 'domain', value: 'github.com' },
+        { type: 'titleRegex', value: 'badge' },
+      ],
+    });
+
+    expect(matchesRoutingRule(candidate, both)).toBe(true);
+    expect(matchesRoutingRule({ ...candidate, title: 'Other' }, both)).toBe(false);
+    expect(matchesRoutingRule(candidate, rule({ enabled: false }))).toBe(false);
+    expect(matchesRoutingRule(candidate, rule({ conditions: [] }))).toBe(false);
+  });
+
+  describe('routeLink', () => {
+    it('should use the first matching rule', () => {
+      const rules = [
+        rule({ id: 'a', conditions: [{ type: 'domain', value: 'example.com' }] }),
+        rule({ id: 'b', tags: ['#Code', 'code'] }),
+        rule({ id: 'c', collectionId: undefined, tags: ['later'] }),
+      ];
+
+      expect(routeLink(candidate, rules, collections)).toEqual({ rule: rules[1], collectionId: 'dev', tags: ['code'] });
+    });
+
+    it('should tag links without moving them when the rule has no collection', () => {
+      const decision = routeLink(candidate, [rule({ collectionId: undefined, tags: ['dev'] })], collections);
+
+      expect(decision?.collectionId).toBe('inbox');
+      expect(decision?.tags).toEqual(['dev']);
+    });
+
+    it('should file links into the first collection of a workspace', () => {
+      const withWorkspace: Collection[] = [
+        ...collections,
+        { id: 'home-smart', name: 'Receitas', order: 1, workspaceId: 'home', isSmart: true, smartQuery: 'tag:receita' },
+        { id: 'home-later', name: 'Depois', order: 3, workspaceId: 'home' },
+        { id: 'home-read', name: 'Leitura', order: 2, workspaceId: 'home' },
+      ];
+      const rules = [
+        rule({ id: 'empty', collectionId: undefined, workspaceId: 'no-collections' }),
+        rule({ id: 'home', collectionId: undefined, workspaceId: 'home' }),
+      ];
+
+      expect(routeLink(candidate, rules, withWorkspace)).toEqual({ rule: rules[1], collectionId: 'home-read', tags: [] });
+      expect(routeLink(candidate, [rule({ workspaceId: 'home' })], withWorkspace)?.collectionId).toBe('dev');
+    });
+
+    it('should skip rules whose target no longer takes links', () => {
+      const rules = [
+        rule({ id: 'gone', collectionId: 'deleted' }),
+        rule({ id: 'archived', collectionId: 'old' }),
+        rule({ id: 'smart', collectionId: 'smart' }),
+        rule({ id: 'noop', collectionId: undefined }),
+      ];
+
+      expect(routeLink(candidate, rules, collections)).toBeNull();
+    });
+  });
+});
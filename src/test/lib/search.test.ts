@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the indexed link search.
+ */
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, normalizeSearchText, parseSearchQuery, type SearchContext } from '@/lib/search';
+import type { Link } from '@/lib/types';
+
+const link = (id: string, overrides: Partial<Link> = {}): Link => ({
+  id,
+  url: `https://${id}.com`,
+  title: id,
+  collectionId: 'inbox',
+  createdAt: new Date(2026, 0, 10).getTime(),
+  ...overrides,
+});
+
+const context: SearchContext = {
+  collections: [
+    { id: 'inbox', name: 'Inbox', order: 0 },
+    { id: 'reading', name: 'Reading List', order: 1, workspaceId: 'ws-work' },
+    { id: 'home', name: 'Casa', order: 2, workspaceId: 'ws-home' },
+  ],
+  workspaces: [
+    { id: 'ws-work', name: 'Trabalho', color: '#E85D42', order: 0, createdAt: 0 },
+    { id: 'ws-home', name: 'Pessoal', color: '#7CB890', order: 1, createdAt: 0 },
+  ],
+};
+
+const links: Link[] = [
+  link('svelte', { title: 'Tutorial de Svelte', url: 'https://svelte.dev/tutorial', collectionId: 'reading' }),
+  link('acao', { title: 'Ação e reação', url: 'https://fisica.com.br/acao', tags: ['ciência'], collectionId: 'home' }),
+  link('repo', {
+    title: 'tabAla',
+    url: 'https://github.com/vinimlo/tabAla',
+    note: 'ver o tutorial depois',
+    tags: ['dev'],
+    createdAt: new Date(2025, 11, 1).getTime(),
+  }),
+  link('gist', { title: 'Svelte stores', url: 'https://gist.github.com/x', collectionId: 'reading' }),
+];
+
+function searchIds(query: string, all: Link[] = links): string[] {
+  const index = createSearchIndex();
+  index.update(all);
+  return index.search(query, context).map((result) => result.link.id);
+}
+
+describe('search', () => {
+  it('should match words as prefixes, ignoring case and accents', () => {
+    expect(normalizeSearchText('Ação')).toBe('acao');
+    expect(searchIds('ACAO')).toEqual(['acao']);
+    expect(searchIds('cienc')).toEqual(['acao']);
+    expect(searchIds('git')).toEqual(['gist', 'repo']);
+  });
+
+  it('should rank title matches above URL and note matches', () => {
+    expect(searchIds('tutorial')).toEqual(['svelte', 'repo']);
+  });
+
+  it('should require every word and support phrases and exclusions', () => {
+    expect(searchIds('svelte stores')).toEqual(['gist']);
+    expect(searchIds('"de svelte"')).toEqual(['svelte']);
+    expect(searchIds('svelte -stores')).toEqual(['svelte']);
+  });
+
+  it('should filter by site, collection, workspace, tag and date', () => {
+    expect(searchIds('site:github.com')).toEqual(['gist', 'repo']);
+    expect(searchIds('in:"reading list"')).toEqual(['svelte', 'gist']);
+    expect(searchIds('ws:trabalho svelte')).toEqual(['svelte', 'gist']);
+    expect(searchIds('tag:ciencia')).toEqual(['acao']);
+    expect(searchIds('before:2026-01-01')).toEqual(['repo']);
+    expect(searchIds('after:2026-01-09 -site:github.com')).toEqual(['svelte', 'acao']);
+  });
+
+  it('should treat unknown operators and invalid dates as text', () => {
+    expect(parseSearchQuery('https://svelte.dev before:ontem')).toMatchObject({
+      terms: ['https', 'svelte', 'dev', 'before', 'ontem'],
+      filters: [],
+    });
+  });
+
+  it('should re-index only changed links and drop removed ones', () => {
+    const index = createSearchIndex();
+    index.update(links);
+
+    const renamed = { ...links[0], title: 'Guia de Go' };
+    index.update([renamed, ...links.slice(1, 3)]);
+
+    expect(index.size).toBe(3);
+    expect(index.search('guia', context).map((r) => r.link.id)).toEqual(['svelte']);
+    expect(index.search('stores', context)).toEqual([]);
+  });
+});
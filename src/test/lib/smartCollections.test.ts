@@ -0,0 +1,90 @@
+/**
+ * Unit tests for smart collections.
+ */
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, type SearchContext } from '@/lib/search';
+import {
+  getLinkTargetCollections,
+  getSmartCollectionLinks,
+  isSmartCollection,
+} from '@/lib/smartCollections';
+import type { Collection, Link } from '@/lib/types';
+
+const NOW = new Date(2026, 5, 1).getTime();
+
+const link = (id: string, overrides: Partial<Link> = {}): Link => ({
+  id,
+  url: `https://${id}.com`,
+  title: id,
+  collectionId: 'inbox',
+  createdAt: new Date(2026, 0, 10).getTime(),
+  ...overrides,
+});
+
+const smart = (smartQuery: string, overrides: Partial<Collection> = {}): Collection => ({
+  id: 'smart',
+  name: 'Busca',
+  order: 3,
+  workspaceId: 'ws-work',
+  isSmart: true,
+  smartQuery,
+  ...overrides,
+});
+
+const context: SearchContext = {
+  collections: [
+    { id: 'inbox', name: 'Inbox', order: 0 },
+    { id: 'reading', name: 'Reading List', order: 1, workspaceId: 'ws-work' },
+    { id: 'old', name: 'Antigos', order: 2, workspaceId: 'ws-work', archivedAt: 1 },
+  ],
+  workspaces: [{ id: 'ws-work', name: 'Trabalho', color: '#E85D42', order: 0, createdAt: 0 }],
+};
+
+const links: Link[] = [
+  link('repo', { title: 'tabAla', url: 'https://github.com/vinimlo/tabAla', tags: ['dev'] }),
+  link('gist', { title: 'Svelte stores', url: 'https://gist.github.com/x', collectionId: 'reading' }),
+  link('docs', { title: 'Svelte docs', url: 'https://svelte.dev/docs', tags: ['dev'], collectionId: 'reading' }),
+  link('archived', { url: 'https://github.com/archived', archivedAt: 1 }),
+  link('snoozed', { url: 'https://github.com/snoozed', snoozedUntil: NOW + 1000 }),
+  link('hidden', { url: 'https://github.com/hidden', collectionId: 'old' }),
+];
+
+function search(query: string, collection: Partial<Collection> = {}): string[] {
+  const index = createSearchIndex();
+  index.update(links);
+  return getSmartCollectionLinks(smart(query, collection), index, context, NOW).map((l) => l.id);
+}
+
+describe('smart collections', () => {
+  it('should tell smart collections apart', () => {
+    expect(isSmartCollection(smart('tag:dev'))).toBe(true);
+    expect(isSmartCollection(context.collections[1])).toBe(false);
+  });
+
+  it('should leave smart collections out of the link targets', () => {
+    const targets = getLinkTargetCollections([...context.collections, smart('tag:dev')]);
+
+    expect(targets.map((c) => c.id)).toEqual(['inbox', 'reading', 'old']);
+  });
+
+  it('should list the links matching the saved query from every collection', () => {
+    expect(search('site:github.com')).toEqual(['repo', 'gist']);
+    expect(search('tag:dev')).toEqual(['repo', 'docs']);
+    expect(search('svelte in:"reading list"')).toEqual(['gist', 'docs']);
+  });
+
+  it('should resolve workspace names for the ws: operator', () => {
+    expect(search('ws:trabalho')).toEqual(['gist', 'docs']);
+  });
+
+  it('should leave archived and snoozed links out', () => {
+    expect(search('site:github.com')).not.toContain('archived');
+    expect(search('site:github.com')).not.toContain('snoozed');
+    expect(search('site:github.com')).not.toContain('hidden');
+  });
+
+  it('should list nothing for a collection without a query', () => {
+    expect(search('tag:dev', { isSmart: false })).toEqual([]);
+    expect(search('tag:dev', { smartQuery: undefined })).toEqual([]);
+  });
+});
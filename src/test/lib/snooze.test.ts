@@ -0,0 +1,135 @@
+/**
+ * Unit tests for snoozing links: presets, alarm scheduling and storage.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { chromeMock, mockStorage } from '../setup';
+import { getSnoozeTime, getSnoozedLinks, scheduleSnoozeAlarm, SNOOZE_ALARM } from '@/lib/snooze';
+import {
+  getLinks,
+  saveLinks,
+  saveCollections,
+  snoozeLink,
+  unsnoozeLink,
+  wakeSnoozedLinks,
+} from '@/lib/storage';
+import { linksStore } from '@/lib/stores/links';
+import { get } from 'svelte/store';
+import type { Link } from '@/lib/types';
+
+const HOUR = 60 * 60 * 1000;
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: 'inbox',
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('snooze helpers', () => {
+  it('should compute preset wake-up times', () => {
+    // Wednesday, 14:30 local time
+    const now = new Date(2026, 0, 7, 14, 30);
+
+    expect(getSnoozeTime('later-today', now)).toBe(now.getTime() + 3 * HOUR);
+    expect(getSnoozeTime('tomorrow', now)).toBe(new Date(2026, 0, 8, 9, 0).getTime());
+    expect(getSnoozeTime('next-week', now)).toBe(new Date(2026, 0, 12, 9, 0).getTime());
+    // On a Monday, next week is seven days away
+    expect(getSnoozeTime('next-week', new Date(2026, 0, 12, 8, 0))).toBe(new Date(2026, 0, 19, 9, 0).getTime());
+  });
+
+  it('should list only links still snoozed, soonest first', () => {
+    const links = [
+      createMockLink({ id: 'a', snoozedUntil: 3000 }),
+      createMockLink({ id: 'b' }),
+      createMockLink({ id: 'c', snoozedUntil: 2000 }),
+      createMockLink({ id: 'd', snoozedUntil: 500 }),
+    ];
+
+    expect(getSnoozedLinks(links, 1000).map((l) => l.id)).toEqual(['c', 'a']);
+  });
+
+  it('should set the alarm for the earliest wake-up or clear it', async () => {
+    vi.clearAllMocks();
+    const soon = Date.now() + HOUR;
+
+    await scheduleSnoozeAlarm([
+      createMockLink({ id: 'a', snoozedUntil: soon + HOUR }),
+      createMockLink({ id: 'b', snoozedUntil: soon }),
+    ]);
+    expect(chromeMock.alarms.create).toHaveBeenCalledWith(SNOOZE_ALARM, { when: soon });
+
+    await scheduleSnoozeAlarm([createMockLink()]);
+    expect(chromeMock.alarms.clear).toHaveBeenCalledWith(SNOOZE_ALARM);
+  });
+});
+
+describe('snooze storage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveCollections([{ id: 'col-1', name: 'Leitura', order: 1 }]);
+    await saveLinks([
+      createMockLink({ id: 'a', collectionId: 'col-1' }),
+      createMockLink({ id: 'b', collectionId: 'col-1' }),
+      createMockLink({ id: 'c', collectionId: 'deleted-collection' }),
+    ]);
+  });
+
+  it('should snooze a link until a future time', async () => {
+    const until = Date.now() + HOUR;
+
+    expect(await snoozeLink('b', until)).toEqual({ success: true });
+    expect((await getLinks()).find((l) => l.id === 'b')?.snoozedUntil).toBe(until);
+    expect((await snoozeLink('b', Date.now() - 1)).success).toBe(false);
+    expect((await snoozeLink('missing', until)).success).toBe(false);
+  });
+
+  it('should wake due links to the top of their collection or Inbox', async () => {
+    await snoozeLink('b', Date.now() + HOUR);
+    await snoozeLink('c', Date.now() + HOUR);
+    await snoozeLink('a', Date.now() + 5 * HOUR);
+
+    const woken = await wakeSnoozedLinks(Date.now() + 2 * HOUR);
+
+    expect(woken.map((l) => l.id)).toEqual(['b', 'c']);
+    const links = await getLinks();
+    expect(links.map((l) => l.id)).toEqual(['b', 'c', 'a']);
+    expect(links[0]).not.toHaveProperty('snoozedUntil');
+    expect(links[1].collectionId).toBe('inbox');
+    expect(links[2].snoozedUntil).toBeDefined();
+  });
+
+  it('should keep woken links on top after the links are reloaded', async () => {
+    await saveLinks([
+      createMockLink({ id: 'a', collectionId: 'col-1', createdAt: 3000 }),
+      createMockLink({ id: 'b', collectionId: 'col-1', createdAt: 2000 }),
+      createMockLink({ id: 'c', collectionId: 'col-1', createdAt: 1000 }),
+    ]);
+    await snoozeLink('c', Date.now() + HOUR);
+
+    await wakeSnoozedLinks(Date.now() + 2 * HOUR);
+    await linksStore.load();
+
+    expect(get(linksStore).links.map((l) => l.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should keep the saved date of woken links', async () => {
+    await snoozeLink('c', Date.now() + HOUR);
+
+    await wakeSnoozedLinks(Date.now() + 2 * HOUR);
+
+    const woken = (await getLinks()).find((l) => l.id === 'c');
+    expect(woken?.createdAt).toBe(1000);
+    expect(woken?.bumpedAt).toBeGreaterThan(1000);
+  });
+
+  it('should wake a single link on demand', async () => {
+    await snoozeLink('b', Date.now() + HOUR);
+
+    expect(await unsnoozeLink('b')).toEqual({ success: true });
+    expect((await getLinks())[0].id).toBe('b');
+    expect((await unsnoozeLink('b')).success).toBe(false);
+  });
+});
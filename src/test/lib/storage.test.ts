@@ -1,8 +1,8 @@
 /**
- * Unit tests for storage module - removeLink, moveLink, settings functionality.
+ * Unit tests for storage module - removeLink, moveLink, addLinks, settings functionality.
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { mockStorage } from '../setup';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chromeMock, mockStorage } from '../setup';
 import {
   removeLink,
   getLinks,
@@ -10,12 +10,21 @@ import {
   saveLinks,
   saveCollections,
   moveLink,
+  addLinks,
+  addOrBumpLink,
+  addLink,
+  applyRoutingRulesToInbox,
   updateCollectionOrder,
   getSettings,
   saveSettings,
   updateSettings,
+  getStorageUsage,
+  setStorageBackend,
+  chromeStorage,
+  STORAGE_QUOTA_BYTES,
 } from '@/lib/storage';
-import type { Link, Collection, Settings } from '@/lib/types';
+import { HISTORY_KEY } from '@/lib/history';
+import type { Link, Collection, RoutingRule, Settings } from '@/lib/types';
 import { DEFAULT_SETTINGS } from '@/lib/types';
 
 const createMockLink = (overrides: Partial<Link> = {}): Link => ({
@@ -214,6 +223,163 @@ describe('moveLink', () => {
     expect(result.success).toBe(false);
     expect(result.error).toBe('Coleção de destino não encontrada');
   });
+
+  it('should refuse to move a link into a smart collection', async () => {
+    const link = createMockLink({ id: 'link-1', collectionId: 'col-1' });
+    await saveLinks([link]);
+    await saveCollections([
+      createMockCollection({ id: 'col-1' }),
+      createMockCollection({ id: 'smart', order: 1, isSmart: true, smartQuery: 'tag:dev' }),
+    ]);
+
+    const result = await moveLink('link-1', 'smart');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Coleções inteligentes não recebem links');
+    expect((await getLinks())[0].collectionId).toBe('col-1');
+  });
+});
+
+describe('addLinks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  it('should add links in order on top of the existing ones', async () => {
+    await saveLinks([createMockLink({ id: 'existing' })]);
+
+    const added = await addLinks([
+      { url: 'https://a.com', title: 'A', collectionId: 'col-1' },
+      { url: 'https://b.com', title: 'B', collectionId: 'col-1' },
+    ]);
+
+    expect(added).toHaveLength(2);
+    const links = await getLinks();
+    expect(links.map((l) => l.url)).toEqual(['https://a.com', 'https://b.com', 'https://example.com']);
+    expect(links[1].collectionId).toBe('col-1');
+  });
+
+  it('should not write when there is nothing to add', async () => {
+    expect(await addLinks([])).toEqual([]);
+    expect(mockStorage.links).toBeUndefined();
+  });
+});
+
+describe('addOrBumpLink', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  it('should add a link whose URL is not saved yet', async () => {
+    await saveLinks([createMockLink({ id: 'existing' })]);
+
+    const result = await addOrBumpLink({ url: 'https://new.com', title: 'New' });
+
+    expect(result.bumped).toBe(false);
+    expect((await getLinks()).map((l) => l.url)).toEqual(['https://new.com', 'https://example.com']);
+  });
+
+  it('should bump an already saved URL instead of duplicating it', async () => {
+    await saveLinks([
+      createMockLink({ id: 'other', url: 'https://other.com', createdAt: 2000 }),
+      createMockLink({ id: 'saved', collectionId: 'col-1', createdAt: 1000, archivedAt: 1500, snoozedUntil: 9999 }),
+    ]);
+
+    const result = await addOrBumpLink({ url: 'https://Example.com/?utm_source=rss', title: 'Again', note: 'Ler depois' });
+
+    expect(result.bumped).toBe(true);
+    const links = await getLinks();
+    expect(links.map((l) => l.id)).toEqual(['saved', 'other']);
+    expect(links[0]).toMatchObject({ collectionId: 'col-1', title: 'Example Link', note: 'Ler depois' });
+    expect(links[0].createdAt).toBeGreaterThan(2000);
+    expect(links[0].archivedAt).toBeUndefined();
+    expect(links[0].snoozedUntil).toBeUndefined();
+  });
+});
+
+describe('routing rules', () => {
+  const githubRule: RoutingRule = {
+    id: 'rule-1',
+    name: 'GitHub',
+    conditions: [{ type: 'domain', value: 'github.com' }],
+    collectionId: 'dev',
+    tags: ['code'],
+    enabled: true,
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveCollections([createMockCollection({ id: 'inbox', name: 'Inbox' }), createMockCollection({ id: 'dev', name: 'Dev', order: 1 })]);
+    await updateSettings({ routingRules: [githubRule] });
+  });
+
+  it('should file new Inbox links with the first matching rule', async () => {
+    const link = await addLink({ url: 'https://github.com/vinimlo/tabAla', title: 'tabAla' });
+
+    expect(link).toMatchObject({ collectionId: 'dev', tags: ['code'] });
+    expect((await getLinks())[0]).toEqual(link);
+  });
+
+  it('should file links into the first collection of a rule workspace', async () => {
+    await saveCollections([
+      ...(await getCollections()),
+      createMockCollection({ id: 'home-read', name: 'Leitura', order: 2, workspaceId: 'home' }),
+    ]);
+    await updateSettings({ routingRules: [{ ...githubRule, collectionId: undefined, workspaceId: 'home' }] });
+
+    const link = await addLink({ url: 'https://github.com/x', title: 'x' });
+
+    expect(link.collectionId).toBe('home-read');
+  });
+
+  it('should leave links saved into a specific collection alone', async () => {
+    await saveCollections([createMockCollection({ id: 'reading', name: 'Reading' })]);
+
+    const link = await addLink({ url: 'https://github.com/x', title: 'x', collectionId: 'reading' });
+
+    expect(link.collectionId).toBe('reading');
+    expect(link.tags).toBeUndefined();
+  });
+
+  it('should route links saved through addOrBumpLink', async () => {
+    const { link } = await addOrBumpLink({ url: 'https://gist.github.com/1', title: 'Gist' });
+
+    expect(link.collectionId).toBe('dev');
+  });
+
+  it('should route Inbox links saved in bulk', async () => {
+    const links = await addLinks([
+      { url: 'https://github.com/a', title: 'A' },
+      { url: 'https://example.com', title: 'B' },
+      { url: 'https://github.com/c', title: 'C', collectionId: 'dev' },
+    ]);
+
+    expect(links.map((l) => [l.collectionId, l.tags])).toEqual([
+      ['dev', ['code']],
+      ['inbox', undefined],
+      ['dev', undefined],
+    ]);
+    expect(await getLinks()).toEqual(links);
+  });
+
+  it('should apply the rules to links already in the Inbox', async () => {
+    await saveLinks([
+      createMockLink({ id: 'match', url: 'https://github.com/a', collectionId: 'inbox', tags: ['old'] }),
+      createMockLink({ id: 'other', url: 'https://example.com', collectionId: 'inbox' }),
+      createMockLink({ id: 'archived', url: 'https://github.com/b', collectionId: 'inbox', archivedAt: 1 }),
+      createMockLink({ id: 'elsewhere', url: 'https://github.com/c', collectionId: 'reading' }),
+    ]);
+
+    const result = await applyRoutingRulesToInbox();
+
+    expect(result).toEqual({ success: true, routedCount: 1 });
+    const links = await getLinks();
+    expect(links.find((l) => l.id === 'match')).toMatchObject({ collectionId: 'dev', tags: ['old', 'code'] });
+    expect(links.filter((l) => l.id !== 'match').map((l) => l.collectionId)).toEqual(['inbox', 'inbox', 'reading']);
+  });
 });
 
 describe('updateCollectionOrder', () => {
@@ -256,6 +422,11 @@ describe('settings', () => {
     const customSettings: Settings = {
       newtabEnabled: false,
       onboardingCompleted: true,
+      trashRetentionDays: 7,
+      expiryRules: [],
+      keepUrlFragments: false,
+      badgeCount: 'all',
+      routingRules: [],
     };
 
     await saveSettings(customSettings);
@@ -265,7 +436,7 @@ describe('settings', () => {
   });
 
   it('should update specific settings fields', async () => {
-    await saveSettings({ newtabEnabled: true, onboardingCompleted: false });
+    await saveSettings({ newtabEnabled: true, onboardingCompleted: false, trashRetentionDays: 30, expiryRules: [], keepUrlFragments: false, badgeCount: 'inbox', routingRules: [] });
 
     const updated = await updateSettings({ onboardingCompleted: true });
 
@@ -273,3 +444,41 @@ describe('settings', () => {
     expect(updated.onboardingCompleted).toBe(true);
   });
 });
+
+describe('getStorageUsage', () => {
+  const originalNavigator = navigator;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  afterEach(() => {
+    vi.stubGlobal('navigator', originalNavigator);
+    setStorageBackend(chromeStorage);
+  });
+
+  it('should count every chrome.storage key, including the undo history', async () => {
+    await saveLinks([createMockLink()]);
+    const before = await getStorageUsage();
+
+    mockStorage[HISTORY_KEY] = { undo: [{ id: 'entry', label: 'x'.repeat(1000) }], redo: [] };
+    const after = await getStorageUsage();
+
+    expect(chromeMock.storage.local.getBytesInUse).toHaveBeenCalledWith(null);
+    expect(after.quotaBytes).toBe(STORAGE_QUOTA_BYTES);
+    expect(after.bytesInUse - before.bytesInUse).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should report the origin estimate when another backend is active', async () => {
+    const estimate = vi.fn(() => Promise.resolve({ usage: 2048, quota: 1024 * 1024 * 1024 }));
+    vi.stubGlobal('navigator', { ...navigator, storage: { estimate } });
+    setStorageBackend({ ...chromeStorage });
+    await saveLinks([createMockLink({ note: 'nota' })]);
+
+    const usage = await getStorageUsage();
+
+    expect(usage).toEqual({ bytesInUse: 2048, notesBytes: 4, quotaBytes: 1024 * 1024 * 1024 });
+    expect(chromeMock.storage.local.getBytesInUse).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for link tags: helpers and storage operations.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  normalizeTag,
+  normalizeTags,
+  getTagCounts,
+  filterLinksByTag,
+  suggestTags,
+  TAG_MAX_LENGTH,
+} from '@/lib/tags';
+import { getLinks, saveLinks, setLinkTags, renameTag, mergeTags, deleteTag } from '@/lib/storage';
+import type { Link } from '@/lib/types';
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: 'inbox',
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('tag helpers', () => {
+  it('should normalize case, whitespace and leading hashes', () => {
+    expect(normalizeTag('  #Leitura   Semanal ')).toBe('leitura semanal');
+    expect(normalizeTag('#')).toBe('');
+    expect(normalizeTag('x'.repeat(50))).toHaveLength(TAG_MAX_LENGTH);
+    expect(normalizeTags(['Dev', 'dev', '', '#ux'])).toEqual(['dev', 'ux']);
+  });
+
+  it('should count tags by usage and filter links', () => {
+    const links = [
+      createMockLink({ id: 'a', tags: ['dev', 'ux'] }),
+      createMockLink({ id: 'b', tags: ['dev'] }),
+      createMockLink({ id: 'c' }),
+    ];
+
+    expect(getTagCounts(links)).toEqual([
+      { tag: 'dev', count: 2 },
+      { tag: 'ux', count: 1 },
+    ]);
+    expect(filterLinksByTag(links, 'dev').map((l) => l.id)).toEqual(['a', 'b']);
+  });
+
+  it('should suggest prefix matches before other matches', () => {
+    const tags = ['javascript', 'java', 'devops', 'dev'];
+
+    expect(suggestTags('ja', tags)).toEqual(['javascript', 'java']);
+    expect(suggestTags('op', tags)).toEqual(['devops']);
+    expect(suggestTags('dev', tags, ['dev'])).toEqual(['devops']);
+  });
+});
+
+describe('tag storage operations', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    await saveLinks([
+      createMockLink({ id: 'a', tags: ['js', 'dev'] }),
+      createMockLink({ id: 'b', tags: ['javascript'] }),
+      createMockLink({ id: 'c' }),
+    ]);
+  });
+
+  it('should set normalized tags on a single link', async () => {
+    const result = await setLinkTags('c', ['#Novo', 'novo']);
+
+    expect(result.success).toBe(true);
+    expect((await getLinks()).find((l) => l.id === 'c')?.tags).toEqual(['novo']);
+    expect((await setLinkTags('missing', ['x'])).success).toBe(false);
+  });
+
+  it('should rename a tag on every link, merging into an existing tag', async () => {
+    const result = await renameTag('js', 'JavaScript');
+
+    expect(result).toEqual({ success: true, updatedCount: 1 });
+    const links = await getLinks();
+    expect(links.find((l) => l.id === 'a')?.tags).toEqual(['javascript', 'dev']);
+    expect((await renameTag('dev', '  ')).success).toBe(false);
+  });
+
+  it('should merge several tags into one without duplicates', async () => {
+    const result = await mergeTags(['js', 'javascript'], 'javascript');
+
+    expect(result.updatedCount).toBe(1);
+    const links = await getLinks();
+    expect(links.map((l) => l.tags)).toEqual([['javascript', 'dev'], ['javascript'], undefined]);
+  });
+
+  it('should delete a tag from every link', async () => {
+    const result = await deleteTag('dev');
+
+    expect(result.updatedCount).toBe(1);
+    expect((await getLinks()).find((l) => l.id === 'a')?.tags).toEqual(['js']);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the trash: moving removed items in, restoring and purging.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  removeLink,
+  removeCollection,
+  deleteCollection,
+  getLinks,
+  saveLinks,
+  getCollections,
+  saveCollections,
+  getTrash,
+  saveTrash,
+  saveWorkspaces,
+  saveSettings,
+  trashLinks,
+  restoreFromTrash,
+  deleteFromTrash,
+  emptyTrash,
+  purgeExpiredTrash,
+} from '@/lib/storage';
+import type { Link, Collection } from '@/lib/types';
+import { DEFAULT_SETTINGS, DEFAULT_WORKSPACE_ID, INBOX_COLLECTION_ID, WORKSPACE_COLORS } from '@/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com',
+  title: 'Example Link',
+  collectionId: 'col-1',
+  createdAt: 1000,
+  ...overrides,
+});
+
+const inbox: Collection = { id: INBOX_COLLECTION_ID, name: 'Inbox', order: 0, isDefault: true };
+
+const createMockCollection = (overrides: Partial<Collection> = {}): Collection => ({
+  id: 'col-1',
+  name: 'Work',
+  order: 1,
+  createdAt: 1000,
+  workspaceId: 'ws-2',
+  ...overrides,
+});
+
+describe('Trash', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  it('should move a removed link to the trash with its original collection', async () => {
+    await saveCollections([inbox, createMockCollection()]);
+    await saveLinks([createMockLink(), createMockLink({ id: 'link-2' })]);
+
+    await removeLink('link-1');
+
+    const trash = await getTrash();
+    expect(trash).toHaveLength(1);
+    expect(trash[0]).toMatchObject({ id: 'link-1', type: 'link', link: { collectionId: 'col-1' } });
+  });
+
+  it('should restore a link to its original collection and position', async () => {
+    await saveCollections([inbox, createMockCollection()]);
+    const links = [
+      createMockLink({ id: 'newer', createdAt: 3000 }),
+      createMockLink({ id: 'link-1', createdAt: 2000 }),
+      createMockLink({ id: 'older', createdAt: 1000 }),
+    ];
+    await saveLinks(links);
+    await removeLink('link-1');
+
+    const result = await restoreFromTrash('link-1');
+
+    expect(result).toEqual({ success: true, collectionId: 'col-1' });
+    expect((await getLinks()).map((l) => l.id)).toEqual(['newer', 'link-1', 'older']);
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('should restore a link to Inbox when its collection is gone', async () => {
+    await saveCollections([inbox]);
+    await saveLinks([]);
+    await trashLinks([createMockLink({ collectionId: 'deleted' })]);
+
+    const result = await restoreFromTrash('link-1');
+
+    expect(result.collectionId).toBe(INBOX_COLLECTION_ID);
+    expect((await getLinks())[0].collectionId).toBe(INBOX_COLLECTION_ID);
+  });
+
+  it('should restore a deleted collection with its links and workspace', async () => {
+    await saveWorkspaces([
+      { id: 'ws-2', name: 'Other', color: WORKSPACE_COLORS[1], order: 1, createdAt: 1 },
+    ]);
+    await saveCollections([inbox, createMockCollection()]);
+    await saveLinks([createMockLink({ id: 'a' }), createMockLink({ id: 'b' })]);
+
+    const deleteResult = await deleteCollection('col-1');
+    expect(deleteResult.success).toBe(true);
+    expect((await getLinks()).every((l) => l.collectionId === INBOX_COLLECTION_ID)).toBe(true);
+
+    const result = await restoreFromTrash('col-1');
+
+    expect(result.success).toBe(true);
+    const restored = (await getCollections()).find((c) => c.id === 'col-1');
+    expect(restored).toMatchObject({ name: 'Work', order: 1, workspaceId: 'ws-2' });
+    expect((await getLinks()).every((l) => l.collectionId === 'col-1')).toBe(true);
+  });
+
+  it('should fall back to the default workspace and rename on name clash', async () => {
+    await saveWorkspaces([]);
+    await saveCollections([inbox, createMockCollection()]);
+    await saveLinks([]);
+    await removeCollection('col-1');
+    await saveCollections([inbox, createMockCollection({ id: 'col-3' })]);
+
+    await restoreFromTrash('col-1');
+
+    const restored = (await getCollections()).find((c) => c.id === 'col-1');
+    expect(restored?.name).toBe('Work (2)');
+    expect(restored?.workspaceId).toBe(DEFAULT_WORKSPACE_ID);
+  });
+
+  it('should return an error for unknown trash items', async () => {
+    const result = await restoreFromTrash('missing');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  it('should delete items permanently and empty the trash', async () => {
+    await trashLinks([createMockLink({ id: 'a' }), createMockLink({ id: 'b' })]);
+
+    await deleteFromTrash('a');
+    expect((await getTrash()).map((t) => t.id)).toEqual(['b']);
+
+    await emptyTrash();
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('should purge items older than the retention period', async () => {
+    const now = 100 * DAY_MS;
+    await saveSettings({ ...DEFAULT_SETTINGS, trashRetentionDays: 7 });
+    await saveTrash([
+      { id: 'recent', type: 'link', link: createMockLink({ id: 'recent' }), deletedAt: now - 6 * DAY_MS },
+      { id: 'expired', type: 'link', link: createMockLink({ id: 'expired' }), deletedAt: now - 8 * DAY_MS },
+    ]);
+
+    const purged = await purgeExpiredTrash(now);
+
+    expect(purged).toBe(1);
+    expect((await getTrash()).map((t) => t.id)).toEqual(['recent']);
+  });
+});
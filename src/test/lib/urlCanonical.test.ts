@@ -0,0 +1,115 @@
+/**
+ * Unit tests for URL canonicalization and duplicate detection.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockStorage } from '../setup';
+import {
+  canonicalizeUrl,
+  findDuplicateGroups,
+  getAlreadySavedMessage,
+  mergeDuplicateLinks,
+} from '@/lib/urlCanonical';
+import { getLinks, getTrash, mergeDuplicates, saveLinks } from '@/lib/storage';
+import type { Link } from '@/lib/types';
+
+const createMockLink = (overrides: Partial<Link> = {}): Link => ({
+  id: 'link-1',
+  url: 'https://example.com/post',
+  title: 'Example Link',
+  collectionId: 'inbox',
+  createdAt: 1000,
+  ...overrides,
+});
+
+describe('canonicalizeUrl', () => {
+  it('should normalize host case, default ports and trailing slashes', () => {
+    expect(canonicalizeUrl('HTTPS://Example.COM:443/Post/')).toBe('https://example.com/Post');
+    expect(canonicalizeUrl('http://example.com:80/')).toBe('http://example.com');
+    expect(canonicalizeUrl('http://example.com:8080/a')).toBe('http://example.com:8080/a');
+  });
+
+  it('should strip tracking params and sort the rest', () => {
+    expect(canonicalizeUrl('https://a.com/p?utm_source=x&b=2&fbclid=y&a=1&UTM_Medium=z')).toBe(
+      'https://a.com/p?a=1&b=2'
+    );
+    expect(canonicalizeUrl('https://a.com/?utm_campaign=x')).toBe('https://a.com');
+  });
+
+  it('should drop the fragment unless asked to keep it', () => {
+    expect(canonicalizeUrl('https://a.com/docs#intro')).toBe('https://a.com/docs');
+    expect(canonicalizeUrl('https://a.com/docs#intro', { keepFragment: true })).toBe('https://a.com/docs#intro');
+  });
+
+  it('should leave unparseable URLs as typed', () => {
+    expect(canonicalizeUrl('  not a url ')).toBe('not a url');
+  });
+});
+
+describe('duplicate detection', () => {
+  const collections = [
+    { id: 'inbox', name: 'Inbox', order: 0 },
+    { id: 'read', name: 'Leitura', order: 1 },
+  ];
+
+  it('should say where a URL is already saved', () => {
+    const links = [createMockLink({ collectionId: 'read' })];
+
+    expect(getAlreadySavedMessage('https://EXAMPLE.com/post/?utm_source=rss', links, collections)).toBe(
+      'Já salvo em Leitura'
+    );
+    expect(getAlreadySavedMessage('https://example.com/other', links, collections)).toBeNull();
+    expect(
+      getAlreadySavedMessage('https://example.com/post', [createMockLink({ archivedAt: 1 })], collections)
+    ).toBe('Já salvo no arquivo');
+  });
+
+  it('should group links by canonical URL, newest first', () => {
+    const groups = findDuplicateGroups([
+      createMockLink({ id: 'a', createdAt: 1 }),
+      createMockLink({ id: 'b', url: 'https://example.com/post/?utm_medium=email', createdAt: 3 }),
+      createMockLink({ id: 'c', url: 'https://example.com/unique' }),
+      createMockLink({ id: 'd', url: 'https://example.com/post#comments', createdAt: 2 }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].canonicalUrl).toBe('https://example.com/post');
+    expect(groups[0].links.map((l) => l.id)).toEqual(['b', 'd', 'a']);
+  });
+
+  it('should merge tags, notes and favicon into the kept link', () => {
+    const merged = mergeDuplicateLinks(createMockLink({ tags: ['dev'], note: 'Ler', archivedAt: 5 }), [
+      createMockLink({ id: 'b', tags: ['dev', 'css'], note: 'Ler', favicon: 'icon.png' }),
+      createMockLink({ id: 'c', note: 'Mostrar ao time' }),
+    ]);
+
+    expect(merged).toMatchObject({ id: 'link-1', tags: ['dev', 'css'], favicon: 'icon.png' });
+    expect(merged.note).toBe('Ler\n\nMostrar ao time');
+    expect(merged.archivedAt).toBeUndefined();
+  });
+});
+
+describe('mergeDuplicates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  it('should keep one link and send the duplicates to the trash', async () => {
+    await saveLinks([
+      createMockLink({ id: 'a', tags: ['a'] }),
+      createMockLink({ id: 'other', url: 'https://other.com' }),
+      createMockLink({ id: 'b', tags: ['b'] }),
+    ]);
+
+    expect(await mergeDuplicates('a', ['b'])).toEqual({ success: true });
+
+    const links = await getLinks();
+    expect(links.map((l) => l.id)).toEqual(['a', 'other']);
+    expect(links[0].tags).toEqual(['a', 'b']);
+    expect((await getTrash()).map((item) => item.id)).toEqual(['b']);
+  });
+
+  it('should fail when the kept link does not exist', async () => {
+    expect((await mergeDuplicates('missing', ['b'])).success).toBe(false);
+  });
+});
@@ -1,8 +1,14 @@
 /**
- * Unit tests for collection name validation.
+ * Unit tests for collection name and link note validation.
  */
 import { describe, it, expect } from 'vitest';
-import { validateCollectionName, COLLECTION_NAME_ERRORS } from '@/lib/validation';
+import {
+  validateCollectionName,
+  validateNote,
+  COLLECTION_NAME_ERRORS,
+  NOTE_ERRORS,
+  NOTE_MAX_LENGTH,
+} from '@/lib/validation';
 import type { Collection } from '@/lib/types';
 
 const createMockCollection = (name: string, id = 'col-1'): Collection => ({
@@ -132,3 +138,16 @@ describe('validateCollectionName', () => {
     });
   });
 });
+
+describe('validateNote', () => {
+  it('should accept empty notes and notes up to the limit', () => {
+    expect(validateNote('').valid).toBe(true);
+    expect(validateNote(`  ${'a'.repeat(NOTE_MAX_LENGTH)}  `).valid).toBe(true);
+  });
+
+  it('should reject notes over the limit', () => {
+    const result = validateNote('a'.repeat(NOTE_MAX_LENGTH + 1));
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe(NOTE_ERRORS.TOO_LONG);
+  });
+});
@@ -16,6 +16,7 @@ const createStorageArea = (): {
   set: ReturnType<typeof vi.fn>;
   remove: ReturnType<typeof vi.fn>;
   clear: ReturnType<typeof vi.fn>;
+  getBytesInUse: ReturnType<typeof vi.fn>;
 } => ({
   get: vi.fn((keys: string | string[] | null, callback?: StorageCallback) => {
     const result: StorageData = {};
@@ -62,6 +63,15 @@ const createStorageArea = (): {
     }
     return Promise.resolve();
   }),
+
+  getBytesInUse: vi.fn((keys: string | string[] | null) => {
+    const selected = keys === null ? Object.keys(mockStorage) : Array.isArray(keys) ? keys : [keys];
+    const encoder = new TextEncoder();
+    const bytes = selected
+      .filter((key) => mockStorage[key] !== undefined)
+      .reduce((total, key) => total + encoder.encode(key + JSON.stringify(mockStorage[key])).length, 0);
+    return Promise.resolve(bytes);
+  }),
 });
 
 const chromeMock = {
@@ -81,6 +91,29 @@ const chromeMock = {
     create: vi.fn((props) => Promise.resolve({ id: 1, ...props })),
     update: vi.fn((tabId: number, props) => Promise.resolve({ id: tabId, ...props })),
     remove: vi.fn(() => Promise.resolve()),
+    group: vi.fn(() => Promise.resolve(1)),
+    discard: vi.fn((tabId: number) => Promise.resolve({ id: tabId, discarded: true })),
+    onCreated: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
+    onRemoved: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
+    onUpdated: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
+  },
+
+  tabGroups: {
+    TAB_GROUP_ID_NONE: -1,
+    query: vi.fn(() => Promise.resolve([])),
+    get: vi.fn((groupId: number) =>
+      Promise.resolve({ id: groupId, title: '', color: 'grey', collapsed: false, windowId: 1 })
+    ),
+    update: vi.fn((groupId: number, props) => Promise.resolve({ id: groupId, ...props })),
     onCreated: {
       addListener: vi.fn(),
       removeListener: vi.fn(),
@@ -95,6 +128,11 @@ const chromeMock = {
     },
   },
 
+  windows: {
+    WINDOW_ID_CURRENT: -2,
+    create: vi.fn((props?: { url?: string }) => Promise.resolve({ id: 2, tabs: [{ id: 100, url: props?.url }] })),
+  },
+
   runtime: {
     id: 'test-extension-id',
     getURL: vi.fn((path: string) => `chrome-extension://test-extension-id/${path}`),
@@ -110,6 +148,41 @@ const chromeMock = {
     lastError: null,
   },
 
+  alarms: {
+    create: vi.fn(() => Promise.resolve()),
+    clear: vi.fn(() => Promise.resolve(true)),
+    onAlarm: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
+  },
+
+  notifications: {
+    create: vi.fn(() => Promise.resolve('')),
+    clear: vi.fn(() => Promise.resolve(true)),
+    onClicked: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
+  },
+
+  contextMenus: {
+    create: vi.fn((_properties: unknown, callback?: () => void) => {
+      callback?.();
+      return '';
+    }),
+    removeAll: vi.fn((callback?: () => void) => callback?.()),
+    onClicked: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
+  },
+
+  action: {
+    setBadgeText: vi.fn(() => Promise.resolve()),
+    setBadgeBackgroundColor: vi.fn(() => Promise.resolve()),
+  },
+
   commands: {
     getAll: vi.fn(() => Promise.resolve([])),
     onCommand: {
@@ -4,12 +4,19 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { get } from 'svelte/store';
 import { linksStore, linksByCollection } from '@/popup/stores/links';
+import { allTags, snoozedLinks, archivedCollections, linksStats } from '@/lib/stores/links';
 import * as storage from '@/lib/storage';
 import type { Link, Collection } from '@/lib/types';
 
 vi.mock('@/lib/storage', () => ({
   getLinks: vi.fn(() => Promise.resolve([])),
   saveLinks: vi.fn(() => Promise.resolve()),
+  addLink: vi.fn((input: { url: string; title: string; collectionId?: string }) =>
+    Promise.resolve({ collectionId: 'inbox', ...input, id: crypto.randomUUID(), createdAt: Date.now() })
+  ),
+  addLinks: vi.fn(() => Promise.resolve([])),
+  addOrBumpLink: vi.fn(() => Promise.resolve({ link: { id: 'saved', url: '', title: '', collectionId: 'inbox', createdAt: 0 }, bumped: false })),
+  trashLinks: vi.fn(() => Promise.resolve()),
   getCollections: vi.fn(() => Promise.resolve([])),
   saveCollections: vi.fn(() => Promise.resolve()),
   initializeInbox: vi.fn(() => Promise.resolve()),
@@ -18,6 +25,20 @@ vi.mock('@/lib/storage', () => ({
   renameCollection: vi.fn(() => Promise.resolve({ success: true })),
   moveLink: vi.fn(() => Promise.resolve({ success: true })),
   updateCollectionOrder: vi.fn(() => Promise.resolve({ success: true })),
+  setLinkTags: vi.fn(() => Promise.resolve({ success: true, updatedCount: 1 })),
+  renameTag: vi.fn(() => Promise.resolve({ success: true, updatedCount: 0 })),
+  mergeTags: vi.fn(() => Promise.resolve({ success: true, updatedCount: 0 })),
+  deleteTag: vi.fn(() => Promise.resolve({ success: true, updatedCount: 0 })),
+  setLinkNote: vi.fn(() => Promise.resolve({ success: true })),
+  snoozeLink: vi.fn(() => Promise.resolve({ success: true })),
+  unsnoozeLink: vi.fn(() => Promise.resolve({ success: true })),
+  archiveLink: vi.fn(() => Promise.resolve({ success: true })),
+  archiveLinks: vi.fn(() => Promise.resolve({ success: true })),
+  unarchiveLink: vi.fn(() => Promise.resolve({ success: true })),
+  archiveCollection: vi.fn(() => Promise.resolve({ success: true })),
+  unarchiveCollection: vi.fn(() => Promise.resolve({ success: true })),
+  mergeDuplicates: vi.fn(() => Promise.resolve({ success: true })),
+  applyRoutingRulesToInbox: vi.fn(() => Promise.resolve({ success: true, routedCount: 0 })),
   storage: {
     watch: vi.fn(() => () => {}),
   },
@@ -133,6 +154,23 @@ describe('linksStore', () => {
         expect.not.arrayContaining([expect.objectContaining({ id: 'link-1' })])
       );
     });
+
+    it('should move the removed link to the trash', async () => {
+      await linksStore.removeLink('link-1');
+
+      expect(storage.trashLinks).toHaveBeenCalledWith([expect.objectContaining({ id: 'link-1' })]);
+    });
+
+    it('should remove several links in one step', async () => {
+      await linksStore.removeLinks(['link-1', 'link-2']);
+
+      expect(get(linksStore).links).toHaveLength(0);
+      expect(storage.saveLinks).toHaveBeenCalledTimes(1);
+      expect(storage.trashLinks).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'link-2' }),
+        expect.objectContaining({ id: 'link-1' }),
+      ]);
+    });
   });
 
   describe('addLink', () => {
@@ -173,7 +211,87 @@ describe('linksStore', () => {
         collectionId: 'inbox',
       });
 
-      expect(storage.saveLinks).toHaveBeenCalled();
+      expect(storage.addLink).toHaveBeenCalledWith({
+        url: 'https://newlink.com',
+        title: 'New Link',
+        collectionId: 'inbox',
+      });
+    });
+
+    it('should add the link where storage filed it', async () => {
+      vi.mocked(storage.addLink).mockResolvedValueOnce({
+        id: 'routed',
+        url: 'https://github.com/org/repo',
+        title: 'Repo',
+        collectionId: 'work',
+        tags: ['code'],
+        createdAt: 5000,
+      });
+
+      await linksStore.addLink({
+        url: 'https://github.com/org/repo',
+        title: 'Repo',
+        collectionId: 'inbox',
+        tabGroup: 'Dev',
+      });
+
+      expect(storage.addLink).toHaveBeenCalledWith(expect.objectContaining({ tabGroup: 'Dev' }));
+      expect(get(linksStore).links[0]).toMatchObject({ id: 'routed', collectionId: 'work', tags: ['code'] });
+    });
+  });
+
+  describe('tags', () => {
+    beforeEach(async () => {
+      vi.mocked(storage.getLinks).mockResolvedValue(mockLinks);
+      vi.mocked(storage.getCollections).mockResolvedValue(mockCollections);
+      await linksStore.load();
+    });
+
+    it('should normalize and persist link tags', async () => {
+      await linksStore.setLinkTags('link-1', ['#Leitura', 'leitura', ' Dev ']);
+
+      const state = get(linksStore);
+      expect(state.links.find((l) => l.id === 'link-1')?.tags).toEqual(['leitura', 'dev']);
+      expect(storage.setLinkTags).toHaveBeenCalledWith('link-1', ['leitura', 'dev']);
+      expect(get(allTags)).toEqual([
+        { tag: 'dev', count: 1 },
+        { tag: 'leitura', count: 1 },
+      ]);
+    });
+
+    it('should roll back tags when saving fails', async () => {
+      vi.mocked(storage.setLinkTags).mockResolvedValueOnce({ success: false, error: 'Link não encontrado' });
+
+      await linksStore.setLinkTags('link-1', ['dev']);
+
+      const state = get(linksStore);
+      expect(state.links.find((l) => l.id === 'link-1')?.tags).toBeUndefined();
+      expect(state.error).toBe('Link não encontrado');
+    });
+
+    it('should reload links after renaming a tag', async () => {
+      vi.mocked(storage.getLinks).mockResolvedValue([{ ...mockLinks[0], tags: ['javascript'] }]);
+
+      await linksStore.renameTag('js', 'javascript');
+
+      expect(storage.renameTag).toHaveBeenCalledWith('js', 'javascript');
+      expect(get(linksStore).links[0].tags).toEqual(['javascript']);
+    });
+  });
+
+  describe('notes', () => {
+    beforeEach(async () => {
+      vi.mocked(storage.getLinks).mockResolvedValue(mockLinks);
+      vi.mocked(storage.getCollections).mockResolvedValue(mockCollections);
+      await linksStore.load();
+    });
+
+    it('should set a trimmed note and clear it when empty', async () => {
+      await linksStore.setLinkNote('link-1', '  Ler a seção 3  ');
+      expect(get(linksStore).links.find((l) => l.id === 'link-1')?.note).toBe('Ler a seção 3');
+
+      await linksStore.setLinkNote('link-1', '   ');
+      expect(get(linksStore).links.find((l) => l.id === 'link-1')).not.toHaveProperty('note');
     });
   });
 });
@@ -199,4 +317,24 @@ describe('linksByCollection', () => {
     const grouped = get(linksByCollection);
     expect(grouped.get('inbox')).toHaveLength(0);
   });
+
+  it('should hide snoozed links from their collection', async () => {
+    await linksStore.snoozeLink('link-2', Date.now() + 60_000);
+
+    expect(get(linksByCollection).get('work')).toHaveLength(0);
+    expect(get(snoozedLinks).map((l) => l.id)).toEqual(['link-2']);
+  });
+
+  it('should hide archived links and collections', async () => {
+    await linksStore.archiveLink('link-1');
+    expect(get(linksByCollection).get('inbox')).toHaveLength(0);
+
+    await linksStore.archiveCollection('work');
+    expect(get(linksByCollection).has('work')).toBe(false);
+    expect(get(archivedCollections).map((c) => c.id)).toEqual(['work']);
+    expect(get(linksStats)).toMatchObject({ totalLinks: 0, totalCollections: 1 });
+
+    await linksStore.unarchiveCollection('work');
+    expect(get(linksByCollection).get('work')).toHaveLength(1);
+  });
 });
@@ -2,7 +2,18 @@
  * Unit tests for tabs.ts utility functions.
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { isValidUrl, openLinkInNewTab, getCurrentTab, isSaveableUrl } from '@/lib/tabs';
+import {
+  isValidUrl,
+  openLinkInNewTab,
+  getCurrentTab,
+  isSaveableUrl,
+  getWindowTabsToSave,
+  closeTabs,
+  closeTab,
+  getClosestTabGroupColor,
+  openAsTabGroup,
+  EAGER_TAB_LIMIT,
+} from '@/lib/tabs';
 
 describe('isValidUrl', () => {
   it('should return true for valid http URL', () => {
@@ -162,6 +173,38 @@ describe('getCurrentTab', () => {
     });
   });
 
+  it('should include the title of the tab group', async () => {
+    vi.mocked(chrome.tabs.query).mockResolvedValueOnce([
+      {
+        id: 1,
+        index: 0,
+        windowId: 1,
+        groupId: 7,
+        highlighted: true,
+        active: true,
+        pinned: false,
+        incognito: false,
+        selected: true,
+        discarded: false,
+        autoDiscardable: true,
+        url: 'https://example.com',
+        title: 'Example Page',
+      },
+    ]);
+    vi.mocked(chrome.tabGroups.get).mockResolvedValueOnce({
+      id: 7,
+      title: 'Pesquisa',
+      color: 'blue',
+      collapsed: false,
+      windowId: 1,
+    } as chrome.tabGroups.TabGroup);
+
+    const result = await getCurrentTab();
+
+    expect(chrome.tabGroups.get).toHaveBeenCalledWith(7);
+    expect(result?.groupTitle).toBe('Pesquisa');
+  });
+
   it('should return null if no active tab found', async () => {
     vi.mocked(chrome.tabs.query).mockResolvedValueOnce([]);
 
@@ -277,3 +320,145 @@ describe('isSaveableUrl', () => {
     expect(isSaveableUrl('brave://settings')).toBe(false);
   });
 });
+
+describe('saving a window', () => {
+  const createTab = (overrides: Partial<chrome.tabs.Tab>): chrome.tabs.Tab => ({
+    id: 1,
+    index: 0,
+    windowId: 1,
+    highlighted: false,
+    active: false,
+    pinned: false,
+    incognito: false,
+    url: 'https://example.com',
+    title: 'Example',
+    ...overrides,
+  } as chrome.tabs.Tab);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list saveable tabs in order, optionally without pinned ones', async () => {
+    const tabs = [
+      createTab({ id: 3, index: 2, url: 'https://b.com' }),
+      createTab({ id: 1, index: 0, url: 'https://pinned.com', pinned: true }),
+      createTab({ id: 2, index: 1, url: 'chrome://newtab' }),
+      createTab({ id: 4, index: 1, url: 'https://a.com' }),
+    ];
+    vi.mocked(chrome.tabs.query).mockResolvedValue(tabs);
+
+    expect((await getWindowTabsToSave(true)).map((t) => t.id)).toEqual([1, 4, 3]);
+    expect((await getWindowTabsToSave(false)).map((t) => t.id)).toEqual([4, 3]);
+  });
+
+  it('should keep the window open when closing its last tab', async () => {
+    vi.mocked(chrome.tabs.get).mockResolvedValue(createTab({ id: 1, windowId: 7 }));
+    vi.mocked(chrome.tabs.query).mockResolvedValue([createTab({ id: 1, windowId: 7 })]);
+
+    expect(await closeTab(1)).toBe(true);
+    expect(chrome.tabs.query).toHaveBeenCalledWith({ windowId: 7 });
+    expect(chrome.tabs.create).toHaveBeenCalledWith({ windowId: 7, active: true });
+    expect(chrome.tabs.remove).toHaveBeenCalledWith(1);
+  });
+
+  it('should keep the window open when closing all of its tabs', async () => {
+    vi.mocked(chrome.tabs.query).mockResolvedValue([createTab({ id: 1 }), createTab({ id: 2 })]);
+
+    expect(await closeTabs([1])).toBe(true);
+    expect(chrome.tabs.create).not.toHaveBeenCalled();
+    expect(chrome.tabs.remove).toHaveBeenCalledWith([1]);
+
+    expect(await closeTabs([1, 2])).toBe(true);
+    expect(chrome.tabs.create).toHaveBeenCalledWith({ active: true });
+  });
+});
+
+describe('opening a collection as a tab group', () => {
+  const createTab = (overrides: Partial<chrome.tabs.Tab>): chrome.tabs.Tab =>
+    ({ index: 0, windowId: 1, highlighted: false, active: false, pinned: false, incognito: false, ...overrides }) as chrome.tabs.Tab;
+  const createTabMock = vi.mocked(chrome.tabs.create as (properties: chrome.tabs.CreateProperties) => Promise<chrome.tabs.Tab>);
+  const discardTabMock = vi.mocked(chrome.tabs.discard as (tabId: number) => Promise<chrome.tabs.Tab>);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pick the closest tab group color', () => {
+    expect(getClosestTabGroupColor('#3B82F6')).toBe('blue');
+    expect(getClosestTabGroupColor('#EF4444')).toBe('red');
+    expect(getClosestTabGroupColor('#0f0')).toBe('green');
+    expect(getClosestTabGroupColor(undefined)).toBe('grey');
+    expect(getClosestTabGroupColor('not-a-color')).toBe('grey');
+  });
+
+  it('should group the tabs in the current window', async () => {
+    createTabMock
+      .mockResolvedValueOnce(createTab({ id: 10 }))
+      .mockResolvedValueOnce(createTab({ id: 11 }));
+    const urls = ['https://a.com', 'chrome://settings', 'https://b.com'];
+
+    const result = await openAsTabGroup(urls, { title: 'Leitura', color: 'blue', newWindow: false });
+
+    expect(result).toEqual({ success: true, opened: 2 });
+    expect(chrome.tabs.create).toHaveBeenCalledTimes(2);
+    expect(chrome.tabs.group).toHaveBeenCalledWith({ tabIds: [10, 11] });
+    expect(chrome.tabGroups.update).toHaveBeenCalledWith(1, { title: 'Leitura', color: 'blue' });
+    expect(chrome.tabs.discard).not.toHaveBeenCalled();
+  });
+
+  it('should open large collections in a new window and discard the extra tabs', async () => {
+    const urls = Array.from({ length: EAGER_TAB_LIMIT + 2 }, (_, i) => `https://site${i}.com`);
+
+    const result = await openAsTabGroup(urls, { title: 'Muitos', color: 'red', newWindow: true });
+
+    expect(result.opened).toBe(urls.length);
+    expect(chrome.windows.create).toHaveBeenCalledWith({ url: urls[0], focused: true });
+    expect(chrome.tabs.create).toHaveBeenCalledWith({ url: urls[1], active: false, windowId: 2 });
+    expect(chrome.tabs.group).toHaveBeenCalledWith(
+      expect.objectContaining({ createProperties: { windowId: 2 } })
+    );
+    expect(chrome.tabs.discard).toHaveBeenCalledTimes(2);
+  });
+
+  it('should discard each extra tab before creating the next one', async () => {
+    const calls: string[] = [];
+    const urls = Array.from({ length: EAGER_TAB_LIMIT + 2 }, (_, i) => `https://site${i}.com`);
+    urls.forEach((url, i) =>
+      createTabMock.mockImplementationOnce(() => {
+        calls.push(`create ${url}`);
+        return Promise.resolve(createTab({ id: 10 + i, url }));
+      })
+    );
+    const discard = (tabId: number): Promise<chrome.tabs.Tab> => {
+      calls.push(`discard ${tabId}`);
+      return Promise.resolve(createTab({ id: tabId + 100, discarded: true }));
+    };
+    discardTabMock.mockImplementationOnce(discard).mockImplementationOnce(discard);
+
+    const result = await openAsTabGroup(urls, { title: 'Muitos', color: 'red', newWindow: false });
+
+    expect(result.opened).toBe(urls.length);
+    expect(calls.slice(EAGER_TAB_LIMIT)).toEqual([
+      `create ${urls[EAGER_TAB_LIMIT]}`,
+      `discard ${10 + EAGER_TAB_LIMIT}`,
+      `create ${urls[EAGER_TAB_LIMIT + 1]}`,
+      `discard ${11 + EAGER_TAB_LIMIT}`,
+    ]);
+    // Discarding may replace a tab, so the group gets the new IDs
+    expect(chrome.tabs.group).toHaveBeenCalledWith({
+      tabIds: [
+        ...Array.from({ length: EAGER_TAB_LIMIT }, (_, i) => 10 + i),
+        110 + EAGER_TAB_LIMIT,
+        111 + EAGER_TAB_LIMIT,
+      ],
+    });
+  });
+
+  it('should fail when there is nothing to open', async () => {
+    const result = await openAsTabGroup(['chrome://newtab'], { title: 'X', color: 'grey', newWindow: false });
+
+    expect(result.success).toBe(false);
+    expect(chrome.tabs.group).not.toHaveBeenCalled();
+  });
+});